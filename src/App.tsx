@@ -6,9 +6,14 @@ import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import DashboardLayout from "@/components/layout/DashboardLayout";
 import Login from "./pages/Login";
 import Alerts from "./pages/Alerts";
+import AlertDetail from "./pages/AlertDetail";
 import Locations from "./pages/Locations";
+import Devices from "./pages/Devices";
 import Readings from "./pages/Readings";
 import Reports from "./pages/Reports";
+import Rules from "./pages/Rules";
+import Escalation from "./pages/Escalation";
+import Notifications from "./pages/Notifications";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -37,9 +42,14 @@ const App = () => (
             }
           >
             <Route path="alerts" element={<Alerts />} />
+            <Route path="alerts/:id" element={<AlertDetail />} />
             <Route path="locations" element={<Locations />} />
+            <Route path="devices" element={<Devices />} />
             <Route path="readings" element={<Readings />} />
             <Route path="reports" element={<Reports />} />
+            <Route path="rules" element={<Rules />} />
+            <Route path="escalation" element={<Escalation />} />
+            <Route path="notifications" element={<Notifications />} />
           </Route>
           <Route path="*" element={<NotFound />} />
         </Routes>
@@ -0,0 +1,169 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { alertsAPI, type Alert } from '@/services/api';
+import { applyAlertAction, type AlertAction } from '@/lib/alerts';
+import { CheckCircle2, Eye, RotateCcw, UserPlus } from 'lucide-react';
+
+interface AlertActionsProps {
+  alert: Alert;
+  onUpdated: (alert: Alert) => void;
+}
+
+export default function AlertActions({ alert, onUpdated }: AlertActionsProps) {
+  const [dialog, setDialog] = useState<'assign' | 'resolve' | null>(null);
+  const [assignee, setAssignee] = useState(alert.assignee ?? '');
+  const [resolutionNotes, setResolutionNotes] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const { toast } = useToast();
+
+  const runAction = async (action: AlertAction) => {
+    try {
+      setSubmitting(true);
+      const response = await (() => {
+        switch (action.type) {
+          case 'acknowledge':
+            return alertsAPI.acknowledgeAlert(alert.id);
+          case 'assign':
+            return alertsAPI.assignAlert(alert.id, action.assignee);
+          case 'resolve':
+            return alertsAPI.resolveAlert(alert.id, action.resolutionNotes);
+          case 'reopen':
+            return alertsAPI.reopenAlert(alert.id);
+        }
+      })();
+      onUpdated(response.data);
+    } catch (error) {
+      toast({
+        title: 'Error updating alert',
+        description: 'Could not save the change to the server',
+        variant: 'destructive',
+      });
+      // Apply locally for demo
+      onUpdated(applyAlertAction(alert, action));
+    } finally {
+      setSubmitting(false);
+      setDialog(null);
+    }
+  };
+
+  const openAssign = () => {
+    setAssignee(alert.assignee ?? '');
+    setDialog('assign');
+  };
+
+  const openResolve = () => {
+    setResolutionNotes('');
+    setDialog('resolve');
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {alert.status === 'open' && (
+        <Button
+          size="sm"
+          variant="outline"
+          className="gap-1"
+          disabled={submitting}
+          onClick={() => runAction({ type: 'acknowledge' })}
+        >
+          <Eye className="h-3 w-3" />
+          Acknowledge
+        </Button>
+      )}
+      {alert.status !== 'resolved' && (
+        <>
+          <Button size="sm" variant="outline" className="gap-1" disabled={submitting} onClick={openAssign}>
+            <UserPlus className="h-3 w-3" />
+            {alert.assignee ? 'Reassign' : 'Assign'}
+          </Button>
+          <Button size="sm" variant="outline" className="gap-1" disabled={submitting} onClick={openResolve}>
+            <CheckCircle2 className="h-3 w-3" />
+            Resolve
+          </Button>
+        </>
+      )}
+      {alert.status === 'resolved' && (
+        <Button
+          size="sm"
+          variant="outline"
+          className="gap-1"
+          disabled={submitting}
+          onClick={() => runAction({ type: 'reopen' })}
+        >
+          <RotateCcw className="h-3 w-3" />
+          Reopen
+        </Button>
+      )}
+
+      <Dialog open={dialog === 'assign'} onOpenChange={(open) => !open && setDialog(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Assign alert</DialogTitle>
+            <DialogDescription>{alert.message}</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor={`assignee-${alert.id}`}>Assignee</Label>
+            <Input
+              id={`assignee-${alert.id}`}
+              value={assignee}
+              onChange={(e) => setAssignee(e.target.value)}
+              placeholder="Name of the responsible team member"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialog(null)}>
+              Cancel
+            </Button>
+            <Button
+              disabled={submitting || !assignee.trim()}
+              onClick={() => runAction({ type: 'assign', assignee: assignee.trim() })}
+            >
+              Assign
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={dialog === 'resolve'} onOpenChange={(open) => !open && setDialog(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Resolve alert</DialogTitle>
+            <DialogDescription>{alert.message}</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor={`resolution-${alert.id}`}>Resolution notes</Label>
+            <Textarea
+              id={`resolution-${alert.id}`}
+              value={resolutionNotes}
+              onChange={(e) => setResolutionNotes(e.target.value)}
+              placeholder="What was found and what was done"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialog(null)}>
+              Cancel
+            </Button>
+            <Button
+              disabled={submitting || !resolutionNotes.trim()}
+              onClick={() => runAction({ type: 'resolve', resolutionNotes: resolutionNotes.trim() })}
+            >
+              Resolve
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
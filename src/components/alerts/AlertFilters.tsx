@@ -0,0 +1,137 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { AlertQuery, AlertStatus, Location } from '@/services/api';
+import { alertStatusLabels } from '@/lib/alerts';
+import { formatLocationName } from '@/lib/locations';
+import { Search, X } from 'lucide-react';
+
+type AlertFilterValues = Pick<AlertQuery, 'search' | 'severity' | 'status' | 'locationId' | 'from' | 'to'>;
+
+interface AlertFiltersProps {
+  query: AlertQuery;
+  locations: Location[];
+  onChange: (filters: AlertFilterValues) => void;
+}
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+export default function AlertFilters({ query, locations, onChange }: AlertFiltersProps) {
+  const [search, setSearch] = useState(query.search ?? '');
+
+  // Keep the input in sync when the URL changes from outside (back button, shared link).
+  useEffect(() => {
+    setSearch(query.search ?? '');
+  }, [query.search]);
+
+  useEffect(() => {
+    if (search === (query.search ?? '')) return;
+    const timer = setTimeout(() => onChange({ search: search || undefined }), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [search, query.search, onChange]);
+
+  const hasFilters = Boolean(query.search || query.severity || query.status || query.locationId || query.from || query.to);
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <div className="relative w-full md:w-64">
+        <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+        <Input
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search messages"
+          className="pl-9"
+        />
+      </div>
+
+      <Select
+        value={query.severity ?? 'all'}
+        onValueChange={(value) => onChange({ severity: value === 'all' ? undefined : (value as AlertQuery['severity']) })}
+      >
+        <SelectTrigger className="w-36">
+          <SelectValue placeholder="Severity" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="all">All Severities</SelectItem>
+          <SelectItem value="critical">Critical</SelectItem>
+          <SelectItem value="warning">Warning</SelectItem>
+          <SelectItem value="info">Info</SelectItem>
+        </SelectContent>
+      </Select>
+
+      <Select
+        value={query.status ?? 'all'}
+        onValueChange={(value) => onChange({ status: value === 'all' ? undefined : (value as AlertStatus) })}
+      >
+        <SelectTrigger className="w-40">
+          <SelectValue placeholder="Status" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="all">All Statuses</SelectItem>
+          {(Object.keys(alertStatusLabels) as AlertStatus[]).map(status => (
+            <SelectItem key={status} value={status}>
+              {alertStatusLabels[status]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Select
+        value={query.locationId ?? 'all'}
+        onValueChange={(value) => onChange({ locationId: value === 'all' ? undefined : value })}
+      >
+        <SelectTrigger className="w-56">
+          <SelectValue placeholder="Location" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="all">All Locations</SelectItem>
+          {locations.map(location => (
+            <SelectItem key={location.id} value={location.id}>
+              {formatLocationName(location)}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <div className="flex items-center gap-1">
+        <Input
+          type="date"
+          aria-label="From date"
+          value={query.from ?? ''}
+          max={query.to}
+          onChange={(e) => onChange({ from: e.target.value || undefined })}
+          className="w-40"
+        />
+        <span className="text-sm text-muted-foreground">to</span>
+        <Input
+          type="date"
+          aria-label="To date"
+          value={query.to ?? ''}
+          min={query.from}
+          onChange={(e) => onChange({ to: e.target.value || undefined })}
+          className="w-40"
+        />
+      </div>
+
+      {hasFilters && (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="gap-1"
+          onClick={() => onChange({
+            search: undefined,
+            severity: undefined,
+            status: undefined,
+            locationId: undefined,
+            from: undefined,
+            to: undefined,
+          })}
+        >
+          <X className="h-4 w-4" />
+          Clear
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import type { AlertEvent } from '@/services/api';
+import { alertEventLabels } from '@/lib/alerts';
+import { MessageSquare } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface AlertHistoryProps {
+  events: AlertEvent[];
+  onComment: (message: string) => Promise<void>;
+}
+
+const eventDotColor = (event: AlertEvent) => {
+  switch (event.type) {
+    case 'created':
+    case 'reopened':
+      return 'bg-status-critical';
+    case 'acknowledged':
+    case 'assigned':
+      return 'bg-status-warning';
+    case 'resolved':
+      return 'bg-status-success';
+    default:
+      return 'bg-muted-foreground';
+  }
+};
+
+export default function AlertHistory({ events, onComment }: AlertHistoryProps) {
+  const [comment, setComment] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!comment.trim()) return;
+    try {
+      setSubmitting(true);
+      await onComment(comment.trim());
+      setComment('');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <ol className="relative space-y-4 border-l border-border pl-4">
+        {events.map(event => (
+          <li key={event.id} className="relative">
+            <span className={cn("absolute -left-[21px] top-1 h-2.5 w-2.5 rounded-full", eventDotColor(event))} />
+            <p className="flex items-center gap-1 text-sm font-medium">
+              {event.type === 'comment' && <MessageSquare className="h-3 w-3" />}
+              {alertEventLabels[event.type]}
+              {event.type === 'assigned' && event.message && ` to ${event.message}`}
+              {event.author && <span className="font-normal text-muted-foreground">by {event.author}</span>}
+            </p>
+            {event.message && event.type !== 'assigned' && (
+              <p className="mt-1 whitespace-pre-wrap text-sm text-muted-foreground">{event.message}</p>
+            )}
+            <p className="text-xs text-muted-foreground">{new Date(event.timestamp).toLocaleString()}</p>
+          </li>
+        ))}
+      </ol>
+
+      <form onSubmit={handleSubmit} className="space-y-2">
+        <Textarea
+          value={comment}
+          onChange={(e) => setComment(e.target.value)}
+          placeholder="Add findings, e.g. sensor recalibrated or sample sent to lab"
+          aria-label="Comment"
+        />
+        <div className="flex justify-end">
+          <Button type="submit" size="sm" disabled={submitting || !comment.trim()}>
+            Add comment
+          </Button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+import { Link } from 'react-router-dom';
+import { Badge } from '@/components/ui/badge';
+import { TableCell, TableRow } from '@/components/ui/table';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import AlertActions from '@/components/alerts/AlertActions';
+import DeliverySummary from '@/components/alerts/DeliverySummary';
+import EscalationTimeline from '@/components/alerts/EscalationTimeline';
+import type { Alert, EscalationPolicy, Location } from '@/services/api';
+import { alertStatusLabels, getAlertStatusColor, getSeverityColor } from '@/lib/alerts';
+import { getLocationName } from '@/lib/locations';
+import {
+  escalationTierLabels,
+  findEscalationPolicy,
+  getAlertEscalations,
+  getCurrentTier,
+  getNextEscalation,
+} from '@/lib/escalation';
+import { AlertTriangle, ChevronsUp, TrendingUp, User, WifiOff, Wrench } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface AlertRowProps {
+  alert: Alert;
+  policies: EscalationPolicy[];
+  locations: Location[];
+  now: Date;
+  onUpdated: (alert: Alert) => void;
+  nested?: boolean;
+}
+
+function EscalationBadge({ alert, policies, locations, now }: Pick<AlertRowProps, 'alert' | 'policies' | 'locations' | 'now'>) {
+  const escalations = getAlertEscalations(alert, policies, locations, now);
+  const tier = getCurrentTier(escalations);
+  // Only worth surfacing once the alert has gone past its first responder.
+  if (!tier || escalations.length < 2) return null;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className="mt-1 flex items-center gap-1 text-xs font-medium text-status-critical hover:underline"
+        >
+          <ChevronsUp className="h-3 w-3" />
+          Escalated to {escalationTierLabels[tier].toLowerCase()}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80">
+        <EscalationTimeline
+          escalations={escalations}
+          next={getNextEscalation(alert, findEscalationPolicy(policies, alert, locations), now)}
+          acknowledgedAt={alert.acknowledgedAt}
+        />
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+export default function AlertRow({ alert, policies, locations, now, onUpdated, nested = false }: AlertRowProps) {
+  return (
+    <TableRow className={cn(alert.status === 'resolved' && "opacity-70", nested && "bg-muted/30")}>
+      <TableCell className={cn(nested && "pl-10")}>
+        <Badge className={cn("gap-1", getSeverityColor(alert.severity))}>
+          <AlertTriangle className="h-4 w-4" />
+          {alert.severity.toUpperCase()}
+        </Badge>
+      </TableCell>
+      <TableCell>
+        <div className="flex items-center gap-2">
+          <Link to={`/alerts/${alert.id}`} className="font-medium text-foreground hover:underline">
+            {alert.message}
+          </Link>
+          {alert.maintenanceWindowId && (
+            <Badge variant="outline" className="gap-1 whitespace-nowrap text-muted-foreground">
+              <Wrench className="h-3 w-3" />
+              During maintenance
+            </Badge>
+          )}
+          {alert.kind === 'predicted_breach' && (
+            <Badge variant="outline" className="gap-1 whitespace-nowrap text-muted-foreground">
+              <TrendingUp className="h-3 w-3" />
+              Predicted{alert.predictedAt && ` for ${new Date(alert.predictedAt).toLocaleString()}`}
+            </Badge>
+          )}
+          {alert.kind === 'device_offline' && (
+            <Badge variant="outline" className="gap-1 whitespace-nowrap text-muted-foreground">
+              <WifiOff className="h-3 w-3" />
+              Device offline
+            </Badge>
+          )}
+        </div>
+        <EscalationBadge alert={alert} policies={policies} locations={locations} now={now} />
+        <DeliverySummary deliveries={alert.deliveries} />
+        {alert.assignee && (
+          <p className="flex items-center gap-1 mt-1 text-xs text-muted-foreground">
+            <User className="h-3 w-3" />
+            {alert.assignee}
+          </p>
+        )}
+        {alert.status === 'resolved' && alert.resolutionNotes && (
+          <p className="mt-1 text-xs text-muted-foreground">
+            Resolved {alert.resolvedAt && new Date(alert.resolvedAt).toLocaleString()}: {alert.resolutionNotes}
+          </p>
+        )}
+      </TableCell>
+      <TableCell className="text-muted-foreground">{getLocationName(locations, alert.locationId)}</TableCell>
+      <TableCell className="whitespace-nowrap text-muted-foreground">
+        {new Date(alert.timestamp).toLocaleString()}
+      </TableCell>
+      <TableCell>
+        <Badge variant="outline" className={getAlertStatusColor(alert.status)}>
+          {alertStatusLabels[alert.status]}
+        </Badge>
+      </TableCell>
+      <TableCell>
+        <div className="flex justify-end">
+          <AlertActions alert={alert} onUpdated={onUpdated} />
+        </div>
+      </TableCell>
+    </TableRow>
+  );
+}
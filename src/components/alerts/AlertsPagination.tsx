@@ -0,0 +1,66 @@
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from '@/components/ui/pagination';
+import { cn } from '@/lib/utils';
+
+interface AlertsPaginationProps {
+  page: number;
+  pageCount: number;
+  hrefForPage: (page: number) => string;
+  onPageChange: (page: number) => void;
+}
+
+// Current page, its neighbours and the first/last page; gaps become ellipses.
+const visiblePages = (page: number, pageCount: number) => {
+  const pages = new Set([1, pageCount, page - 1, page, page + 1]);
+  return [...pages].filter(p => p >= 1 && p <= pageCount).sort((a, b) => a - b);
+};
+
+export default function AlertsPagination({ page, pageCount, hrefForPage, onPageChange }: AlertsPaginationProps) {
+  if (pageCount <= 1) return null;
+
+  const linkProps = (target: number) => ({
+    href: hrefForPage(target),
+    onClick: (e: React.MouseEvent) => {
+      e.preventDefault();
+      onPageChange(target);
+    },
+  });
+
+  const pages = visiblePages(page, pageCount);
+
+  return (
+    <Pagination className="mt-4">
+      <PaginationContent>
+        <PaginationItem>
+          <PaginationPrevious
+            {...linkProps(Math.max(1, page - 1))}
+            aria-disabled={page === 1}
+            className={cn(page === 1 && 'pointer-events-none opacity-50')}
+          />
+        </PaginationItem>
+        {pages.map((p, index) => (
+          <PaginationItem key={p} className="flex items-center">
+            {index > 0 && p - pages[index - 1] > 1 && <PaginationEllipsis />}
+            <PaginationLink {...linkProps(p)} isActive={p === page}>
+              {p}
+            </PaginationLink>
+          </PaginationItem>
+        ))}
+        <PaginationItem>
+          <PaginationNext
+            {...linkProps(Math.min(pageCount, page + 1))}
+            aria-disabled={page === pageCount}
+            className={cn(page === pageCount && 'pointer-events-none opacity-50')}
+          />
+        </PaginationItem>
+      </PaginationContent>
+    </Pagination>
+  );
+}
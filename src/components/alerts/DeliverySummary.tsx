@@ -0,0 +1,51 @@
+import { Badge } from '@/components/ui/badge';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import type { NotificationDelivery } from '@/services/api';
+import { channelAdapters, deliveryStatusLabels, getDeliveryStatusColor } from '@/lib/notifications';
+import { Send } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface DeliverySummaryProps {
+  deliveries: NotificationDelivery[] | undefined;
+}
+
+export default function DeliverySummary({ deliveries }: DeliverySummaryProps) {
+  if (!deliveries || deliveries.length === 0) return null;
+
+  const sent = deliveries.filter(d => d.status === 'sent').length;
+  const hasProblem = deliveries.some(d => d.status === 'failed' || d.status === 'retrying');
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className={cn(
+            "mt-1 flex items-center gap-1 text-xs hover:underline",
+            hasProblem ? "text-status-warning" : "text-muted-foreground"
+          )}
+        >
+          <Send className="h-3 w-3" />
+          Notified {sent}/{deliveries.length} channels
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 space-y-3">
+        {deliveries.map(delivery => (
+          <div key={delivery.id} className="text-sm">
+            <div className="flex items-center justify-between gap-2">
+              <span className="font-medium">{delivery.channelName}</span>
+              <Badge variant="outline" className={getDeliveryStatusColor(delivery.status)}>
+                {deliveryStatusLabels[delivery.status]}
+              </Badge>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {channelAdapters[delivery.channelType].label} · {delivery.attempts} attempt{delivery.attempts === 1 ? '' : 's'}
+              {delivery.nextRetryAt && ` · next retry ${new Date(delivery.nextRetryAt).toLocaleTimeString()}`}
+            </p>
+            {delivery.error && <p className="text-xs text-status-critical">{delivery.error}</p>}
+          </div>
+        ))}
+      </PopoverContent>
+    </Popover>
+  );
+}
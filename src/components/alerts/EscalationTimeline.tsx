@@ -0,0 +1,50 @@
+import type { AlertEscalation, EscalationTier } from '@/services/api';
+import { escalationTierLabels } from '@/lib/escalation';
+import { cn } from '@/lib/utils';
+
+interface EscalationTimelineProps {
+  escalations: AlertEscalation[];
+  next?: { tier: EscalationTier; dueAt: string } | null;
+  acknowledgedAt?: string | null;
+}
+
+export default function EscalationTimeline({ escalations, next, acknowledgedAt }: EscalationTimelineProps) {
+  if (escalations.length === 0 && !next) {
+    return <p className="text-sm text-muted-foreground">No escalation policy applies to this alert</p>;
+  }
+
+  return (
+    <ol className="relative space-y-4 border-l border-border pl-4">
+      {escalations.map((escalation, index) => (
+        <li key={`${escalation.tier}-${escalation.escalatedAt}`} className="relative">
+          <span
+            className={cn(
+              "absolute -left-[21px] top-1 h-2.5 w-2.5 rounded-full",
+              index === escalations.length - 1 && !acknowledgedAt ? "bg-status-critical" : "bg-muted-foreground"
+            )}
+          />
+          <p className="text-sm font-medium">
+            {index === 0 ? 'Notified' : 'Escalated to'} {escalationTierLabels[escalation.tier].toLowerCase()}
+          </p>
+          <p className="text-xs text-muted-foreground">{new Date(escalation.escalatedAt).toLocaleString()}</p>
+        </li>
+      ))}
+      {acknowledgedAt && (
+        <li className="relative">
+          <span className="absolute -left-[21px] top-1 h-2.5 w-2.5 rounded-full bg-status-success" />
+          <p className="text-sm font-medium">Acknowledged, escalation stopped</p>
+          <p className="text-xs text-muted-foreground">{new Date(acknowledgedAt).toLocaleString()}</p>
+        </li>
+      )}
+      {next && (
+        <li className="relative">
+          <span className="absolute -left-[21px] top-1 h-2.5 w-2.5 rounded-full border border-dashed border-muted-foreground bg-background" />
+          <p className="text-sm text-muted-foreground">
+            Escalates to {escalationTierLabels[next.tier].toLowerCase()} if not acknowledged
+          </p>
+          <p className="text-xs text-muted-foreground">by {new Date(next.dueAt).toLocaleString()}</p>
+        </li>
+      )}
+    </ol>
+  );
+}
@@ -0,0 +1,83 @@
+import { useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { TableCell, TableRow } from '@/components/ui/table';
+import AlertRow from '@/components/alerts/AlertRow';
+import type { Alert, EscalationPolicy, Incident, Location } from '@/services/api';
+import { alertStatusLabels, getAlertStatusColor, getSeverityColor } from '@/lib/alerts';
+import { getLocationName } from '@/lib/locations';
+import { parameterRegistry } from '@/lib/parameters';
+import { AlertTriangle, ChevronDown, ChevronRight, Layers } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface IncidentRowProps {
+  incident: Incident;
+  policies: EscalationPolicy[];
+  locations: Location[];
+  now: Date;
+  onUpdated: (alert: Alert) => void;
+}
+
+export default function IncidentRow({ incident, policies, locations, now, onUpdated }: IncidentRowProps) {
+  const [expanded, setExpanded] = useState(false);
+
+  if (incident.alerts.length === 1) {
+    return (
+      <AlertRow alert={incident.alerts[0]} policies={policies} locations={locations} now={now} onUpdated={onUpdated} />
+    );
+  }
+
+  const parameterLabel = incident.parameter ? parameterRegistry[incident.parameter].label : 'Repeated';
+  const ExpandIcon = expanded ? ChevronDown : ChevronRight;
+
+  return (
+    <>
+      <TableRow
+        className={cn("cursor-pointer", incident.status === 'resolved' && "opacity-70")}
+        onClick={() => setExpanded(!expanded)}
+        aria-expanded={expanded}
+      >
+        <TableCell>
+          <div className="flex items-center gap-2">
+            <ExpandIcon className="h-4 w-4 text-muted-foreground" />
+            <Badge className={cn("gap-1", getSeverityColor(incident.severity))}>
+              <AlertTriangle className="h-4 w-4" />
+              {incident.severity.toUpperCase()}
+            </Badge>
+          </div>
+        </TableCell>
+        <TableCell>
+          <p className="flex items-center gap-2 font-medium text-foreground">
+            <Layers className="h-4 w-4 text-muted-foreground" />
+            {parameterLabel} incident
+            <Badge variant="secondary">{incident.alerts.length} alerts</Badge>
+          </p>
+          <p className="mt-1 text-xs text-muted-foreground">
+            Latest: {incident.alerts[0].message}
+          </p>
+        </TableCell>
+        <TableCell className="text-muted-foreground">{getLocationName(locations, incident.locationId)}</TableCell>
+        <TableCell className="whitespace-nowrap text-xs text-muted-foreground">
+          <p>First {new Date(incident.firstSeen).toLocaleString()}</p>
+          <p>Last {new Date(incident.lastSeen).toLocaleString()}</p>
+        </TableCell>
+        <TableCell>
+          <Badge variant="outline" className={getAlertStatusColor(incident.status)}>
+            {alertStatusLabels[incident.status]}
+          </Badge>
+        </TableCell>
+        <TableCell />
+      </TableRow>
+      {expanded && incident.alerts.map(alert => (
+        <AlertRow
+          key={alert.id}
+          alert={alert}
+          policies={policies}
+          locations={locations}
+          now={now}
+          onUpdated={onUpdated}
+          nested
+        />
+      ))}
+    </>
+  );
+}
@@ -0,0 +1,269 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useDialogReset } from '@/hooks/use-dialog-reset';
+import type { CalibrationRecord, Device, Location, ParameterKey } from '@/services/api';
+import { fitCalibration } from '@/lib/calibration';
+import { toLocalInput } from '@/lib/dates';
+import { formatDeviceName } from '@/lib/devices';
+import { formatLocationName } from '@/lib/locations';
+import { parameterKeys, parameterRegistry, parameterTitle } from '@/lib/parameters';
+import { Plus, Trash2 } from 'lucide-react';
+
+// Number fields are kept as typed until submit.
+interface CalibrationDraft {
+  locationId: string;
+  deviceId: string;
+  parameter: ParameterKey;
+  calibratedAt: string;
+  technician: string;
+  points: { reference: string; measured: string }[];
+  notes: string;
+}
+
+interface CalibrationFormDialogProps {
+  open: boolean;
+  locations: Location[];
+  devices: Device[];
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (record: Omit<CalibrationRecord, 'id'>) => void;
+}
+
+const emptyDraft = (): CalibrationDraft => ({
+  locationId: '',
+  deviceId: '',
+  parameter: 'ph',
+  calibratedAt: toLocalInput(new Date()),
+  technician: '',
+  points: [{ reference: '', measured: '' }],
+  notes: '',
+});
+
+const parseNumber = (text: string) => (text.trim() === '' || !Number.isFinite(Number(text)) ? null : Number(text));
+
+export default function CalibrationFormDialog({ open, locations, devices, onOpenChange, onSubmit }: CalibrationFormDialogProps) {
+  const [draft, setDraft] = useState<CalibrationDraft>(emptyDraft);
+
+  useDialogReset(open, () => setDraft(emptyDraft()), {
+    locations,
+    locationId: draft.locationId,
+    selectLocation: locationId => setDraft(current => ({ ...current, locationId })),
+  });
+
+  // The probe belongs to a device installed at the location, the first one
+  // unless another is picked.
+  const installed = devices.filter(device => device.locationId === draft.locationId);
+  const deviceId = installed.some(device => device.id === draft.deviceId) ? draft.deviceId : installed[0]?.id ?? '';
+
+  const points = draft.points.map(point => ({ reference: parseNumber(point.reference), measured: parseNumber(point.measured) }));
+  const complete = points.every(point => point.reference !== null && point.measured !== null);
+  const fit = complete ? fitCalibration(points) : null;
+
+  const error = !draft.locationId
+    ? 'Select a location'
+    : !deviceId
+      ? 'No device is installed at this location'
+      : !draft.technician.trim()
+        ? 'Enter who calibrated the probe'
+        : !draft.calibratedAt || new Date(draft.calibratedAt) > new Date()
+          ? 'Calibration time must not be in the future'
+          : !complete
+            ? 'Enter a reference and measured value for every buffer'
+            : null;
+
+  const updatePoint = (index: number, field: 'reference' | 'measured', value: string) => {
+    setDraft({
+      ...draft,
+      points: draft.points.map((point, i) => (i === index ? { ...point, [field]: value } : point)),
+    });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (error || !fit) return;
+    onSubmit({
+      locationId: draft.locationId,
+      deviceId,
+      parameter: draft.parameter,
+      calibratedAt: new Date(draft.calibratedAt).toISOString(),
+      technician: draft.technician.trim(),
+      points: points as CalibrationRecord['points'],
+      offset: fit.offset,
+      slope: fit.slope,
+      ...(draft.notes.trim() && { notes: draft.notes.trim() }),
+    });
+  };
+
+  const { precision } = parameterRegistry[draft.parameter];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>Record calibration</DialogTitle>
+            <DialogDescription>
+              Readings from the probe are corrected with this fit from the time of calibration
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Location</Label>
+              <Select value={draft.locationId} onValueChange={(locationId) => setDraft({ ...draft, locationId })}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select location" />
+                </SelectTrigger>
+                <SelectContent>
+                  {locations.map(location => (
+                    <SelectItem key={location.id} value={location.id}>
+                      {formatLocationName(location)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Device</Label>
+              <Select
+                value={deviceId}
+                onValueChange={(value) => setDraft({ ...draft, deviceId: value })}
+                disabled={installed.length === 0}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="No device installed" />
+                </SelectTrigger>
+                <SelectContent>
+                  {installed.map(device => (
+                    <SelectItem key={device.id} value={device.id}>
+                      {formatDeviceName(device)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Probe</Label>
+              <Select
+                value={draft.parameter}
+                onValueChange={(parameter) => setDraft({ ...draft, parameter: parameter as ParameterKey })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {parameterKeys.map(parameter => (
+                    <SelectItem key={parameter} value={parameter}>
+                      {parameterRegistry[parameter].label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="calibration-time">Calibrated at</Label>
+              <Input
+                id="calibration-time"
+                type="datetime-local"
+                value={draft.calibratedAt}
+                max={toLocalInput(new Date())}
+                onChange={(e) => setDraft({ ...draft, calibratedAt: e.target.value })}
+              />
+            </div>
+            <div className="col-span-2 space-y-2">
+              <Label htmlFor="calibration-technician">Technician</Label>
+              <Input
+                id="calibration-technician"
+                value={draft.technician}
+                onChange={(e) => setDraft({ ...draft, technician: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Buffers and standards ({parameterTitle(draft.parameter)})</Label>
+            {draft.points.map((point, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <Input
+                  type="number"
+                  step="any"
+                  aria-label="Reference value"
+                  placeholder="Reference"
+                  value={point.reference}
+                  onChange={(e) => updatePoint(index, 'reference', e.target.value)}
+                />
+                <Input
+                  type="number"
+                  step="any"
+                  aria-label="Probe reading"
+                  placeholder="Probe read"
+                  value={point.measured}
+                  onChange={(e) => updatePoint(index, 'measured', e.target.value)}
+                />
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="ghost"
+                  disabled={draft.points.length === 1}
+                  onClick={() => setDraft({ ...draft, points: draft.points.filter((_, i) => i !== index) })}
+                  aria-label="Remove buffer"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              type="button"
+              size="sm"
+              variant="outline"
+              className="gap-2"
+              onClick={() => setDraft({ ...draft, points: [...draft.points, { reference: '', measured: '' }] })}
+            >
+              <Plus className="h-4 w-4" />
+              Add buffer
+            </Button>
+            <p className="text-xs text-muted-foreground">
+              {fit
+                ? `Offset ${fit.offset.toFixed(precision + 1)}, slope ${fit.slope.toFixed(4)}`
+                : 'One buffer corrects the offset; two or more also fit the slope'}
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="calibration-notes">Notes</Label>
+            <Input
+              id="calibration-notes"
+              value={draft.notes}
+              onChange={(e) => setDraft({ ...draft, notes: e.target.value })}
+              placeholder="Optional"
+            />
+          </div>
+
+          {error && <p className="text-sm text-status-critical">{error}</p>}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={Boolean(error)}>
+              Save
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
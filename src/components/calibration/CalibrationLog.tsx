@@ -0,0 +1,113 @@
+import { useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import CalibrationFormDialog from '@/components/calibration/CalibrationFormDialog';
+import type { CalibrationRecord, Device, Location } from '@/services/api';
+import { calibrationDueAt, findCalibration } from '@/lib/calibration';
+import { getLocationName } from '@/lib/locations';
+import { formatParameterValue, parameterRegistry } from '@/lib/parameters';
+import { Plus } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface CalibrationLogProps {
+  records: CalibrationRecord[];
+  locations: Location[];
+  devices: Device[];
+  onCreate: (record: Omit<CalibrationRecord, 'id'>) => void;
+}
+
+export default function CalibrationLog({ records, locations, devices, onCreate }: CalibrationLogProps) {
+  const [formOpen, setFormOpen] = useState(false);
+
+  const now = new Date();
+  const sorted = [...records].sort((a, b) => new Date(b.calibratedAt).getTime() - new Date(a.calibratedAt).getTime());
+
+  const serialOf = (deviceId: string | null | undefined) =>
+    (deviceId ? devices.find(device => device.id === deviceId)?.serialNumber ?? 'Unknown device' : '—');
+
+  const status = (record: CalibrationRecord) => {
+    if (findCalibration(records, record, record.parameter, now)?.id !== record.id) {
+      return <span className="text-muted-foreground">Superseded</span>;
+    }
+    const device = devices.find(d => d.id === record.deviceId);
+    if (device && device.locationId !== record.locationId) {
+      return <span className="text-muted-foreground">Device removed</span>;
+    }
+    const dueAt = calibrationDueAt(record);
+    return dueAt <= now
+      ? <Badge className="bg-status-warning text-white">Overdue since {dueAt.toLocaleDateString()}</Badge>
+      : <span>Due {dueAt.toLocaleDateString()}</span>;
+  };
+
+  return (
+    <Card className="shadow-card">
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Probe Calibrations</CardTitle>
+          <CardDescription>
+            Each calibration corrects the probe's readings until the next one
+          </CardDescription>
+        </div>
+        <Button onClick={() => setFormOpen(true)} className="gap-2" disabled={locations.length === 0}>
+          <Plus className="h-4 w-4" />
+          Record calibration
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {sorted.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No calibrations recorded</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Location</TableHead>
+                <TableHead>Device</TableHead>
+                <TableHead>Probe</TableHead>
+                <TableHead>Calibrated</TableHead>
+                <TableHead>Technician</TableHead>
+                <TableHead>Buffers</TableHead>
+                <TableHead>Offset / slope</TableHead>
+                <TableHead>Next calibration</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sorted.map(record => (
+                <TableRow key={record.id}>
+                  <TableCell className="font-medium">{getLocationName(locations, record.locationId)}</TableCell>
+                  <TableCell className="whitespace-nowrap">{serialOf(record.deviceId)}</TableCell>
+                  <TableCell>{parameterRegistry[record.parameter].label}</TableCell>
+                  <TableCell className="whitespace-nowrap">
+                    {new Date(record.calibratedAt).toLocaleString()}
+                    {record.notes && <p className="text-xs text-muted-foreground">{record.notes}</p>}
+                  </TableCell>
+                  <TableCell>{record.technician}</TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {record.points.map(point => formatParameterValue(record.parameter, point.reference)).join(', ')}
+                  </TableCell>
+                  <TableCell className={cn("whitespace-nowrap", record.offset === 0 && record.slope === 1 && "text-muted-foreground")}>
+                    {record.offset >= 0 ? '+' : ''}{record.offset.toFixed(parameterRegistry[record.parameter].precision + 1)}
+                    {' / ×'}{record.slope.toFixed(4)}
+                  </TableCell>
+                  <TableCell className="whitespace-nowrap">{status(record)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <CalibrationFormDialog
+        open={formOpen}
+        locations={locations}
+        devices={devices}
+        onOpenChange={setFormOpen}
+        onSubmit={(record) => {
+          onCreate(record);
+          setFormOpen(false);
+        }}
+      />
+    </Card>
+  );
+}
@@ -0,0 +1,226 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import type { Device, DeviceStatus, Location, ParameterKey } from '@/services/api';
+import { toLocalInput } from '@/lib/dates';
+import { deviceStatusLabels } from '@/lib/devices';
+import { formatLocationName } from '@/lib/locations';
+import { parameterKeys, parameterRegistry } from '@/lib/parameters';
+
+type DeviceDraft = Omit<Device, 'id'> & { id?: string };
+
+interface DeviceFormDialogProps {
+  open: boolean;
+  device: Device | null;
+  devices: Device[];
+  locations: Location[];
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (device: DeviceDraft) => void;
+}
+
+const emptyDevice: DeviceDraft = {
+  serialNumber: '',
+  model: '',
+  parameters: ['ph', 'turbidity', 'temperature'],
+  firmware: '',
+  status: 'in_storage',
+  locationId: null,
+  installedAt: null,
+  history: [],
+};
+
+// Location select value for a device that isn't installed anywhere.
+const NOT_INSTALLED = 'none';
+
+export default function DeviceFormDialog({ open, device, devices, locations, onOpenChange, onSubmit }: DeviceFormDialogProps) {
+  const [draft, setDraft] = useState<DeviceDraft>(emptyDevice);
+
+  useEffect(() => {
+    if (open) {
+      setDraft(device ?? { ...emptyDevice, installedAt: toLocalInput(new Date()) });
+    }
+  }, [open, device]);
+
+  const installed = device ? device.locationId !== null : draft.locationId !== null;
+  const statuses: DeviceStatus[] = installed ? ['active', 'maintenance'] : ['in_storage', 'retired'];
+
+  const serialTaken = devices.some(d => d.id !== device?.id
+    && d.serialNumber.trim().toLowerCase() === draft.serialNumber.trim().toLowerCase());
+  const error = !draft.serialNumber.trim()
+    ? 'Enter the serial number'
+    : serialTaken
+      ? 'Another device has this serial number'
+      : !draft.model.trim()
+        ? 'Enter the model'
+        : draft.parameters.length === 0
+          ? 'Choose at least one parameter the device measures'
+          : !device && draft.locationId && !draft.installedAt
+            ? 'Enter when the device was installed'
+            : null;
+
+  const setLocation = (value: string) => {
+    const locationId = value === NOT_INSTALLED ? null : value;
+    setDraft({ ...draft, locationId, status: locationId ? 'active' : 'in_storage' });
+  };
+
+  const toggleParameter = (parameter: ParameterKey, checked: boolean) => {
+    setDraft({
+      ...draft,
+      parameters: checked
+        ? parameterKeys.filter(p => p === parameter || draft.parameters.includes(p))
+        : draft.parameters.filter(p => p !== parameter),
+    });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (error) return;
+    const fields = {
+      ...draft,
+      serialNumber: draft.serialNumber.trim(),
+      model: draft.model.trim(),
+      firmware: draft.firmware.trim(),
+    };
+    if (device) {
+      onSubmit(fields);
+      return;
+    }
+    const installedAt = draft.locationId ? new Date(draft.installedAt).toISOString() : null;
+    onSubmit({
+      ...fields,
+      installedAt,
+      history: draft.locationId ? [{ locationId: draft.locationId, installedAt, removedAt: null }] : [],
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>{device ? 'Edit device' : 'Register device'}</DialogTitle>
+            <DialogDescription>
+              {device ? 'To change where it is installed, move or replace the device' : 'Add a sensor kit to the registry'}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="device-serial">Serial number</Label>
+              <Input
+                id="device-serial"
+                value={draft.serialNumber}
+                onChange={(e) => setDraft({ ...draft, serialNumber: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="device-model">Model</Label>
+              <Input
+                id="device-model"
+                value={draft.model}
+                onChange={(e) => setDraft({ ...draft, model: e.target.value })}
+                placeholder="e.g. AquaSense S-3"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="device-firmware">Firmware</Label>
+              <Input
+                id="device-firmware"
+                value={draft.firmware}
+                onChange={(e) => setDraft({ ...draft, firmware: e.target.value })}
+                placeholder="e.g. 2.8.0"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Status</Label>
+              <Select value={draft.status} onValueChange={(status) => setDraft({ ...draft, status: status as DeviceStatus })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {statuses.map(status => (
+                    <SelectItem key={status} value={status}>{deviceStatusLabels[status]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {/* Only moves change where a registered device is, so its history stays complete */}
+          {!device && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Location</Label>
+                <Select value={draft.locationId ?? NOT_INSTALLED} onValueChange={setLocation}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NOT_INSTALLED}>Not installed</SelectItem>
+                    {locations.map(location => (
+                      <SelectItem key={location.id} value={location.id}>
+                        {formatLocationName(location)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {draft.locationId && (
+                <div className="space-y-2">
+                  <Label htmlFor="device-installed">Installed</Label>
+                  <Input
+                    id="device-installed"
+                    type="datetime-local"
+                    value={draft.installedAt ?? ''}
+                    onChange={(e) => setDraft({ ...draft, installedAt: e.target.value })}
+                  />
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>Parameters measured</Label>
+            <div className="flex flex-wrap gap-x-4 gap-y-2">
+              {parameterKeys.map(parameter => (
+                <div key={parameter} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`device-${parameter}`}
+                    checked={draft.parameters.includes(parameter)}
+                    onCheckedChange={(checked) => toggleParameter(parameter, checked === true)}
+                  />
+                  <Label htmlFor={`device-${parameter}`}>{parameterRegistry[parameter].label}</Label>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {error && <p className="text-sm text-status-critical">{error}</p>}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={Boolean(error)}>
+              {device ? 'Save' : 'Register'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
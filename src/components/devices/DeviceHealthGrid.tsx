@@ -0,0 +1,163 @@
+import { useEffect, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import type { Device, DeviceHealthSettings, DeviceHeartbeat, Location } from '@/services/api';
+import { getSeverityColor } from '@/lib/alerts';
+import { assessDevice, formatDuration, offlineAlertFor, type DeviceHealth } from '@/lib/deviceHealth';
+import { getShortLocationName } from '@/lib/locations';
+import { Battery, BatteryLow, Clock, Settings2, Signal, SignalLow, Timer } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface DeviceHealthGridProps {
+  devices: Device[];
+  heartbeats: DeviceHeartbeat[];
+  settings: DeviceHealthSettings;
+  now: Date;
+  locations: Location[];
+  onSettingsChange: (settings: DeviceHealthSettings) => void;
+}
+
+const settingFields: { key: keyof DeviceHealthSettings; label: string; step: string }[] = [
+  { key: 'offlineAfterMinutes', label: 'Offline after (min)', step: '1' },
+  { key: 'offlineWarningAfterMinutes', label: 'Warn after (min)', step: '1' },
+  { key: 'lowBatteryVolts', label: 'Low battery below (V)', step: '0.1' },
+  { key: 'weakSignalDbm', label: 'Weak signal below (dBm)', step: '1' },
+];
+
+function HealthSettingsPopover({ settings, onSave }: { settings: DeviceHealthSettings; onSave: (settings: DeviceHealthSettings) => void }) {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState(settings);
+
+  useEffect(() => {
+    if (open) setDraft(settings);
+  }, [open, settings]);
+
+  const isValid = Object.values(draft).every(Number.isFinite)
+    && draft.offlineAfterMinutes > 0
+    && draft.offlineWarningAfterMinutes >= draft.offlineAfterMinutes;
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" className="gap-2">
+          <Settings2 className="h-4 w-4" />
+          Thresholds
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 space-y-3" align="end">
+        {settingFields.map(field => (
+          <div key={field.key} className="flex items-center justify-between gap-2">
+            <Label htmlFor={`health-${field.key}`} className="text-sm">{field.label}</Label>
+            <Input
+              id={`health-${field.key}`}
+              type="number"
+              step={field.step}
+              className="w-24"
+              value={Number.isFinite(draft[field.key]) ? draft[field.key] : ''}
+              onChange={(e) => setDraft({ ...draft, [field.key]: e.target.value === '' ? NaN : Number(e.target.value) })}
+            />
+          </div>
+        ))}
+        {!isValid && (
+          <p className="text-xs text-status-critical">Warnings must come no sooner than going offline</p>
+        )}
+        <Button
+          className="w-full"
+          disabled={!isValid}
+          onClick={() => {
+            onSave(draft);
+            setOpen(false);
+          }}
+        >
+          Save
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+const connectionBadge = (device: Device, health: DeviceHealth) => {
+  if (health.connection === 'never_seen') return <Badge variant="outline">Never seen</Badge>;
+  if (health.connection === 'offline') return <Badge className="bg-status-critical text-white">Offline</Badge>;
+  if (device.status === 'maintenance') return <Badge className="bg-status-warning text-white">Maintenance</Badge>;
+  return <Badge className="bg-status-success text-white">Online</Badge>;
+};
+
+export default function DeviceHealthGrid({ devices, heartbeats, settings, now, locations, onSettingsChange }: DeviceHealthGridProps) {
+  const installed = devices.filter(device => device.locationId !== null);
+
+  return (
+    <Card className="shadow-card">
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Device Health</CardTitle>
+          <CardDescription>
+            Devices silent for {formatDuration(settings.offlineAfterMinutes * 60 * 1000)} are offline and raise an
+            info alert, which becomes a warning after {formatDuration(settings.offlineWarningAfterMinutes * 60 * 1000)}
+          </CardDescription>
+        </div>
+        <HealthSettingsPopover settings={settings} onSave={onSettingsChange} />
+      </CardHeader>
+      <CardContent>
+        {installed.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No devices installed</p>
+        ) : (
+          <div className="grid grid-cols-1 gap-4 md:grid-cols-2 xl:grid-cols-3">
+            {installed.map((device) => {
+              const health = assessDevice(heartbeats.find(h => h.deviceId === device.id), settings, now);
+              const { heartbeat } = health;
+              const alert = offlineAlertFor(device, health, settings);
+              const BatteryIcon = health.lowBattery ? BatteryLow : Battery;
+              const SignalIcon = health.weakSignal ? SignalLow : Signal;
+              return (
+                <div
+                  key={device.id}
+                  className={cn(
+                    "space-y-3 rounded-lg border border-border p-4",
+                    health.connection === 'offline' && "border-status-critical",
+                  )}
+                >
+                  <div className="flex items-start justify-between gap-2">
+                    <div>
+                      <p className="font-medium">{device.serialNumber}</p>
+                      <p className="text-sm text-muted-foreground">{getShortLocationName(locations, device.locationId)}</p>
+                    </div>
+                    {connectionBadge(device, health)}
+                  </div>
+                  <div className="grid grid-cols-2 gap-2 text-sm">
+                    <p className="flex items-center gap-2" title="Last seen">
+                      <Clock className="h-4 w-4 text-muted-foreground" />
+                      {health.silentMs === null ? 'Never' : `${formatDuration(health.silentMs)} ago`}
+                    </p>
+                    <p className="flex items-center gap-2" title="Uptime">
+                      <Timer className="h-4 w-4 text-muted-foreground" />
+                      {heartbeat?.uptimeSeconds != null ? formatDuration(heartbeat.uptimeSeconds * 1000) : '—'}
+                    </p>
+                    <p className={cn("flex items-center gap-2", health.lowBattery && "text-status-warning")} title="Battery">
+                      <BatteryIcon className="h-4 w-4" />
+                      {heartbeat?.batteryVoltage != null ? `${heartbeat.batteryVoltage.toFixed(1)} V` : '—'}
+                    </p>
+                    <p className={cn("flex items-center gap-2", health.weakSignal && "text-status-warning")} title="Signal strength">
+                      <SignalIcon className="h-4 w-4" />
+                      {heartbeat?.signalStrength != null ? `${heartbeat.signalStrength} dBm` : '—'}
+                    </p>
+                  </div>
+                  {alert && (
+                    <p className="flex items-center gap-2 text-xs text-muted-foreground">
+                      <Badge className={getSeverityColor(alert.severity)}>{alert.severity.toUpperCase()}</Badge>
+                      Alert raised {alert.raisedAt.toLocaleString()}
+                    </p>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,161 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import type { Device, Location } from '@/services/api';
+import { toLocalInput } from '@/lib/dates';
+import { formatDeviceName } from '@/lib/devices';
+import { formatLocationName, getLocationName } from '@/lib/locations';
+
+export type DeviceMove =
+  // A null location takes the device out into storage.
+  | { kind: 'move'; locationId: string | null; at: Date; reason: string }
+  | { kind: 'replace'; replacementId: string; at: Date; reason: string };
+
+interface DeviceMoveDialogProps {
+  open: boolean;
+  kind: DeviceMove['kind'];
+  device: Device | null;
+  devices: Device[];
+  locations: Location[];
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (move: DeviceMove) => void;
+}
+
+const NOT_INSTALLED = 'none';
+
+export default function DeviceMoveDialog({
+  open,
+  kind,
+  device,
+  devices,
+  locations,
+  onOpenChange,
+  onSubmit,
+}: DeviceMoveDialogProps) {
+  const [target, setTarget] = useState('');
+  const [at, setAt] = useState('');
+  const [reason, setReason] = useState('');
+
+  useEffect(() => {
+    if (open) {
+      setTarget('');
+      setAt(toLocalInput(new Date()));
+      setReason('');
+    }
+  }, [open]);
+
+  if (!device) return null;
+
+  // Spares waiting in storage can stand in for a device.
+  const spares = devices.filter(d => d.id !== device.id && d.status === 'in_storage');
+  const since = device.installedAt ? new Date(device.installedAt) : null;
+  const when = at ? new Date(at) : null;
+
+  const error = !target
+    ? kind === 'move' ? 'Choose where the device goes' : 'Choose the replacement device'
+    : !when
+      ? 'Enter when it happened'
+      : when > new Date()
+        ? 'The time must not be in the future'
+        : since && when <= since
+          ? 'The time must be after the device was installed'
+          : null;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (error) return;
+    onSubmit(kind === 'move'
+      ? { kind, locationId: target === NOT_INSTALLED ? null : target, at: when, reason: reason.trim() }
+      : { kind, replacementId: target, at: when, reason: reason.trim() });
+  };
+
+  const here = device.locationId ? getLocationName(locations, device.locationId) : 'storage';
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>{kind === 'move' ? 'Move device' : 'Replace device'}</DialogTitle>
+            <DialogDescription>
+              {kind === 'move'
+                ? `${formatDeviceName(device)} is in ${here}. Readings before the move stay with its old location`
+                : `${formatDeviceName(device)} is retired and the replacement installed at ${here}`}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label>{kind === 'move' ? 'Move to' : 'Replacement'}</Label>
+            <Select value={target} onValueChange={setTarget}>
+              <SelectTrigger>
+                <SelectValue placeholder={kind === 'move' ? 'Select location' : 'Select a device in storage'} />
+              </SelectTrigger>
+              <SelectContent>
+                {kind === 'move' ? (
+                  <>
+                    {device.locationId && <SelectItem value={NOT_INSTALLED}>Storage</SelectItem>}
+                    {locations.filter(location => location.id !== device.locationId).map(location => (
+                      <SelectItem key={location.id} value={location.id}>
+                        {formatLocationName(location)}
+                      </SelectItem>
+                    ))}
+                  </>
+                ) : (
+                  spares.map(spare => (
+                    <SelectItem key={spare.id} value={spare.id}>{formatDeviceName(spare)}</SelectItem>
+                  ))
+                )}
+              </SelectContent>
+            </Select>
+            {kind === 'replace' && spares.length === 0 && (
+              <p className="text-xs text-muted-foreground">No devices in storage. Register the replacement first</p>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="device-move-at">When</Label>
+              <Input
+                id="device-move-at"
+                type="datetime-local"
+                value={at}
+                max={toLocalInput(new Date())}
+                onChange={(e) => setAt(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="device-move-reason">Reason</Label>
+              <Input
+                id="device-move-reason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder={kind === 'move' ? 'Optional' : 'e.g. Cracked pH electrode'}
+              />
+            </div>
+          </div>
+
+          {error && <p className="text-sm text-status-critical">{error}</p>}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={Boolean(error)}>
+              {kind === 'move' ? 'Move' : 'Replace'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,103 @@
+import { useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { TableCell, TableRow } from '@/components/ui/table';
+import type { Device, Location } from '@/services/api';
+import { deviceStatusLabels, getDeviceStatusColor } from '@/lib/devices';
+import { getLocationName, getShortLocationName } from '@/lib/locations';
+import { parameterRegistry } from '@/lib/parameters';
+import { ArrowRightLeft, ChevronDown, ChevronRight, Pencil, Replace } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface DeviceRowProps {
+  device: Device;
+  devices: Device[];
+  locations: Location[];
+  onEdit: (device: Device) => void;
+  onMove: (device: Device) => void;
+  onReplace: (device: Device) => void;
+}
+
+const COLUMNS = 8;
+
+export default function DeviceRow({ device, devices, locations, onEdit, onMove, onReplace }: DeviceRowProps) {
+  const [expanded, setExpanded] = useState(false);
+  const ExpandIcon = expanded ? ChevronDown : ChevronRight;
+  const serialOf = (deviceId: string) => devices.find(d => d.id === deviceId)?.serialNumber ?? 'an unregistered device';
+  const history = [...device.history].reverse();
+
+  return (
+    <>
+      <TableRow
+        className={cn("cursor-pointer", device.status === 'retired' && "opacity-70")}
+        onClick={() => setExpanded(!expanded)}
+        aria-expanded={expanded}
+      >
+        <TableCell>
+          <div className="flex items-center gap-2 font-medium">
+            <ExpandIcon className="h-4 w-4 text-muted-foreground" />
+            {device.serialNumber}
+          </div>
+        </TableCell>
+        <TableCell>{device.model}</TableCell>
+        <TableCell className="text-sm text-muted-foreground">
+          {device.parameters.map(p => parameterRegistry[p].label).join(', ')}
+        </TableCell>
+        <TableCell>{device.locationId ? getLocationName(locations, device.locationId) : '—'}</TableCell>
+        <TableCell className="whitespace-nowrap text-muted-foreground">
+          {device.installedAt ? new Date(device.installedAt).toLocaleDateString() : '—'}
+        </TableCell>
+        <TableCell className="text-muted-foreground">{device.firmware || '—'}</TableCell>
+        <TableCell>
+          <Badge className={getDeviceStatusColor(device.status)}>{deviceStatusLabels[device.status]}</Badge>
+        </TableCell>
+        <TableCell>
+          {/* Actions don't toggle the history */}
+          <div className="flex justify-end" onClick={(e) => e.stopPropagation()}>
+            <Button size="sm" variant="ghost" onClick={() => onEdit(device)} aria-label="Edit device">
+              <Pencil className="h-4 w-4" />
+            </Button>
+            {device.status !== 'retired' && (
+              <Button size="sm" variant="ghost" onClick={() => onMove(device)} aria-label="Move device">
+                <ArrowRightLeft className="h-4 w-4" />
+              </Button>
+            )}
+            {device.locationId && (
+              <Button size="sm" variant="ghost" onClick={() => onReplace(device)} aria-label="Replace device">
+                <Replace className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        </TableCell>
+      </TableRow>
+      {expanded && (
+        <TableRow className="bg-muted/30 hover:bg-muted/30">
+          <TableCell colSpan={COLUMNS} className="pl-10">
+            <div className="space-y-2 text-sm">
+              {device.replacesDeviceId && (
+                <p className="text-muted-foreground">Replaced {serialOf(device.replacesDeviceId)}</p>
+              )}
+              {history.length === 0 && <p className="text-muted-foreground">Never installed</p>}
+              {history.map(installation => (
+                <div key={installation.installedAt} className="flex items-center gap-4">
+                  <span className="w-48 font-medium">{getShortLocationName(locations, installation.locationId)}</span>
+                  <span className="text-muted-foreground">
+                    {new Date(installation.installedAt).toLocaleString()}
+                    {' – '}
+                    {installation.removedAt ? new Date(installation.removedAt).toLocaleString() : 'now'}
+                  </span>
+                  {installation.removalReason && (
+                    <span className="text-muted-foreground">{installation.removalReason}</span>
+                  )}
+                </div>
+              ))}
+              {device.replacedByDeviceId && (
+                <p className="text-muted-foreground">Replaced by {serialOf(device.replacedByDeviceId)}</p>
+              )}
+            </div>
+          </TableCell>
+        </TableRow>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,118 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import type { Alert, EscalationPolicy } from '@/services/api';
+import { escalationTierLabels } from '@/lib/escalation';
+import { ArrowRight } from 'lucide-react';
+
+interface EscalationPolicyEditorProps {
+  policy: EscalationPolicy;
+  saving: boolean;
+  onSave: (policy: EscalationPolicy) => void;
+}
+
+const severities: Alert['severity'][] = ['critical', 'warning', 'info'];
+
+export default function EscalationPolicyEditor({ policy, saving, onSave }: EscalationPolicyEditorProps) {
+  const [draft, setDraft] = useState(policy);
+
+  useEffect(() => {
+    setDraft(policy);
+  }, [policy]);
+
+  const dirty = JSON.stringify(draft) !== JSON.stringify(policy);
+  // Each tier must come after the one before it, otherwise the order of escalation is ambiguous.
+  const stepsValid = draft.steps.every((step, index) =>
+    step.afterMinutes >= 0 && (index === 0 || step.afterMinutes > draft.steps[index - 1].afterMinutes));
+
+  const setStepMinutes = (index: number, afterMinutes: number) => {
+    setDraft({
+      ...draft,
+      steps: draft.steps.map((step, i) => (i === index ? { ...step, afterMinutes } : step)),
+    });
+  };
+
+  const toggleSeverity = (severity: Alert['severity'], checked: boolean) => {
+    setDraft({
+      ...draft,
+      severities: checked
+        ? [...draft.severities, severity]
+        : draft.severities.filter(s => s !== severity),
+    });
+  };
+
+  return (
+    <Card className="shadow-card">
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>{policy.district}</CardTitle>
+          <CardDescription>
+            Escalates unacknowledged alerts through {draft.steps.length} tiers
+          </CardDescription>
+        </div>
+        <Switch
+          checked={draft.enabled}
+          onCheckedChange={(enabled) => setDraft({ ...draft, enabled })}
+          aria-label={`Enable escalation for ${policy.district}`}
+        />
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-4">
+          <span className="text-sm font-medium">Applies to</span>
+          {severities.map(severity => (
+            <div key={severity} className="flex items-center gap-2">
+              <Checkbox
+                id={`${policy.id}-${severity}`}
+                checked={draft.severities.includes(severity)}
+                onCheckedChange={(checked) => toggleSeverity(severity, checked === true)}
+              />
+              <Label htmlFor={`${policy.id}-${severity}`} className="capitalize">
+                {severity}
+              </Label>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex flex-wrap items-end gap-2">
+          {draft.steps.map((step, index) => (
+            <div key={step.tier} className="flex items-end gap-2">
+              {index > 0 && <ArrowRight className="mb-3 h-4 w-4 text-muted-foreground" />}
+              <div className="space-y-2">
+                <Label htmlFor={`${policy.id}-${step.tier}`}>{escalationTierLabels[step.tier]}</Label>
+                <div className="flex items-center gap-2">
+                  <Input
+                    id={`${policy.id}-${step.tier}`}
+                    type="number"
+                    min={0}
+                    value={step.afterMinutes}
+                    onChange={(e) => setStepMinutes(index, e.target.valueAsNumber || 0)}
+                    className="w-24"
+                  />
+                  <span className="text-sm text-muted-foreground">min</span>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+        {!stepsValid && (
+          <p className="text-sm text-status-critical">
+            Each tier must be notified later than the one before it
+          </p>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" disabled={!dirty || saving} onClick={() => setDraft(policy)}>
+            Reset
+          </Button>
+          <Button disabled={!dirty || !stepsValid || saving} onClick={() => onSave(draft)}>
+            Save policy
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,101 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import EscalationTimeline from '@/components/alerts/EscalationTimeline';
+import type { Alert, EscalationPolicy } from '@/services/api';
+import { computeEscalations, getNextEscalation } from '@/lib/escalation';
+
+interface EscalationSimulatorProps {
+  policies: EscalationPolicy[];
+}
+
+const MAX_SIMULATED_MINUTES = 180;
+
+// A fixed start time keeps the simulated timeline readable and reproducible.
+const SIMULATION_START = new Date('2024-01-01T08:00:00');
+
+export default function EscalationSimulator({ policies }: EscalationSimulatorProps) {
+  const [policyId, setPolicyId] = useState<string>('');
+  const [elapsedMinutes, setElapsedMinutes] = useState(60);
+  const [acknowledgedAfter, setAcknowledgedAfter] = useState<number | null>(null);
+
+  const policy = policies.find(p => p.id === policyId) ?? policies[0] ?? null;
+
+  const minutesFromStart = (minutes: number) =>
+    new Date(SIMULATION_START.getTime() + minutes * 60 * 1000);
+
+  const now = minutesFromStart(elapsedMinutes);
+  const acknowledgedAt = acknowledgedAfter !== null && acknowledgedAfter <= elapsedMinutes
+    ? minutesFromStart(acknowledgedAfter).toISOString()
+    : null;
+
+  const alert: Alert = {
+    id: 'simulated',
+    type: 'critical',
+    severity: 'critical',
+    message: 'Simulated critical alert',
+    locationId: 'simulated',
+    timestamp: SIMULATION_START.toISOString(),
+    status: acknowledgedAt ? 'acknowledged' : 'open',
+    acknowledgedAt,
+  };
+
+  return (
+    <Card className="shadow-card">
+      <CardHeader>
+        <CardTitle>Policy Simulator</CardTitle>
+        <CardDescription>
+          Step through time to see who a critical alert reaches and when
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="grid gap-6 md:grid-cols-2">
+        <div className="space-y-6">
+          <div className="space-y-2">
+            <Label>District</Label>
+            <Select value={policy?.id ?? ''} onValueChange={setPolicyId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select district" />
+              </SelectTrigger>
+              <SelectContent>
+                {policies.map(p => (
+                  <SelectItem key={p.id} value={p.id}>
+                    {p.district}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-3">
+            <Label>Minutes since the alert was raised: {elapsedMinutes}</Label>
+            <Slider
+              min={0}
+              max={MAX_SIMULATED_MINUTES}
+              step={1}
+              value={[elapsedMinutes]}
+              onValueChange={([value]) => setElapsedMinutes(value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="simulated-ack">Acknowledged after (minutes)</Label>
+            <Input
+              id="simulated-ack"
+              type="number"
+              min={0}
+              placeholder="Never"
+              value={acknowledgedAfter ?? ''}
+              onChange={(e) => setAcknowledgedAfter(Number.isNaN(e.target.valueAsNumber) ? null : e.target.valueAsNumber)}
+            />
+          </div>
+        </div>
+        <EscalationTimeline
+          escalations={computeEscalations(alert, policy, now)}
+          next={getNextEscalation(alert, policy, now)}
+          acknowledgedAt={acknowledgedAt}
+        />
+      </CardContent>
+    </Card>
+  );
+}
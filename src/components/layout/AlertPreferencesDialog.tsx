@@ -0,0 +1,161 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import type { AlertPreferences } from '@/services/api';
+import { isWithinQuietHours, notificationsSupported, playAlarm, unlockAudio } from '@/lib/alarm';
+import { Bell, BellOff, Volume2 } from 'lucide-react';
+
+interface AlertPreferencesDialogProps {
+  preferences: AlertPreferences;
+  onChange: (preferences: AlertPreferences) => Promise<void>;
+}
+
+export default function AlertPreferencesDialog({ preferences, onChange }: AlertPreferencesDialogProps) {
+  const [permission, setPermission] = useState<NotificationPermission | 'unsupported'>(
+    notificationsSupported() ? Notification.permission : 'unsupported'
+  );
+  const { toast } = useToast();
+
+  const save = async (next: AlertPreferences) => {
+    try {
+      await onChange(next);
+    } catch (error) {
+      toast({
+        title: 'Preferences saved on this device only',
+        description: 'Could not save alert preferences to your profile',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const toggleDesktop = async (enabled: boolean) => {
+    if (enabled && permission === 'default') {
+      const result = await Notification.requestPermission();
+      setPermission(result);
+      if (result !== 'granted') return;
+    }
+    save({ ...preferences, desktopNotifications: enabled });
+  };
+
+  // Turning the alarm on is the click the browser needs before it allows sound.
+  const toggleAlarm = (audibleAlarm: boolean) => {
+    if (audibleAlarm) unlockAudio();
+    save({ ...preferences, audibleAlarm });
+  };
+
+  const testSound = async () => {
+    if (!(await unlockAudio()) || !playAlarm(1)) {
+      toast({
+        title: 'Sound is blocked',
+        description: 'Allow sound for this site in the browser settings',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const muted = isWithinQuietHours(preferences.quietHours);
+  const active = preferences.desktopNotifications || preferences.audibleAlarm;
+  const BellIcon = active && !muted ? Bell : BellOff;
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="text-muted-foreground hover:text-foreground" aria-label="Alert notifications">
+          <BellIcon className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Alert notifications</DialogTitle>
+          <DialogDescription>
+            How this dashboard gets your attention when a new alert comes in
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="flex items-start justify-between gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="pref-desktop">Desktop notifications</Label>
+              <p className="text-xs text-muted-foreground">
+                {permission === 'unsupported'
+                  ? 'This browser does not support desktop notifications'
+                  : permission === 'denied'
+                    ? 'Blocked in browser settings. Allow notifications for this site to turn them on'
+                    : 'Show a system notification for each new alert, even when this tab is in the background'}
+              </p>
+            </div>
+            <Switch
+              id="pref-desktop"
+              checked={preferences.desktopNotifications && permission === 'granted'}
+              disabled={permission === 'unsupported' || permission === 'denied'}
+              onCheckedChange={toggleDesktop}
+            />
+          </div>
+
+          <div className="flex items-start justify-between gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="pref-alarm">Audible alarm</Label>
+              <p className="text-xs text-muted-foreground">Sound an alarm for critical alerts</p>
+              <Button variant="link" size="sm" className="h-auto gap-1 p-0 text-xs" onClick={testSound}>
+                <Volume2 className="h-3 w-3" />
+                Test sound
+              </Button>
+            </div>
+            <Switch
+              id="pref-alarm"
+              checked={preferences.audibleAlarm}
+              onCheckedChange={toggleAlarm}
+            />
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex items-start justify-between gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="pref-quiet">Quiet hours</Label>
+                <p className="text-xs text-muted-foreground">
+                  Silences the alarm and holds back non-critical notifications
+                </p>
+              </div>
+              <Switch
+                id="pref-quiet"
+                checked={preferences.quietHours.enabled}
+                onCheckedChange={(enabled) => save({ ...preferences, quietHours: { ...preferences.quietHours, enabled } })}
+              />
+            </div>
+            {preferences.quietHours.enabled && (
+              <div className="flex items-center gap-2">
+                <Input
+                  type="time"
+                  aria-label="Quiet hours start"
+                  value={preferences.quietHours.start}
+                  onChange={(e) => save({ ...preferences, quietHours: { ...preferences.quietHours, start: e.target.value } })}
+                  className="w-32"
+                />
+                <span className="text-sm text-muted-foreground">to</span>
+                <Input
+                  type="time"
+                  aria-label="Quiet hours end"
+                  value={preferences.quietHours.end}
+                  onChange={(e) => save({ ...preferences, quietHours: { ...preferences.quietHours, end: e.target.value } })}
+                  className="w-32"
+                />
+                {muted && <span className="text-xs text-muted-foreground">Active now</span>}
+              </div>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,48 @@
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { useRealtimeStatus } from '@/hooks/use-realtime';
+import { realtime, type RealtimeStatus } from '@/services/realtime';
+import { cn } from '@/lib/utils';
+
+const statusDetails: Record<RealtimeStatus, { label: string; description: string; color: string }> = {
+  connected: {
+    label: 'Live',
+    description: 'New alerts and readings appear automatically',
+    color: 'bg-status-success',
+  },
+  connecting: {
+    label: 'Connecting',
+    description: 'Opening the live update connection',
+    color: 'bg-status-warning animate-pulse',
+  },
+  reconnecting: {
+    label: 'Reconnecting',
+    description: 'Connection lost, retrying. Click to retry now',
+    color: 'bg-status-warning animate-pulse',
+  },
+  idle: {
+    label: 'Offline',
+    description: 'Live updates are paused. Click to reconnect',
+    color: 'bg-muted-foreground',
+  },
+};
+
+export default function ConnectionIndicator() {
+  const status = useRealtimeStatus();
+  const details = statusDetails[status];
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <button
+          type="button"
+          onClick={() => status !== 'connected' && realtime.reconnect()}
+          className="flex items-center gap-2 rounded-full border border-border px-3 py-1 text-xs font-medium text-muted-foreground"
+        >
+          <span className={cn('h-2 w-2 rounded-full', details.color)} />
+          {details.label}
+        </button>
+      </TooltipTrigger>
+      <TooltipContent>{details.description}</TooltipContent>
+    </Tooltip>
+  );
+}
@@ -1,6 +1,10 @@
 import { useState } from 'react';
 import { Outlet, Link, useLocation, useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
+import ConnectionIndicator from '@/components/layout/ConnectionIndicator';
+import AlertPreferencesDialog from '@/components/layout/AlertPreferencesDialog';
+import { useAlertNotifier, useAlertPreferences, useAudioBlocked } from '@/hooks/use-alert-notifier';
+import { unlockAudio } from '@/lib/alarm';
 import { cn } from '@/lib/utils';
 import { 
   Activity, 
@@ -11,20 +15,34 @@ import {
   Menu, 
   X,
   LogOut,
-  Shield
+  Shield,
+  SlidersHorizontal,
+  ChevronsUp,
+  Send,
+  Cpu,
+  VolumeX
 } from 'lucide-react';
 
 const navigation = [
   { name: 'Alerts', href: '/alerts', icon: AlertTriangle },
   { name: 'Locations', href: '/locations', icon: MapPin },
+  { name: 'Devices', href: '/devices', icon: Cpu },
   { name: 'Readings', href: '/readings', icon: BarChart3 },
   { name: 'Reports', href: '/reports', icon: FileText },
+  { name: 'Rules', href: '/rules', icon: SlidersHorizontal },
+  { name: 'Escalation', href: '/escalation', icon: ChevronsUp },
+  { name: 'Notifications', href: '/notifications', icon: Send },
 ];
 
 export default function DashboardLayout() {
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const location = useLocation();
   const navigate = useNavigate();
+  const { preferences, updatePreferences } = useAlertPreferences();
+
+  const audioBlocked = useAudioBlocked(preferences.audibleAlarm);
+
+  useAlertNotifier(preferences);
 
   const handleLogout = () => {
     localStorage.removeItem('auth_token');
@@ -68,15 +86,31 @@ export default function DashboardLayout() {
               Smart Health Monitoring
             </h1>
             
-            <Button
-              variant="ghost"
-              size="sm"
-              onClick={handleLogout}
-              className="text-muted-foreground hover:text-foreground"
-            >
-              <LogOut className="h-4 w-4 mr-2" />
-              Logout
-            </Button>
+            <div className="flex items-center gap-2">
+              <ConnectionIndicator />
+              {audioBlocked && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={unlockAudio}
+                  className="gap-2 border-status-warning text-status-warning"
+                  title="The browser blocks sound until the page is clicked, so the critical alert alarm is silent"
+                >
+                  <VolumeX className="h-4 w-4" />
+                  Enable sound
+                </Button>
+              )}
+              <AlertPreferencesDialog preferences={preferences} onChange={updatePreferences} />
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={handleLogout}
+                className="text-muted-foreground hover:text-foreground"
+              >
+                <LogOut className="h-4 w-4 mr-2" />
+                Logout
+              </Button>
+            </div>
           </div>
         </div>
 
@@ -115,7 +149,7 @@ export default function DashboardLayout() {
         <nav className="flex flex-1 flex-col px-6 py-4">
           <ul role="list" className="flex flex-1 flex-col gap-y-2">
             {navigation.map((item) => {
-              const isActive = location.pathname === item.href;
+              const isActive = location.pathname === item.href || location.pathname.startsWith(`${item.href}/`);
               return (
                 <li key={item.name}>
                   <Link
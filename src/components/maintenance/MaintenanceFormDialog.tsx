@@ -0,0 +1,195 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useDialogReset } from '@/hooks/use-dialog-reset';
+import type { Location, MaintenanceWindow, ParameterKey } from '@/services/api';
+import { toLocalInput } from '@/lib/dates';
+import { formatLocationName } from '@/lib/locations';
+import { parameterKeys, parameterRegistry } from '@/lib/parameters';
+
+type WindowDraft = Omit<MaintenanceWindow, 'id'>;
+
+interface MaintenanceFormDialogProps {
+  open: boolean;
+  locations: Location[];
+  defaultDate: Date;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (window: WindowDraft) => void;
+}
+
+const draftFor = (day: Date): WindowDraft => {
+  const start = new Date(day);
+  start.setHours(9, 0, 0, 0);
+  const end = new Date(day);
+  end.setHours(13, 0, 0, 0);
+  return {
+    locationId: '',
+    start: toLocalInput(start),
+    end: toLocalInput(end),
+    reason: '',
+    parameters: [],
+    mode: 'tag',
+  };
+};
+
+export default function MaintenanceFormDialog({
+  open,
+  locations,
+  defaultDate,
+  onOpenChange,
+  onSubmit,
+}: MaintenanceFormDialogProps) {
+  const [draft, setDraft] = useState<WindowDraft>(() => draftFor(defaultDate));
+
+  useDialogReset(open, () => setDraft(draftFor(defaultDate)), {
+    locations,
+    locationId: draft.locationId,
+    selectLocation: locationId => setDraft(current => ({ ...current, locationId })),
+  });
+
+  const error = !draft.locationId
+    ? 'Select a location'
+    : !draft.reason.trim()
+      ? 'Give a reason so operators know why alerts are muted'
+      : new Date(draft.end) <= new Date(draft.start)
+        ? 'End must be after start'
+        : null;
+
+  const toggleParameter = (parameter: ParameterKey, checked: boolean) => {
+    setDraft({
+      ...draft,
+      parameters: checked
+        ? [...draft.parameters, parameter]
+        : draft.parameters.filter(p => p !== parameter),
+    });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (error) return;
+    onSubmit({
+      ...draft,
+      reason: draft.reason.trim(),
+      start: new Date(draft.start).toISOString(),
+      end: new Date(draft.end).toISOString(),
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>Schedule maintenance</DialogTitle>
+            <DialogDescription>
+              Alerts raised at the location during the window are muted or tagged
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label>Location</Label>
+            <Select value={draft.locationId} onValueChange={(locationId) => setDraft({ ...draft, locationId })}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select location" />
+              </SelectTrigger>
+              <SelectContent>
+                {locations.map(location => (
+                  <SelectItem key={location.id} value={location.id}>
+                    {formatLocationName(location)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="maintenance-start">Start</Label>
+              <Input
+                id="maintenance-start"
+                type="datetime-local"
+                value={draft.start}
+                onChange={(e) => setDraft({ ...draft, start: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="maintenance-end">End</Label>
+              <Input
+                id="maintenance-end"
+                type="datetime-local"
+                value={draft.end}
+                min={draft.start}
+                onChange={(e) => setDraft({ ...draft, end: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="maintenance-reason">Reason</Label>
+            <Input
+              id="maintenance-reason"
+              value={draft.reason}
+              onChange={(e) => setDraft({ ...draft, reason: e.target.value })}
+              placeholder="e.g. Pipe flushing"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Affected parameters</Label>
+            <p className="text-xs text-muted-foreground">Leave all unchecked to cover every parameter</p>
+            <div className="flex flex-wrap gap-x-4 gap-y-2">
+              {parameterKeys.map(parameter => (
+                <div key={parameter} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`maintenance-${parameter}`}
+                    checked={draft.parameters.includes(parameter)}
+                    onCheckedChange={(checked) => toggleParameter(parameter, checked === true)}
+                  />
+                  <Label htmlFor={`maintenance-${parameter}`}>{parameterRegistry[parameter].label}</Label>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>During the window</Label>
+            <Select
+              value={draft.mode}
+              onValueChange={(mode) => setDraft({ ...draft, mode: mode as MaintenanceWindow['mode'] })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="tag">Keep alerts, tag them as during maintenance</SelectItem>
+                <SelectItem value="suppress">Suppress alerts</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {error && <p className="text-sm text-status-critical">{error}</p>}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={Boolean(error)}>
+              Schedule
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
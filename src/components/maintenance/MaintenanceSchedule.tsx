@@ -0,0 +1,102 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import MaintenanceFormDialog from '@/components/maintenance/MaintenanceFormDialog';
+import type { Location, MaintenanceWindow } from '@/services/api';
+import { getWindowDays, isWindowActive, overlapsDay } from '@/lib/maintenance';
+import { getLocationName } from '@/lib/locations';
+import { parameterRegistry } from '@/lib/parameters';
+import { Plus, Trash2, Wrench } from 'lucide-react';
+
+interface MaintenanceScheduleProps {
+  windows: MaintenanceWindow[];
+  locations: Location[];
+  onCreate: (window: Omit<MaintenanceWindow, 'id'>) => void;
+  onDelete: (window: MaintenanceWindow) => void;
+}
+
+export default function MaintenanceSchedule({ windows, locations, onCreate, onDelete }: MaintenanceScheduleProps) {
+  const [selectedDay, setSelectedDay] = useState<Date>(() => new Date());
+  const [formOpen, setFormOpen] = useState(false);
+
+  const now = new Date();
+  const dayWindows = windows
+    .filter(window => overlapsDay(window, selectedDay))
+    .sort((a, b) => new Date(a.start).getTime() - new Date(b.start).getTime());
+
+  return (
+    <Card className="shadow-card">
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Maintenance Windows</CardTitle>
+          <CardDescription>
+            Scheduled work during which alerts are muted or tagged
+          </CardDescription>
+        </div>
+        <Button onClick={() => setFormOpen(true)} className="gap-2" disabled={locations.length === 0}>
+          <Plus className="h-4 w-4" />
+          Schedule
+        </Button>
+      </CardHeader>
+      <CardContent className="flex flex-col gap-6 md:flex-row">
+        <Calendar
+          mode="single"
+          selected={selectedDay}
+          onSelect={(day) => day && setSelectedDay(day)}
+          modifiers={{ maintenance: windows.flatMap(getWindowDays) }}
+          modifiersClassNames={{ maintenance: 'border border-status-warning' }}
+          className="rounded-md border border-border self-start"
+        />
+        <div className="flex-1 space-y-3">
+          <p className="text-sm font-medium">
+            {selectedDay.toLocaleDateString(undefined, { weekday: 'long', month: 'long', day: 'numeric' })}
+          </p>
+          {dayWindows.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No maintenance scheduled</p>
+          ) : (
+            dayWindows.map(window => (
+              <div key={window.id} className="flex items-start gap-3 p-3 border border-border rounded-lg">
+                <Wrench className="mt-0.5 h-4 w-4 text-status-warning" />
+                <div className="flex-1 min-w-0 text-sm">
+                  <div className="flex items-center gap-2">
+                    <p className="font-medium">{getLocationName(locations, window.locationId)}</p>
+                    {isWindowActive(window, now) && (
+                      <Badge className="bg-status-warning text-white">Active</Badge>
+                    )}
+                  </div>
+                  <p className="text-muted-foreground">{window.reason}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {new Date(window.start).toLocaleString()} – {new Date(window.end).toLocaleString()}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {window.parameters.length === 0
+                      ? 'All parameters'
+                      : window.parameters.map(p => parameterRegistry[p].label).join(', ')}
+                    {' · '}
+                    {window.mode === 'suppress' ? 'Alerts suppressed' : 'Alerts tagged'}
+                  </p>
+                </div>
+                <Button size="sm" variant="ghost" onClick={() => onDelete(window)} aria-label="Cancel maintenance">
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+      </CardContent>
+
+      <MaintenanceFormDialog
+        open={formOpen}
+        locations={locations}
+        defaultDate={selectedDay}
+        onOpenChange={setFormOpen}
+        onSubmit={(window) => {
+          onCreate(window);
+          setFormOpen(false);
+        }}
+      />
+    </Card>
+  );
+}
@@ -0,0 +1,174 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import type { Alert, Location, NotificationChannel, NotificationChannelType } from '@/services/api';
+import { formatLocationName } from '@/lib/locations';
+import { channelAdapters } from '@/lib/notifications';
+
+type ChannelDraft = Omit<NotificationChannel, 'id'> & { id?: string };
+
+interface ChannelFormDialogProps {
+  open: boolean;
+  channel: NotificationChannel | null;
+  locations: Location[];
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (channel: ChannelDraft) => void;
+}
+
+const severities: Alert['severity'][] = ['critical', 'warning', 'info'];
+
+const emptyChannel: ChannelDraft = {
+  name: '',
+  type: 'email',
+  config: {},
+  severities: ['critical'],
+  locationIds: [],
+  enabled: true,
+};
+
+export default function ChannelFormDialog({ open, channel, locations, onOpenChange, onSubmit }: ChannelFormDialogProps) {
+  const [draft, setDraft] = useState<ChannelDraft>(emptyChannel);
+
+  useEffect(() => {
+    if (open) {
+      setDraft(channel ?? emptyChannel);
+    }
+  }, [open, channel]);
+
+  const adapter = channelAdapters[draft.type];
+  const configError = adapter.validate(draft.config);
+  const error = !draft.name.trim()
+    ? 'Name is required'
+    : draft.severities.length === 0
+      ? 'Select at least one severity'
+      : configError;
+
+  const toggle = <T,>(list: T[], item: T, checked: boolean) =>
+    (checked ? [...list, item] : list.filter(i => i !== item));
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (error) return;
+    onSubmit({ ...draft, name: draft.name.trim() });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-xl">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>{channel ? 'Edit channel' : 'New channel'}</DialogTitle>
+            <DialogDescription>
+              Alerts matching the selected severities and locations are sent through this channel
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="channel-name">Name</Label>
+              <Input
+                id="channel-name"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                placeholder="e.g. District A health office"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Type</Label>
+              <Select
+                value={draft.type}
+                // Settings differ per channel type, so switching starts from a blank config.
+                onValueChange={(value) => setDraft({ ...draft, type: value as NotificationChannelType, config: {} })}
+                disabled={Boolean(channel)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(channelAdapters) as NotificationChannelType[]).map(type => (
+                    <SelectItem key={type} value={type}>
+                      {channelAdapters[type].label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {adapter.fields.map(field => (
+            <div key={field.key} className="space-y-2">
+              <Label htmlFor={`channel-${field.key}`}>{field.label}</Label>
+              <Input
+                id={`channel-${field.key}`}
+                value={draft.config[field.key] ?? ''}
+                onChange={(e) => setDraft({ ...draft, config: { ...draft.config, [field.key]: e.target.value } })}
+                placeholder={field.placeholder}
+              />
+            </div>
+          ))}
+
+          <div className="space-y-2">
+            <Label>Severities</Label>
+            <div className="flex gap-4">
+              {severities.map(severity => (
+                <div key={severity} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`channel-severity-${severity}`}
+                    checked={draft.severities.includes(severity)}
+                    onCheckedChange={(checked) =>
+                      setDraft({ ...draft, severities: toggle(draft.severities, severity, checked === true) })}
+                  />
+                  <Label htmlFor={`channel-severity-${severity}`} className="capitalize">
+                    {severity}
+                  </Label>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Locations</Label>
+            <p className="text-xs text-muted-foreground">Leave all unchecked to receive alerts from every location</p>
+            <div className="grid grid-cols-2 gap-2">
+              {locations.map(location => (
+                <div key={location.id} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`channel-location-${location.id}`}
+                    checked={draft.locationIds.includes(location.id)}
+                    onCheckedChange={(checked) =>
+                      setDraft({ ...draft, locationIds: toggle(draft.locationIds, location.id, checked === true) })}
+                  />
+                  <Label htmlFor={`channel-location-${location.id}`} className="font-normal">
+                    {formatLocationName(location)}
+                  </Label>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {error && <p className="text-sm text-status-critical">{error}</p>}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={Boolean(error)}>
+              {channel ? 'Save changes' : 'Create channel'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,324 @@
+import { useFieldArray, useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { useDialogReset } from '@/hooks/use-dialog-reset';
+import type { Location, ParameterKey, ParameterValues, Reading } from '@/services/api';
+import { toLocalInput } from '@/lib/dates';
+import { formatLocationName } from '@/lib/locations';
+import { isPlausibleValue, parameterKeys, parameterRegistry, parameterUnits, toBaseUnit } from '@/lib/parameters';
+import { Plus, Trash2 } from 'lucide-react';
+
+type SampleDraft = Omit<Reading, 'id' | 'flags'>;
+
+interface LabSampleFormDialogProps {
+  open: boolean;
+  locations: Location[];
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (sample: SampleDraft) => void;
+}
+
+const required = (message: string) => z.string().trim().min(1, message);
+
+const sampleSchema = z.object({
+  locationId: required('Select a location'),
+  collectedAt: required('Enter when the sample was collected')
+    .refine(value => new Date(value) <= new Date(), 'Collection time can\'t be in the future'),
+  collector: required('Enter who collected the sample'),
+  method: required('Enter the test method'),
+  labReference: required('Enter the lab reference number'),
+  values: z.array(z.object({
+    parameter: z.enum(parameterKeys as [ParameterKey, ...ParameterKey[]]),
+    value: required('Enter a value')
+      .refine(value => Number.isFinite(Number(value)), 'Enter a number'),
+    unit: z.string(),
+  }).superRefine(({ parameter, value, unit }, ctx) => {
+    if (!isPlausibleValue(parameter, toBaseUnit(parameter, unit, Number(value)))) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['value'], message: 'Not a possible value' });
+    }
+  }))
+    .min(1, 'Add at least one result')
+    .superRefine((values, ctx) => {
+      values.forEach((entry, index) => {
+        if (values.findIndex(other => other.parameter === entry.parameter) < index) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, path: [index, 'parameter'], message: 'Already entered above' });
+        }
+      });
+    }),
+});
+
+type SampleForm = z.infer<typeof sampleSchema>;
+
+const resultFor = (parameter: ParameterKey) => ({ parameter, value: '', unit: parameterRegistry[parameter].unit });
+
+const emptySample = (): SampleForm => ({
+  locationId: '',
+  collectedAt: toLocalInput(new Date()),
+  collector: '',
+  method: '',
+  labReference: '',
+  values: [resultFor('ph')],
+});
+
+export default function LabSampleFormDialog({ open, locations, onOpenChange, onSubmit }: LabSampleFormDialogProps) {
+  const form = useForm<SampleForm>({
+    resolver: zodResolver(sampleSchema),
+    defaultValues: emptySample(),
+  });
+  const { fields, append, remove } = useFieldArray({ control: form.control, name: 'values' });
+
+  useDialogReset(open, () => form.reset(emptySample()), {
+    locations,
+    locationId: form.watch('locationId'),
+    selectLocation: locationId => form.setValue('locationId', locationId),
+  });
+
+  const handleSubmit = (sample: SampleForm) => {
+    const values: ParameterValues = {};
+    sample.values.forEach(({ parameter, value, unit }) => {
+      values[parameter] = toBaseUnit(parameter, unit, Number(value));
+    });
+    onSubmit({
+      locationId: sample.locationId,
+      timestamp: new Date(sample.collectedAt).toISOString(),
+      values,
+      source: 'lab',
+      sample: {
+        collector: sample.collector.trim(),
+        method: sample.method.trim(),
+        labReference: sample.labReference.trim(),
+      },
+    });
+  };
+
+  const addResult = () => {
+    const entered = form.getValues('values').map(entry => entry.parameter);
+    append(resultFor(parameterKeys.find(key => !entered.includes(key)) ?? 'ph'));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] max-w-2xl overflow-y-auto">
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>Record lab sample</DialogTitle>
+              <DialogDescription>
+                Enter the results of a field sample tested in the lab. Values are converted to the dashboard's units
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="locationId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Location</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select location" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {locations.map(location => (
+                          <SelectItem key={location.id} value={location.id}>
+                            {formatLocationName(location)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="collectedAt"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Collected</FormLabel>
+                    <FormControl>
+                      <Input type="datetime-local" max={toLocalInput(new Date())} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="collector"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Collected by</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g. R. Patil" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="method"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Method</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g. IS 3025 / membrane filtration" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="labReference"
+                render={({ field }) => (
+                  <FormItem className="col-span-2">
+                    <FormLabel>Lab reference number</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g. SWL-2024-0153" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-sm font-medium">Results</p>
+                  <p className="text-xs text-muted-foreground">Only the parameters the lab tested need a result</p>
+                </div>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  className="gap-2"
+                  disabled={fields.length >= parameterKeys.length}
+                  onClick={addResult}
+                >
+                  <Plus className="h-4 w-4" />
+                  Add result
+                </Button>
+              </div>
+              {fields.map((result, index) => {
+                const parameter = form.watch(`values.${index}.parameter`);
+                const units = parameterUnits(parameter);
+                return (
+                  <div key={result.id} className="grid grid-cols-[1fr_8rem_9rem_auto] items-start gap-2">
+                    <FormField
+                      control={form.control}
+                      name={`values.${index}.parameter`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <Select
+                            value={field.value}
+                            onValueChange={(value) => {
+                              field.onChange(value);
+                              form.setValue(`values.${index}.unit`, parameterRegistry[value as ParameterKey].unit);
+                            }}
+                          >
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {parameterKeys.map(key => (
+                                <SelectItem key={key} value={key}>{parameterRegistry[key].label}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name={`values.${index}.value`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormControl>
+                            <Input inputMode="decimal" placeholder="Value" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name={`values.${index}.unit`}
+                      render={({ field }) => (
+                        <FormItem>
+                          {units.length > 1 ? (
+                            <Select value={field.value} onValueChange={field.onChange}>
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                {units.map(({ unit }) => (
+                                  <SelectItem key={unit} value={unit}>{unit.trim()}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          ) : (
+                            <p className="flex h-10 items-center px-3 text-sm text-muted-foreground">
+                              {units[0].unit.trim() || 'No unit'}
+                            </p>
+                          )}
+                        </FormItem>
+                      )}
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      disabled={fields.length === 1}
+                      onClick={() => remove(index)}
+                      aria-label="Remove result"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                );
+              })}
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={form.formState.isSubmitting}>
+                Record sample
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,74 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import type { ParameterKey, ParameterValues } from '@/services/api';
+import { formatParameterValue, parameterRegistry } from '@/lib/parameters';
+import { isWithinLimits, type ParameterLimits } from '@/lib/rules';
+import { cn } from '@/lib/utils';
+
+export interface ComparedLocation {
+  id: string;
+  name: string;
+  color: string;
+  values: ParameterValues;
+  limits: Record<ParameterKey, ParameterLimits>;
+}
+
+interface LocationComparisonTableProps {
+  locations: ComparedLocation[];
+  parameters: ParameterKey[];
+  aggregated: boolean;
+}
+
+export default function LocationComparisonTable({ locations, parameters, aggregated }: LocationComparisonTableProps) {
+  return (
+    <Card className="shadow-card">
+      <CardHeader>
+        <CardTitle>Current Values by Location</CardTitle>
+        <CardDescription>
+          {aggregated ? 'Average of the most recent bucket' : 'Most recent reading'} at each location.
+          Out-of-range values are highlighted
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Parameter</TableHead>
+              {locations.map(location => (
+                <TableHead key={location.id}>
+                  <span className="flex items-center gap-2">
+                    <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: location.color }} />
+                    {location.name}
+                  </span>
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {parameters.map(parameter => (
+              <TableRow key={parameter}>
+                <TableCell className="font-medium">{parameterRegistry[parameter].label}</TableCell>
+                {locations.map((location) => {
+                  const value = location.values[parameter];
+                  if (value === undefined) {
+                    return <TableCell key={location.id} className="text-muted-foreground">—</TableCell>;
+                  }
+                  return (
+                    <TableCell
+                      key={location.id}
+                      className={cn(
+                        !isWithinLimits(location.limits[parameter], value) && 'font-medium text-status-critical'
+                      )}
+                    >
+                      {formatParameterValue(parameter, value)}
+                    </TableCell>
+                  );
+                })}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,158 @@
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  CRITICAL_COLOR,
+  SUSPECT_COLOR,
+  complianceFormatter,
+  forecastKey,
+  limitDot,
+  renderLimits,
+  tooltipStyle,
+  type ChartSeries,
+} from '@/components/readings/chartElements';
+import type { ParameterKey } from '@/services/api';
+import { parameterRegistry, parameterTitle } from '@/lib/parameters';
+import type { ParameterLimits } from '@/lib/rules';
+import {
+  Area,
+  CartesianGrid,
+  ComposedChart,
+  Legend,
+  Line,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+
+interface ParameterChartProps {
+  parameter: ParameterKey;
+  data: Record<string, unknown>[];
+  series: ChartSeries[];
+  // Limits drawn as the safe band and dashed lines.
+  limits: ParameterLimits;
+  // Aggregated data carries a `<key>Range` min-max pair per point.
+  showRange: boolean;
+  description: string;
+  // X axis labels of readings that came after a gap in the data.
+  gapTimes?: string[];
+  suspectCount?: number;
+  // Hours ahead the series' forecasts reach, when shown.
+  forecastHours?: number | null;
+}
+
+export default function ParameterChart({
+  parameter,
+  data,
+  series,
+  limits,
+  showRange,
+  description,
+  gapTimes = [],
+  suspectCount = 0,
+  forecastHours = null,
+}: ParameterChartProps) {
+  const { label } = parameterRegistry[parameter];
+
+  return (
+    <Card className="shadow-card">
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <CardTitle>{label} Trends</CardTitle>
+          {suspectCount > 0 && (
+            <Badge variant="outline" className="border-status-warning/40 text-status-warning">
+              {suspectCount} suspect {suspectCount === 1 ? 'reading' : 'readings'}
+            </Badge>
+          )}
+        </div>
+        <CardDescription>
+          {parameterTitle(parameter)} over time. {description}
+          {(suspectCount > 0 || gapTimes.length > 0) && '. Ringed points look like sensor faults, dotted lines mark gaps'}
+          {forecastHours && `. Dashed lines forecast the next ${forecastHours} h, shaded with a 95% band`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="h-80">
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={data}>
+              <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+              <XAxis
+                dataKey="time"
+                stroke="hsl(var(--muted-foreground))"
+                fontSize={12}
+              />
+              <YAxis
+                stroke="hsl(var(--muted-foreground))"
+                fontSize={12}
+              />
+              <Tooltip contentStyle={tooltipStyle} formatter={complianceFormatter(series)} />
+              {series.length > 1 && <Legend />}
+              {renderLimits(parameter, limits, CRITICAL_COLOR, true)}
+              {gapTimes.map(time => (
+                <ReferenceLine
+                  key={`gap-${time}`}
+                  x={time}
+                  stroke={SUSPECT_COLOR}
+                  strokeDasharray="2 4"
+                  label={{ value: 'Gap', position: 'top', fontSize: 12 }}
+                />
+              ))}
+              {showRange && series.map(line => (
+                <Area
+                  key={`${line.key}Range`}
+                  type="monotone"
+                  dataKey={`${line.key}Range`}
+                  stroke="none"
+                  fill={line.color}
+                  fillOpacity={0.15}
+                  name={`${line.name} range`}
+                  legendType="none"
+                />
+              ))}
+              {forecastHours && series.map(line => (
+                <Area
+                  key={`${forecastKey(line.key)}Range`}
+                  type="monotone"
+                  dataKey={`${forecastKey(line.key)}Range`}
+                  stroke="none"
+                  fill={line.color}
+                  fillOpacity={0.1}
+                  name={`${line.name} forecast range`}
+                  legendType="none"
+                  connectNulls
+                />
+              ))}
+              {forecastHours && series.map(line => (
+                <Line
+                  key={forecastKey(line.key)}
+                  type="monotone"
+                  dataKey={forecastKey(line.key)}
+                  stroke={line.color}
+                  strokeWidth={2}
+                  strokeDasharray="6 4"
+                  name={`${line.name} forecast`}
+                  legendType="none"
+                  dot={false}
+                  connectNulls
+                />
+              ))}
+              {series.map(line => (
+                <Line
+                  key={line.key}
+                  type="monotone"
+                  dataKey={line.key}
+                  stroke={line.color}
+                  strokeWidth={2}
+                  name={line.name}
+                  dot={limitDot(line.limits, line.color)}
+                  connectNulls
+                />
+              ))}
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
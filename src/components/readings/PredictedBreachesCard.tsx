@@ -0,0 +1,49 @@
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { getSeverityColor } from '@/lib/alerts';
+import { describePredictedBreach, type PredictedBreach } from '@/lib/forecast';
+import { TrendingUp } from 'lucide-react';
+
+interface PredictedBreachesCardProps {
+  breaches: PredictedBreach[];
+  forecastHours: number;
+  // False when no location is picked, as forecasts are per location.
+  forecasting: boolean;
+  locationName: (locationId: string) => string;
+}
+
+export default function PredictedBreachesCard({ breaches, forecastHours, forecasting, locationName }: PredictedBreachesCardProps) {
+  return (
+    <Card className="shadow-card">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <TrendingUp className="h-5 w-5" />
+          Predicted Breaches
+        </CardTitle>
+        <CardDescription>
+          {forecasting
+            ? `Limits the forecast crosses in the next ${forecastHours} h, for parameters within range now`
+            : 'Pick one or more locations to forecast their readings'}
+        </CardDescription>
+      </CardHeader>
+      {forecasting && (
+        <CardContent className="space-y-3">
+          {breaches.length === 0 && (
+            <p className="text-sm text-muted-foreground">No limits forecast to be crossed</p>
+          )}
+          {breaches.map(breach => (
+            <div key={`${breach.rule.id}-${breach.locationId}`} className="flex items-center justify-between gap-4 text-sm">
+              <div className="flex items-center gap-3">
+                <Badge className={getSeverityColor(breach.rule.severity)}>{breach.rule.severity.toUpperCase()}</Badge>
+                <span className="font-medium">{describePredictedBreach(breach)}</span>
+              </div>
+              <span className="whitespace-nowrap text-muted-foreground">
+                {locationName(breach.locationId)} · {new Date(breach.point.timestamp).toLocaleString()}
+              </span>
+            </div>
+          ))}
+        </CardContent>
+      )}
+    </Card>
+  );
+}
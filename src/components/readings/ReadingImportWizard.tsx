@@ -0,0 +1,500 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { readingsAPI, type Location, type ParameterKey, type Reading, type ReadingSource } from '@/services/api';
+import {
+  batches,
+  dateFormats,
+  distinctColumnValues,
+  guessMapping,
+  mappingProblem,
+  validateRows,
+  type ColumnTarget,
+  type DateFormat,
+  type ImportMapping,
+  type ImportedReading,
+} from '@/lib/imports';
+import { formatLocationName, getLocationName } from '@/lib/locations';
+import { formatParameterValue, parameterKeys, parameterRegistry, parameterUnits } from '@/lib/parameters';
+import { readSpreadsheet, type Sheet } from '@/lib/spreadsheets';
+import { CheckCircle2, FileSpreadsheet, RotateCcw, XCircle } from 'lucide-react';
+
+type Step = 'upload' | 'map' | 'preview' | 'import';
+
+interface ImportSummary {
+  inserted: number;
+  // Rows that failed validation and were never sent.
+  invalid: number;
+  // Readings the server already held.
+  duplicates: number;
+  // Readings in the batch the server rejected and the batches after it,
+  // which were never sent.
+  failed: number;
+}
+
+interface ReadingImportWizardProps {
+  open: boolean;
+  locations: Location[];
+  onOpenChange: (open: boolean) => void;
+  // Called when an import finishes. Readings the server stored need
+  // refetching; `local` holds any kept only in the browser for the demo.
+  onImported: (local: Reading[]) => void;
+}
+
+// Rows shown in the preview; validation still covers the whole file.
+const PREVIEW_ROWS = 100;
+
+// Select value for a location left unmatched; Radix selects can't use an empty one.
+const UNMAPPED = '__unmatched';
+
+const stepTitles: Record<Step, string> = {
+  upload: 'Import readings',
+  map: 'Map columns',
+  preview: 'Check rows',
+  import: 'Importing readings',
+};
+
+export default function ReadingImportWizard({ open, locations, onOpenChange, onImported }: ReadingImportWizardProps) {
+  const [step, setStep] = useState<Step>('upload');
+  const [fileName, setFileName] = useState('');
+  const [sheet, setSheet] = useState<Sheet | null>(null);
+  const [mapping, setMapping] = useState<ImportMapping | null>(null);
+  const [readError, setReadError] = useState<string | null>(null);
+  const [errorsOnly, setErrorsOnly] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [summary, setSummary] = useState<ImportSummary | null>(null);
+  const [unsent, setUnsent] = useState<ImportedReading[][]>([]);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (open) {
+      setStep('upload');
+      setFileName('');
+      setSheet(null);
+      setMapping(null);
+      setReadError(null);
+      setErrorsOnly(false);
+      setProgress(0);
+      setSummary(null);
+      setUnsent([]);
+    }
+  }, [open]);
+
+  const rows = useMemo(() => sheet?.rows ?? [], [sheet]);
+  const header = rows[0] ?? [];
+  const locationColumn = mapping ? mapping.columns.indexOf('location') : -1;
+  const locationTexts = useMemo(
+    () => (locationColumn === -1 ? [] : distinctColumnValues(rows, locationColumn)),
+    [rows, locationColumn],
+  );
+  const validated = useMemo(
+    () => (step === 'preview' || step === 'import') && mapping ? validateRows(sheet, mapping) : [],
+    [sheet, mapping, step],
+  );
+  const ready = validated.filter(row => row.reading);
+  const previewRows = (errorsOnly ? validated.filter(row => !row.reading) : validated).slice(0, PREVIEW_ROWS);
+  const mappedParameters = (mapping?.columns ?? []).filter((target): target is ParameterKey => target in parameterRegistry);
+  const problem = mapping ? mappingProblem(mapping) : null;
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const read = await readSpreadsheet(file);
+      if (read.rows.length < 2) throw new Error('The file has a header but no rows to import');
+      setFileName(file.name);
+      setSheet(read);
+      setMapping(guessMapping(read.rows, locations));
+      setReadError(null);
+      setStep('map');
+    } catch (error) {
+      setReadError(error instanceof Error ? error.message : 'Could not read the file');
+    }
+  };
+
+  const setColumn = (index: number, target: ColumnTarget) => {
+    // A field can only come from one column, so it moves off any other.
+    const columns = mapping.columns.map((current, i) =>
+      (i === index ? target : target !== 'ignore' && current === target ? 'ignore' : current));
+    const units = { ...mapping.units };
+    if (target in parameterRegistry && !units[target as ParameterKey]) {
+      units[target as ParameterKey] = parameterRegistry[target as ParameterKey].unit;
+    }
+    setMapping({ ...mapping, columns, units });
+  };
+
+  const setLocationValue = (text: string, locationId: string) => {
+    const locationValues = { ...mapping.locationValues };
+    if (locationId === UNMAPPED) delete locationValues[text];
+    else locationValues[text] = locationId;
+    setMapping({ ...mapping, locationValues });
+  };
+
+  /**
+   * Sends batches in order and stops at the first one the server rejects, so
+   * that it and the rest can be retried. Only when the very first request of
+   * an import fails is the server taken to be absent and the readings kept
+   * in the browser for the demo.
+   */
+  const sendBatches = async (groups: ImportedReading[][], totals: Omit<ImportSummary, 'failed'>) => {
+    setStep('import');
+    setSummary(null);
+    const batchCount = batches(ready).length;
+    const local: Reading[] = [];
+    let { inserted, duplicates } = totals;
+    // Retries only ever resend the tail of an import.
+    const firstRequest = groups.length === batchCount;
+
+    for (const [index, batch] of groups.entries()) {
+      try {
+        const response = await readingsAPI.importReadings(batch);
+        inserted += response.data.inserted;
+        duplicates += response.data.skipped;
+      } catch (error) {
+        if (firstRequest && index === 0) {
+          toast({
+            title: 'Error importing readings',
+            description: 'Could not save the readings to the server',
+            variant: 'destructive',
+          });
+          // Apply locally for demo
+          const all = groups.flat();
+          local.push(...all.map((reading, i) => ({ ...reading, id: `import-${Date.now()}-${i}` })));
+          inserted += all.length;
+          break;
+        }
+        const remaining = groups.slice(index);
+        toast({
+          title: 'Import stopped',
+          description: 'The server rejected a batch of readings. The rest were not sent',
+          variant: 'destructive',
+        });
+        setUnsent(remaining);
+        setSummary({ ...totals, inserted, duplicates, failed: remaining.flat().length });
+        onImported(local);
+        return;
+      }
+      setProgress(((batchCount - groups.length + index + 1) / batchCount) * 100);
+    }
+
+    setProgress(100);
+    setUnsent([]);
+    setSummary({ ...totals, inserted, duplicates, failed: 0 });
+    onImported(local);
+  };
+
+  const runImport = () => {
+    setProgress(0);
+    sendBatches(batches(ready.map(row => row.reading)), {
+      inserted: 0,
+      invalid: validated.length - ready.length,
+      duplicates: 0,
+    });
+  };
+
+  const retryUnsent = () => sendBatches(unsent, summary);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] max-w-4xl overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{stepTitles[step]}</DialogTitle>
+          <DialogDescription>
+            {step === 'upload' && 'Upload a CSV or Excel (.xlsx) file with one reading per row and a header row'}
+            {step === 'map' && `${fileName}: ${rows.length - 1} rows. Check what each column holds`}
+            {step === 'preview' && `${ready.length} of ${validated.length} rows are ready to import`}
+            {step === 'import' && `${ready.length} readings from ${fileName}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'upload' && (
+          <div className="space-y-2">
+            <Label htmlFor="import-file">File</Label>
+            <Input
+              id="import-file"
+              type="file"
+              accept=".csv,.tsv,.txt,.xlsx"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+            />
+            <p className="text-xs text-muted-foreground">
+              Only the first sheet of a workbook is read. Lab exports with one column per parameter work as they are
+            </p>
+            {readError && <p className="text-sm text-status-critical">{readError}</p>}
+          </div>
+        )}
+
+        {step === 'map' && mapping && (
+          <div className="space-y-6">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Column</TableHead>
+                  <TableHead>Example</TableHead>
+                  <TableHead className="w-56">Holds</TableHead>
+                  <TableHead className="w-40">Unit</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {header.map((name, index) => {
+                  const target = mapping.columns[index] ?? 'ignore';
+                  const parameter = target in parameterRegistry ? target as ParameterKey : null;
+                  const units = parameter ? parameterUnits(parameter) : [];
+                  return (
+                    <TableRow key={index}>
+                      <TableCell className="font-medium">{name || `Column ${index + 1}`}</TableCell>
+                      <TableCell className="max-w-48 truncate text-muted-foreground">
+                        {rows.slice(1).find(row => row[index]?.trim())?.[index] ?? '—'}
+                      </TableCell>
+                      <TableCell>
+                        <Select value={target} onValueChange={(value) => setColumn(index, value as ColumnTarget)}>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="ignore">Don't import</SelectItem>
+                            <SelectItem value="timestamp">Date and time</SelectItem>
+                            <SelectItem value="location">Location</SelectItem>
+                            {parameterKeys.map(key => (
+                              <SelectItem key={key} value={key}>{parameterRegistry[key].label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                      <TableCell>
+                        {units.length > 1 ? (
+                          <Select
+                            value={mapping.units[parameter]}
+                            onValueChange={(unit) => setMapping({ ...mapping, units: { ...mapping.units, [parameter]: unit } })}
+                          >
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {units.map(({ unit }) => (
+                                <SelectItem key={unit} value={unit}>{unit.trim()}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        ) : (
+                          <span className="text-sm text-muted-foreground">{units[0]?.unit.trim() || '—'}</span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Date format</Label>
+                <Select
+                  value={mapping.dateFormat}
+                  onValueChange={(dateFormat) => setMapping({ ...mapping, dateFormat: dateFormat as DateFormat })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(dateFormats) as DateFormat[]).map(format => (
+                      <SelectItem key={format} value={format}>
+                        {dateFormats[format].label} ({dateFormats[format].example})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Readings are</Label>
+                <Select
+                  value={mapping.source}
+                  onValueChange={(source) => setMapping({ ...mapping, source: source as ReadingSource })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="lab">Lab sample results</SelectItem>
+                    <SelectItem value="sensor">Sensor readings</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {locationColumn === -1 ? (
+              <div className="space-y-2">
+                <Label>Every row is from</Label>
+                <Select
+                  value={mapping.defaultLocationId ?? undefined}
+                  onValueChange={(defaultLocationId) => setMapping({ ...mapping, defaultLocationId })}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select location" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {locations.map(location => (
+                      <SelectItem key={location.id} value={location.id}>{formatLocationName(location)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <Label>Locations in the file</Label>
+                <p className="text-xs text-muted-foreground">Rows from locations left unmatched are skipped</p>
+                {locationTexts.map(text => (
+                  <div key={text} className="grid grid-cols-2 items-center gap-4">
+                    <span className="truncate text-sm">{text}</span>
+                    <Select
+                      value={mapping.locationValues[text] ?? UNMAPPED}
+                      onValueChange={(locationId) => setLocationValue(text, locationId)}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={UNMAPPED}>Unmatched</SelectItem>
+                        {locations.map(location => (
+                          <SelectItem key={location.id} value={location.id}>{formatLocationName(location)}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {problem && <p className="text-sm text-status-critical">{problem}</p>}
+          </div>
+        )}
+
+        {step === 'preview' && (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <div className="flex gap-2">
+                <Badge variant="outline" className="border-status-success/40 text-status-success">
+                  {ready.length} ready
+                </Badge>
+                {validated.length > ready.length && (
+                  <Badge variant="outline" className="border-status-critical/40 text-status-critical">
+                    {validated.length - ready.length} with errors, will be skipped
+                  </Badge>
+                )}
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch id="import-errors-only" checked={errorsOnly} onCheckedChange={setErrorsOnly} />
+                <Label htmlFor="import-errors-only">Only rows with errors</Label>
+              </div>
+            </div>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Line</TableHead>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Location</TableHead>
+                  {mappedParameters.map(key => <TableHead key={key}>{parameterRegistry[key].label}</TableHead>)}
+                  <TableHead>Problems</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {previewRows.map(({ line, reading, errors }) => (
+                  <TableRow key={line}>
+                    <TableCell className="text-muted-foreground">{line}</TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {reading ? new Date(reading.timestamp).toLocaleString() : '—'}
+                    </TableCell>
+                    <TableCell>
+                      {reading ? getLocationName(locations, reading.locationId) : '—'}
+                    </TableCell>
+                    {mappedParameters.map(key => (
+                      <TableCell key={key}>
+                        {reading?.values[key] !== undefined ? formatParameterValue(key, reading.values[key]) : '—'}
+                      </TableCell>
+                    ))}
+                    <TableCell className="text-sm text-status-critical">{errors.join('; ')}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            {(errorsOnly ? validated.length - ready.length : validated.length) > PREVIEW_ROWS && (
+              <p className="text-xs text-muted-foreground">Showing the first {PREVIEW_ROWS} rows</p>
+            )}
+          </div>
+        )}
+
+        {step === 'import' && (
+          <div className="space-y-4">
+            <Progress value={progress} />
+            {summary ? (
+              <div className="space-y-1 text-sm">
+                <p className="flex items-center gap-2 font-medium">
+                  <CheckCircle2 className="h-4 w-4 text-status-success" />
+                  {summary.inserted} readings imported
+                </p>
+                {summary.failed > 0 && (
+                  <p className="flex items-center gap-2 font-medium text-status-critical">
+                    <XCircle className="h-4 w-4" />
+                    {summary.failed} readings not imported: the server rejected a batch and the import stopped
+                  </p>
+                )}
+                {summary.duplicates > 0 && (
+                  <p className="text-muted-foreground">{summary.duplicates} skipped as already stored</p>
+                )}
+                {summary.invalid > 0 && (
+                  <p className="text-muted-foreground">{summary.invalid} rows skipped for errors</p>
+                )}
+              </div>
+            ) : (
+              <p className="flex items-center gap-2 text-sm text-muted-foreground">
+                <FileSpreadsheet className="h-4 w-4" />
+                Sending readings in batches…
+              </p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {step === 'map' && (
+            <>
+              <Button variant="outline" onClick={() => setStep('upload')}>Back</Button>
+              <Button disabled={Boolean(problem)} onClick={() => setStep('preview')}>Next</Button>
+            </>
+          )}
+          {step === 'preview' && (
+            <>
+              <Button variant="outline" onClick={() => setStep('map')}>Back</Button>
+              <Button disabled={ready.length === 0} onClick={runImport}>
+                Import {ready.length} readings
+              </Button>
+            </>
+          )}
+          {step === 'import' && (
+            <>
+              {summary?.failed > 0 && (
+                <Button variant="outline" className="gap-2" onClick={retryUnsent}>
+                  <RotateCcw className="h-4 w-4" />
+                  Retry {summary.failed} readings
+                </Button>
+              )}
+              <Button disabled={!summary} onClick={() => onOpenChange(false)}>Done</Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,88 @@
+import { Fragment } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import type { ParameterKey, ParameterStats } from '@/services/api';
+import { formatParameterValue, parameterTitle } from '@/lib/parameters';
+import { formatShare } from '@/lib/stats';
+import { cn } from '@/lib/utils';
+
+// Completeness below this is highlighted; a few dropped messages are normal.
+const COMPLETENESS_WARNING = 0.9;
+
+export interface StatsRow {
+  parameter: ParameterKey;
+  locationId: string;
+  locationName: string;
+  stats: ParameterStats;
+}
+
+interface ReadingStatsPanelProps {
+  rows: StatsRow[];
+  parameters: ParameterKey[];
+}
+
+export default function ReadingStatsPanel({ rows, parameters }: ReadingStatsPanelProps) {
+  return (
+    <Card className="shadow-card">
+      <CardHeader>
+        <CardTitle>Statistics</CardTitle>
+        <CardDescription>
+          Suspect readings are left out. Completeness compares readings received with one every 5 minutes
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Location</TableHead>
+              <TableHead className="text-right">Min</TableHead>
+              <TableHead className="text-right">Median</TableHead>
+              <TableHead className="text-right">Mean</TableHead>
+              <TableHead className="text-right">P95</TableHead>
+              <TableHead className="text-right">Max</TableHead>
+              <TableHead className="text-right">Std dev</TableHead>
+              <TableHead className="text-right">Samples</TableHead>
+              <TableHead className="text-right">Completeness</TableHead>
+              <TableHead className="text-right">In range</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {parameters.map((parameter) => {
+              const parameterRows = rows.filter(row => row.parameter === parameter);
+              if (parameterRows.length === 0) return null;
+              return (
+                <Fragment key={parameter}>
+                  <TableRow className="bg-muted/50 hover:bg-muted/50">
+                    <TableCell colSpan={10} className="font-medium">{parameterTitle(parameter)}</TableCell>
+                  </TableRow>
+                  {parameterRows.map(({ locationId, locationName, stats }) => (
+                    <TableRow key={`${parameter}-${locationId}`}>
+                      <TableCell>{locationName}</TableCell>
+                      <TableCell className="text-right">{formatParameterValue(parameter, stats.min)}</TableCell>
+                      <TableCell className="text-right">{formatParameterValue(parameter, stats.median)}</TableCell>
+                      <TableCell className="text-right">{formatParameterValue(parameter, stats.mean)}</TableCell>
+                      <TableCell className="text-right">{formatParameterValue(parameter, stats.p95)}</TableCell>
+                      <TableCell className="text-right">{formatParameterValue(parameter, stats.max)}</TableCell>
+                      <TableCell className="text-right">{formatParameterValue(parameter, stats.stdDev)}</TableCell>
+                      <TableCell className="text-right">{stats.count}</TableCell>
+                      <TableCell
+                        className={cn('text-right', stats.completeness !== null && stats.completeness < COMPLETENESS_WARNING && 'text-status-warning')}
+                      >
+                        {stats.completeness === null ? '—' : formatShare(stats.completeness)}
+                      </TableCell>
+                      <TableCell
+                        className={cn('text-right', stats.compliance < 1 && 'font-medium text-status-critical')}
+                      >
+                        {formatShare(stats.compliance)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </Fragment>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
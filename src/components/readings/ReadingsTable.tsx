@@ -0,0 +1,247 @@
+import { useMemo, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useVirtualRows } from '@/hooks/use-virtual-rows';
+import type { ParameterKey } from '@/services/api';
+import { parameterRegistry, parameterTitle } from '@/lib/parameters';
+import { sortTableRows, type ReadingsTableColumn, type ReadingsTableRow } from '@/lib/readings';
+import { toCsv } from '@/lib/spreadsheets';
+import { cn } from '@/lib/utils';
+import { ArrowDown, ArrowUp, ArrowUpDown, Columns3, Download } from 'lucide-react';
+
+interface ReadingsTableProps {
+  rows: ReadingsTableRow[];
+  parameters: ParameterKey[];
+  aggregated: boolean;
+  locationName: (locationId: string | null) => string;
+  // File name for exports, without extension.
+  exportName: string;
+}
+
+// Rows are a fixed height so the virtual window can be computed, not measured.
+const ROW_HEIGHT = 40;
+
+const isParameter = (column: ReadingsTableColumn): column is ParameterKey => column in parameterRegistry;
+
+function download(fileName: string, content: string, type: string) {
+  const url = window.URL.createObjectURL(new Blob([content], { type }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  window.URL.revokeObjectURL(url);
+}
+
+export default function ReadingsTable({ rows, parameters, aggregated, locationName, exportName }: ReadingsTableProps) {
+  const [sort, setSort] = useState<{ column: ReadingsTableColumn; direction: 'asc' | 'desc' }>({
+    column: 'time',
+    direction: 'desc',
+  });
+  const [hiddenColumns, setHiddenColumns] = useState<ReadingsTableColumn[]>([]);
+
+  const columns: ReadingsTableColumn[] = [
+    'time',
+    'location',
+    ...(aggregated ? ['count' as const] : ['source' as const, 'device' as const]),
+    ...parameters,
+    ...(aggregated ? [] : ['flags' as const]),
+  ];
+  const shownColumns = columns.filter(column => !hiddenColumns.includes(column));
+
+  const label = (column: ReadingsTableColumn) => {
+    if (isParameter(column)) return parameterTitle(column);
+    return {
+      time: aggregated ? 'Bucket start' : 'Time',
+      location: 'Location',
+      source: 'Source',
+      device: 'Device',
+      count: 'Readings',
+      flags: 'Flags',
+    }[column];
+  };
+
+  const sortedRows = useMemo(
+    () => sortTableRows(rows, sort.column, sort.direction, locationName),
+    [rows, sort, locationName],
+  );
+  const { ref, start, end, paddingTop, paddingBottom } = useVirtualRows<HTMLDivElement>(sortedRows.length, ROW_HEIGHT);
+
+  const toggleSort = (column: ReadingsTableColumn) => {
+    setSort(prev => (prev.column === column
+      ? { column, direction: prev.direction === 'asc' ? 'desc' : 'asc' }
+      : { column, direction: column === 'time' ? 'desc' : 'asc' }));
+  };
+
+  const toggleColumn = (column: ReadingsTableColumn, visible: boolean) => {
+    setHiddenColumns(prev => (visible ? prev.filter(c => c !== column) : [...prev, column]));
+  };
+
+  // Exports carry full timestamps and unformatted numbers for further analysis.
+  const exportValue = (row: ReadingsTableRow, column: ReadingsTableColumn) => {
+    if (isParameter(column)) {
+      const value = row.values[column];
+      return value === undefined ? null : Number(value.toFixed(parameterRegistry[column].precision));
+    }
+    switch (column) {
+      case 'time':
+        return row.timestamp;
+      case 'location':
+        return locationName(row.locationId);
+      case 'source':
+        return row.source;
+      case 'device':
+        return row.device;
+      case 'count':
+        return row.count;
+      case 'flags':
+        return row.flags || null;
+    }
+  };
+
+  const exportCsv = () => {
+    const csv = toCsv([
+      shownColumns.map(label),
+      ...sortedRows.map(row => shownColumns.map(column => String(exportValue(row, column) ?? ''))),
+    ]);
+    download(`${exportName}.csv`, csv, 'text/csv');
+  };
+
+  const exportJson = () => {
+    const records = sortedRows.map(row => Object.fromEntries([
+      ...(shownColumns.includes('location') ? [['locationId', row.locationId]] : []),
+      ...shownColumns.map(column => [column === 'time' ? 'timestamp' : column, exportValue(row, column)]),
+    ]));
+    download(`${exportName}.json`, JSON.stringify(records, null, 2), 'application/json');
+  };
+
+  const renderCell = (row: ReadingsTableRow, column: ReadingsTableColumn) => {
+    if (isParameter(column)) {
+      const value = row.values[column];
+      return value === undefined ? '—' : value.toFixed(parameterRegistry[column].precision);
+    }
+    switch (column) {
+      case 'time':
+        return new Date(row.timestamp).toLocaleString();
+      case 'location':
+        return locationName(row.locationId);
+      case 'source':
+        return row.source === 'lab' ? <Badge variant="outline">Lab</Badge> : 'Sensor';
+      case 'device':
+        return row.device ?? '—';
+      case 'count':
+        return row.count;
+      case 'flags':
+        return row.flags ? <span className="text-status-warning">{row.flags}</span> : '';
+    }
+  };
+
+  return (
+    <Card className="shadow-card">
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle>Readings Table</CardTitle>
+            <CardDescription>
+              {sortedRows.length} {aggregated ? 'buckets, each showing its averages' : 'readings'}.
+              Click a column heading to sort
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" className="gap-2">
+                  <Columns3 className="h-4 w-4" />
+                  Columns
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                {columns.map(column => (
+                  <DropdownMenuCheckboxItem
+                    key={column}
+                    checked={!hiddenColumns.includes(column)}
+                    disabled={column === 'time'}
+                    onCheckedChange={(checked) => toggleColumn(column, checked === true)}
+                  >
+                    {label(column)}
+                  </DropdownMenuCheckboxItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" className="gap-2" disabled={sortedRows.length === 0}>
+                  <Download className="h-4 w-4" />
+                  Export
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuLabel>Shown rows and columns</DropdownMenuLabel>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem onClick={exportCsv}>CSV</DropdownMenuItem>
+                <DropdownMenuItem onClick={exportJson}>JSON</DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div ref={ref} className="h-[32rem] overflow-auto rounded-md border">
+          <table className="w-full caption-bottom text-sm">
+            <TableHeader className="sticky top-0 z-10 bg-card">
+              <TableRow>
+                {shownColumns.map((column) => {
+                  const SortIcon = sort.column !== column ? ArrowUpDown : sort.direction === 'asc' ? ArrowUp : ArrowDown;
+                  return (
+                    <TableHead key={column} className="whitespace-nowrap">
+                      <button
+                        type="button"
+                        className={cn('inline-flex items-center gap-1', sort.column === column && 'text-foreground')}
+                        onClick={() => toggleSort(column)}
+                      >
+                        {label(column)}
+                        <SortIcon className="h-3 w-3" />
+                      </button>
+                    </TableHead>
+                  );
+                })}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {paddingTop > 0 && <tr style={{ height: paddingTop }} />}
+              {sortedRows.slice(start, end).map(row => (
+                <TableRow key={row.id} style={{ height: ROW_HEIGHT }}>
+                  {shownColumns.map(column => (
+                    <TableCell key={column} className="whitespace-nowrap py-0">
+                      {renderCell(row, column)}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))}
+              {paddingBottom > 0 && <tr style={{ height: paddingBottom }} />}
+              {sortedRows.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={shownColumns.length} className="text-center text-muted-foreground">
+                    No readings in this range
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
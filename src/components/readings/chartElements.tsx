@@ -0,0 +1,134 @@
+import { ReferenceArea, ReferenceLine } from 'recharts';
+import type { ParameterKey } from '@/services/api';
+import { formatParameterValue } from '@/lib/parameters';
+import { isWithinLimits, type ParameterLimits } from '@/lib/rules';
+
+export const CRITICAL_COLOR = 'hsl(var(--status-critical))';
+export const SUSPECT_COLOR = 'hsl(var(--status-warning))';
+
+// Rows carry the labels of a series' fault flags under this key, e.g. "ph@2Flags".
+export const flagsKey = (seriesKey: string) => `${seriesKey}Flags`;
+// Set on rows where a series value came from a lab sample, e.g. "ph@2Lab".
+export const labKey = (seriesKey: string) => `${seriesKey}Lab`;
+// A series' forecast, with its band under the same key plus "Range".
+export const forecastKey = (seriesKey: string) => `${seriesKey}Forecast`;
+
+// Compared locations keep the same color on every chart, in selection order.
+export const COMPARISON_COLORS = [
+  'hsl(210 100% 50%)',
+  'hsl(25 95% 53%)',
+  'hsl(155 60% 40%)',
+  'hsl(292 70% 50%)',
+  'hsl(45 93% 47%)',
+  'hsl(340 75% 50%)',
+];
+
+// One plotted line: a parameter, at one location when comparing.
+export interface ChartSeries {
+  key: string;
+  parameter: ParameterKey;
+  name: string;
+  color: string;
+  limits: ParameterLimits;
+}
+
+export const tooltipStyle = {
+  backgroundColor: 'hsl(var(--card))',
+  border: '1px solid hsl(var(--border))',
+  borderRadius: '8px',
+};
+
+// Dashed limit lines, plus the safe band between them on single-parameter charts.
+// Returned as a fragment because recharts only picks up its own element types.
+export const renderLimits = (parameter: ParameterKey, limits: ParameterLimits, color: string, band: boolean) => (
+  <>
+    {band && (limits.lower || limits.upper) && (
+      <ReferenceArea
+        y1={limits.lower?.threshold}
+        y2={limits.upper?.threshold}
+        fill="hsl(var(--status-success))"
+        fillOpacity={0.08}
+        stroke="none"
+      />
+    )}
+    {limits.lower && (
+      <ReferenceLine
+        y={limits.lower.threshold}
+        stroke={color}
+        strokeDasharray="4 4"
+        ifOverflow="extendDomain"
+        label={{ value: `Min ${formatParameterValue(parameter, limits.lower.threshold)}`, position: 'insideBottomRight', fontSize: 12 }}
+      />
+    )}
+    {limits.upper && (
+      <ReferenceLine
+        y={limits.upper.threshold}
+        stroke={color}
+        strokeDasharray="4 4"
+        ifOverflow="extendDomain"
+        label={{ value: `Max ${formatParameterValue(parameter, limits.upper.threshold)}`, position: 'insideTopRight', fontSize: 12 }}
+      />
+    )}
+  </>
+);
+
+// Lab samples are drawn as squares and always shown. Otherwise out-of-range
+// points are always marked and suspect ones ringed; compliant ones only show
+// when the series shows dots.
+export const limitDot = (limits: ParameterLimits, color: string, showCompliant = false) =>
+  ({ key, cx, cy, payload, dataKey }: { key?: string; cx?: number; cy?: number; payload?: Record<string, unknown>; dataKey?: string }) => {
+    const value = payload?.[dataKey];
+    if (cx == null || cy == null || typeof value !== 'number') return <g key={key} />;
+    const compliant = isWithinLimits(limits, value);
+    if (payload[labKey(dataKey)]) {
+      return (
+        <rect
+          key={key}
+          x={cx - 5}
+          y={cy - 5}
+          width={10}
+          height={10}
+          fill={compliant ? color : CRITICAL_COLOR}
+          stroke="hsl(var(--card))"
+          strokeWidth={1.5}
+        />
+      );
+    }
+    if (payload[flagsKey(dataKey)]) {
+      return (
+        <g key={key}>
+          <circle cx={cx} cy={cy} r={7} fill="none" stroke={SUSPECT_COLOR} strokeWidth={2} />
+          <circle cx={cx} cy={cy} r={3} fill={compliant ? color : CRITICAL_COLOR} />
+        </g>
+      );
+    }
+    if (compliant && !showCompliant) return <g key={key} />;
+    return (
+      <circle
+        key={key}
+        cx={cx}
+        cy={cy}
+        r={compliant ? 3 : 4}
+        fill={compliant ? color : CRITICAL_COLOR}
+        stroke={compliant ? color : CRITICAL_COLOR}
+      />
+    );
+  };
+
+// Tooltip formatter that states whether each series value is within its
+// limits, and whether it came from a lab sample, looks like a sensor fault or
+// is forecast.
+export const complianceFormatter = (series: ChartSeries[]) =>
+  (value: number | number[], name: string, item: { dataKey?: unknown; payload?: Record<string, unknown> }) => {
+    const forecast = series.find(s => forecastKey(s.key) === item.dataKey);
+    if (forecast && !Array.isArray(value)) {
+      return [`${formatParameterValue(forecast.parameter, value)} (forecast)`, name];
+    }
+    const line = series.find(s => s.key === item.dataKey);
+    if (!line || Array.isArray(value)) return [value, name];
+    const status = isWithinLimits(line.limits, value) ? 'compliant' : 'out of range';
+    const flags = item.payload?.[flagsKey(line.key)];
+    const suspect = flags ? `, suspect: ${flags}` : '';
+    const lab = item.payload?.[labKey(line.key)] ? ', lab sample' : '';
+    return [`${formatParameterValue(line.parameter, value)} (${status}${lab}${suspect})`, name];
+  };
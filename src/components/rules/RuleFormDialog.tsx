@@ -0,0 +1,203 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import type { Location, ParameterKey, RuleOperator, ThresholdRule } from '@/services/api';
+import { formatLocationName } from '@/lib/locations';
+import { parameterKeys, parameterRegistry } from '@/lib/parameters';
+import { ruleOperators } from '@/lib/rules';
+
+type RuleDraft = Omit<ThresholdRule, 'id'> & { id?: string };
+
+interface RuleFormDialogProps {
+  open: boolean;
+  rule: ThresholdRule | null;
+  locations: Location[];
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (rule: RuleDraft) => void;
+}
+
+const emptyRule: RuleDraft = {
+  name: '',
+  parameter: 'ph',
+  operator: 'lt',
+  threshold: 6.5,
+  durationMinutes: 0,
+  severity: 'warning',
+  locationId: null,
+  enabled: true,
+  ignoreSuspect: false,
+};
+
+export default function RuleFormDialog({ open, rule, locations, onOpenChange, onSubmit }: RuleFormDialogProps) {
+  const [draft, setDraft] = useState<RuleDraft>(emptyRule);
+
+  useEffect(() => {
+    if (open) {
+      setDraft(rule ?? emptyRule);
+    }
+  }, [open, rule]);
+
+  const isValid = draft.name.trim() !== '' && Number.isFinite(draft.threshold) && draft.durationMinutes >= 0;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValid) return;
+    onSubmit({ ...draft, name: draft.name.trim() });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>{rule ? 'Edit rule' : 'New rule'}</DialogTitle>
+            <DialogDescription>
+              Alerts are raised when readings stay past the threshold for the given duration
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="rule-name">Name</Label>
+            <Input
+              id="rule-name"
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              placeholder="e.g. pH too acidic"
+            />
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label>Parameter</Label>
+              <Select
+                value={draft.parameter}
+                onValueChange={(value) => setDraft({ ...draft, parameter: value as ParameterKey })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {parameterKeys.map(parameter => (
+                    <SelectItem key={parameter} value={parameter}>
+                      {parameterRegistry[parameter].label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Operator</Label>
+              <Select
+                value={draft.operator}
+                onValueChange={(value) => setDraft({ ...draft, operator: value as RuleOperator })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(ruleOperators) as RuleOperator[]).map(operator => (
+                    <SelectItem key={operator} value={operator}>
+                      {ruleOperators[operator].symbol} {ruleOperators[operator].label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rule-threshold">Threshold{parameterRegistry[draft.parameter].unit}</Label>
+              <Input
+                id="rule-threshold"
+                type="number"
+                step="any"
+                value={draft.threshold}
+                onChange={(e) => setDraft({ ...draft, threshold: e.target.valueAsNumber })}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="rule-duration">Duration (min)</Label>
+              <Input
+                id="rule-duration"
+                type="number"
+                min={0}
+                value={draft.durationMinutes}
+                onChange={(e) => setDraft({ ...draft, durationMinutes: e.target.valueAsNumber || 0 })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Severity</Label>
+              <Select
+                value={draft.severity}
+                onValueChange={(value) => setDraft({ ...draft, severity: value as ThresholdRule['severity'] })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="critical">Critical</SelectItem>
+                  <SelectItem value="warning">Warning</SelectItem>
+                  <SelectItem value="info">Info</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Location</Label>
+              <Select
+                value={draft.locationId ?? 'all'}
+                onValueChange={(value) => setDraft({ ...draft, locationId: value === 'all' ? null : value })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Locations</SelectItem>
+                  {locations.map(location => (
+                    <SelectItem key={location.id} value={location.id}>
+                      {formatLocationName(location)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="rule-ignore-suspect">Ignore suspect readings</Label>
+              <p className="text-xs text-muted-foreground">
+                Skip values flagged as spikes, flatlines or drift, which usually mean a faulty sensor
+              </p>
+            </div>
+            <Switch
+              id="rule-ignore-suspect"
+              checked={draft.ignoreSuspect ?? false}
+              onCheckedChange={(checked) => setDraft({ ...draft, ignoreSuspect: checked })}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!isValid}>
+              {rule ? 'Save changes' : 'Create rule'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,82 @@
+import * as React from "react";
+
+import { useLocations } from "@/hooks/use-locations";
+import { useRealtimeEvent } from "@/hooks/use-realtime";
+import { profileAPI, type AlertPreferences } from "@/services/api";
+import {
+  defaultAlertPreferences,
+  getAlertSignals,
+  isAudioBlocked,
+  onAudioStateChange,
+  playAlarm,
+  showDesktopNotification,
+} from "@/lib/alarm";
+
+// Last saved preferences, so the alarm still behaves as configured when the
+// profile API cannot be reached.
+const PREFERENCES_CACHE_KEY = "alert_preferences";
+
+const readCachedPreferences = (): AlertPreferences => {
+  try {
+    const cached = localStorage.getItem(PREFERENCES_CACHE_KEY);
+    return cached ? { ...defaultAlertPreferences, ...JSON.parse(cached) } : defaultAlertPreferences;
+  } catch (error) {
+    return defaultAlertPreferences;
+  }
+};
+
+export function useAlertPreferences() {
+  const [preferences, setPreferences] = React.useState<AlertPreferences>(readCachedPreferences);
+
+  React.useEffect(() => {
+    profileAPI
+      .getAlertPreferences()
+      .then((response) => {
+        setPreferences(response.data);
+        localStorage.setItem(PREFERENCES_CACHE_KEY, JSON.stringify(response.data));
+      })
+      .catch(() => {
+        // Keep the cached preferences
+      });
+  }, []);
+
+  const updatePreferences = React.useCallback(async (next: AlertPreferences) => {
+    setPreferences(next);
+    localStorage.setItem(PREFERENCES_CACHE_KEY, JSON.stringify(next));
+    await profileAPI.updateAlertPreferences(next);
+  }, []);
+
+  return { preferences, updatePreferences };
+}
+
+// Whether the alarm is on but the browser won't let it sound yet. Checked
+// only once the alarm is wanted, since checking creates the audio context.
+export function useAudioBlocked(alarmEnabled: boolean) {
+  const [blocked, setBlocked] = React.useState(false);
+
+  React.useEffect(() => {
+    if (!alarmEnabled) {
+      setBlocked(false);
+      return;
+    }
+    setBlocked(isAudioBlocked());
+    return onAudioStateChange(setBlocked);
+  }, [alarmEnabled]);
+
+  return blocked;
+}
+
+export function useAlertNotifier(preferences: AlertPreferences) {
+  // Realtime also pushes updates to known alerts; only the first sighting of an open alert should ring.
+  const notified = React.useRef(new Set<string>());
+  const { getLocationName } = useLocations();
+
+  useRealtimeEvent("alert", (alert) => {
+    if (alert.status !== "open" || notified.current.has(alert.id)) return;
+    notified.current.add(alert.id);
+
+    const signals = getAlertSignals(alert, preferences);
+    if (signals.desktop) showDesktopNotification(alert, getLocationName(alert.locationId));
+    if (signals.alarm) playAlarm();
+  });
+}
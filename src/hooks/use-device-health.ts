@@ -0,0 +1,54 @@
+import * as React from "react";
+
+import { useRealtimeEvent } from "@/hooks/use-realtime";
+import { devicesAPI, type DeviceHealthSettings, type DeviceHeartbeat } from "@/services/api";
+import { generateMockHeartbeats } from "@/services/mockData";
+import { defaultHealthSettings } from "@/lib/deviceHealth";
+
+// Devices go offline by the clock rather than by any event, so health is
+// re-assessed on a timer.
+const HEALTH_TICK_MS = 30000;
+
+export function useDeviceHealth() {
+  const [heartbeats, setHeartbeats] = React.useState<DeviceHeartbeat[]>([]);
+  const [settings, setSettings] = React.useState<DeviceHealthSettings>(defaultHealthSettings);
+  const [now, setNow] = React.useState(() => new Date());
+
+  const refresh = React.useCallback(async () => {
+    try {
+      const response = await devicesAPI.getHeartbeats();
+      setHeartbeats(response.data);
+    } catch (error) {
+      // Mock data for demo
+      setHeartbeats(generateMockHeartbeats());
+    }
+    setNow(new Date());
+  }, []);
+
+  React.useEffect(() => {
+    refresh();
+    devicesAPI
+      .getHealthSettings()
+      .then((response) => setSettings(response.data))
+      .catch(() => {
+        // Keep the defaults
+      });
+  }, [refresh]);
+
+  React.useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), HEALTH_TICK_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  useRealtimeEvent("heartbeat", (heartbeat) => {
+    setHeartbeats(prev => [...prev.filter(h => h.deviceId !== heartbeat.deviceId), heartbeat]);
+    setNow(new Date());
+  });
+
+  const updateSettings = React.useCallback(async (next: DeviceHealthSettings) => {
+    setSettings(next);
+    await devicesAPI.updateHealthSettings(next);
+  }, []);
+
+  return { heartbeats, settings, updateSettings, now, refresh };
+}
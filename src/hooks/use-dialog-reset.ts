@@ -0,0 +1,30 @@
+import * as React from "react";
+
+interface LocationField {
+  locations: { id: string }[];
+  // The form's current location, empty until one is picked.
+  locationId: string;
+  selectLocation: (locationId: string) => void;
+}
+
+/**
+ * Resets a form dialog each time it opens. Later changes to its props, such
+ * as a realtime update to the location list, leave what has been typed alone.
+ * While the form has no location, the first of `locations` is selected as
+ * soon as there is one.
+ */
+export function useDialogReset(open: boolean, reset: () => void, { locations, locationId, selectLocation }: LocationField) {
+  // Keep the latest callbacks without re-running the effects on every render.
+  const resetRef = React.useRef(reset);
+  resetRef.current = reset;
+  const selectLocationRef = React.useRef(selectLocation);
+  selectLocationRef.current = selectLocation;
+
+  React.useEffect(() => {
+    if (open) resetRef.current();
+  }, [open]);
+
+  React.useEffect(() => {
+    if (open && !locationId && locations.length > 0) selectLocationRef.current(locations[0].id);
+  }, [open, locationId, locations]);
+}
@@ -0,0 +1,95 @@
+import * as React from "react";
+
+import { downsampleSeries } from "@/lib/downsample";
+import type { DownsampleRequest, DownsampleResponse } from "@/workers/downsample.worker";
+
+// One worker serves every chart on the page; requests are matched to replies by id.
+let worker: Worker | null = null;
+// Set once the worker has failed, after which everything runs on the main thread.
+let workerFailed = false;
+let nextRequestId = 0;
+const pendingRequests = new Map<number, {
+  resolve: (indices: ArrayLike<number>) => void;
+  reject: (error: Error) => void;
+}>();
+
+function getWorker() {
+  if (!worker) {
+    worker = new Worker(new URL("../workers/downsample.worker.ts", import.meta.url), { type: "module" });
+    worker.onmessage = (event: MessageEvent<DownsampleResponse>) => {
+      pendingRequests.get(event.data.id)?.resolve(event.data.indices);
+      pendingRequests.delete(event.data.id);
+    };
+    // A worker that fails to load or crashes never replies to what it was sent.
+    worker.onerror = (event) => {
+      event.preventDefault();
+      workerFailed = true;
+      worker?.terminate();
+      worker = null;
+      pendingRequests.forEach(({ reject }) => reject(new Error(event.message || "Downsampling worker failed")));
+      pendingRequests.clear();
+    };
+  }
+  return worker;
+}
+
+// The arrays are transferred to the worker, so callers can't reuse them.
+function requestIndices(xs: Float64Array, series: Float64Array[], threshold: number) {
+  if (typeof Worker === "undefined" || workerFailed) {
+    return Promise.resolve<ArrayLike<number>>(downsampleSeries(xs, series, threshold));
+  }
+  return new Promise<ArrayLike<number>>((resolve, reject) => {
+    const target = getWorker();
+    const id = nextRequestId++;
+    pendingRequests.set(id, { resolve, reject });
+    const request: DownsampleRequest = { id, xs, series, threshold };
+    target.postMessage(request, [xs.buffer, ...series.map(values => values.buffer)]);
+  });
+}
+
+/**
+ * Thins `rows` down to about `threshold` points per series off the main
+ * thread, or on it if the worker fails. `keys` must be a stable array. Rows
+ * where `pinnedKey` is truthy are always kept. Until the reply for the current
+ * `rows` arrives, and whenever downsampling is disabled or unnecessary, the
+ * rows are returned as is.
+ */
+export function useDownsample<T extends { timestamp: number }>(
+  rows: T[],
+  keys: readonly (keyof T)[],
+  threshold: number,
+  enabled: boolean,
+  pinnedKey?: keyof T,
+) {
+  // Kept with the rows it was sampled from, so a reply for earlier rows is never shown for new ones.
+  const [sampled, setSampled] = React.useState<{ source: T[]; rows: T[] } | null>(null);
+
+  React.useEffect(() => {
+    if (!enabled || rows.length <= threshold) {
+      setSampled(null);
+      return;
+    }
+
+    let cancelled = false;
+    const xs = () => Float64Array.from(rows, row => row.timestamp);
+    const series = () => keys.map(key => Float64Array.from(rows, row => Number(row[key])));
+    requestIndices(xs(), series(), threshold)
+      .catch(() => downsampleSeries(xs(), series(), threshold))
+      .then((indices) => {
+        if (cancelled) return;
+        const kept = new Set(Array.from(indices));
+        if (pinnedKey) {
+          rows.forEach((row, index) => {
+            if (row[pinnedKey]) kept.add(index);
+          });
+        }
+        setSampled({ source: rows, rows: [...kept].sort((a, b) => a - b).map(index => rows[index]) });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [rows, keys, threshold, enabled, pinnedKey]);
+
+  const current = enabled && sampled?.source === rows ? sampled.rows : null;
+  return { rows: current ?? rows, downsampled: current !== null };
+}
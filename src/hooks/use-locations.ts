@@ -0,0 +1,27 @@
+import * as React from "react";
+
+import { locationCache } from "@/services/locationCache";
+import type { Location } from "@/services/api";
+import { findLocation, getLocationName, getShortLocationName } from "@/lib/locations";
+
+export function useLocations() {
+  const [locations, setLocations] = React.useState<Location[]>(locationCache.get());
+
+  React.useEffect(() => {
+    const unsubscribe = locationCache.subscribe(setLocations);
+    locationCache.load().catch(() => {
+      // The cache falls back to the demo locations
+    });
+    return unsubscribe;
+  }, []);
+
+  return {
+    locations,
+    getLocation: React.useCallback((locationId: string | null | undefined) => findLocation(locations, locationId), [locations]),
+    getLocationName: React.useCallback((locationId: string | null | undefined) => getLocationName(locations, locationId), [locations]),
+    getShortLocationName: React.useCallback(
+      (locationId: string | null | undefined) => getShortLocationName(locations, locationId),
+      [locations],
+    ),
+  };
+}
@@ -0,0 +1,22 @@
+import * as React from "react";
+
+import { realtime, type RealtimeEvents, type RealtimeEventType, type RealtimeStatus } from "@/services/realtime";
+
+export function useRealtimeStatus() {
+  const [status, setStatus] = React.useState<RealtimeStatus>(realtime.getStatus());
+
+  React.useEffect(() => realtime.onStatusChange(setStatus), []);
+
+  return status;
+}
+
+export function useRealtimeEvent<T extends RealtimeEventType>(
+  type: T,
+  handler: (payload: RealtimeEvents[T]) => void,
+) {
+  // Keep the latest handler without resubscribing on every render.
+  const handlerRef = React.useRef(handler);
+  handlerRef.current = handler;
+
+  React.useEffect(() => realtime.subscribe(type, (payload) => handlerRef.current(payload)), [type]);
+}
@@ -0,0 +1,36 @@
+import * as React from "react";
+
+/**
+ * Windowing for long lists of fixed-height rows inside a scroll container:
+ * only the rows in view, plus `overscan` either side, need rendering. The
+ * padding stands in for the rows left out so the scrollbar stays true.
+ */
+export function useVirtualRows<T extends HTMLElement>(count: number, rowHeight: number, overscan = 10) {
+  const ref = React.useRef<T>(null);
+  const [scrollTop, setScrollTop] = React.useState(0);
+  const [height, setHeight] = React.useState(0);
+
+  React.useEffect(() => {
+    const element = ref.current;
+    if (!element) return;
+    const onScroll = () => setScrollTop(element.scrollTop);
+    const observer = new ResizeObserver(([entry]) => setHeight(entry.contentRect.height));
+    element.addEventListener("scroll", onScroll, { passive: true });
+    observer.observe(element);
+    return () => {
+      element.removeEventListener("scroll", onScroll);
+      observer.disconnect();
+    };
+  }, []);
+
+  const start = Math.max(0, Math.floor(scrollTop / rowHeight) - overscan);
+  const end = Math.min(count, Math.ceil((scrollTop + height) / rowHeight) + overscan);
+
+  return {
+    ref,
+    start,
+    end,
+    paddingTop: start * rowHeight,
+    paddingBottom: Math.max(0, count - end) * rowHeight,
+  };
+}
@@ -0,0 +1,114 @@
+import type { Alert, AlertPreferences, QuietHours } from '@/services/api';
+
+export const defaultAlertPreferences: AlertPreferences = {
+  desktopNotifications: false,
+  audibleAlarm: false,
+  quietHours: { enabled: false, start: '22:00', end: '06:00' },
+};
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+export function isWithinQuietHours(quietHours: QuietHours, now: Date = new Date()) {
+  if (!quietHours.enabled) return false;
+  const current = now.getHours() * 60 + now.getMinutes();
+  const start = toMinutes(quietHours.start);
+  const end = toMinutes(quietHours.end);
+  if (start === end) return false;
+  // A window such as 22:00-06:00 wraps past midnight.
+  return start < end
+    ? current >= start && current < end
+    : current >= start || current < end;
+}
+
+export const notificationsSupported = () => typeof window !== 'undefined' && 'Notification' in window;
+
+export function showDesktopNotification(alert: Alert, locationName: string) {
+  if (!notificationsSupported() || Notification.permission !== 'granted') return;
+  const notification = new Notification(`${alert.severity.toUpperCase()} alert: ${locationName}`, {
+    body: alert.message,
+    tag: alert.id,
+    requireInteraction: alert.severity === 'critical',
+  });
+  notification.onclick = () => {
+    window.focus();
+    notification.close();
+  };
+}
+
+let audioContext: AudioContext | null = null;
+const audioListeners = new Set<(blocked: boolean) => void>();
+
+export const audioSupported = () => typeof window !== 'undefined' && 'AudioContext' in window;
+
+const getAudioContext = () => {
+  if (!audioContext) {
+    audioContext = new AudioContext();
+    audioContext.onstatechange = () => audioListeners.forEach(listener => listener(isAudioBlocked()));
+  }
+  return audioContext;
+};
+
+/**
+ * Autoplay policies keep audio suspended until the page gets a click or key
+ * press, which a wall screen that reloads on its own never does.
+ */
+export const isAudioBlocked = () => audioSupported() && getAudioContext().state !== 'running';
+
+export function onAudioStateChange(listener: (blocked: boolean) => void) {
+  audioListeners.add(listener);
+  return () => {
+    audioListeners.delete(listener);
+  };
+}
+
+// Only takes effect when called from a click or key press handler.
+export async function unlockAudio() {
+  if (!audioSupported()) return false;
+  try {
+    await getAudioContext().resume();
+  } catch (error) {
+    // Still blocked
+  }
+  return !isAudioBlocked();
+}
+
+/**
+ * A short two-tone siren generated with Web Audio, so no sound asset has to
+ * be shipped. Returns false without playing while audio is blocked, since
+ * tones queued then would sound whenever it's unlocked, long after the alert.
+ */
+export function playAlarm(repeats = 3) {
+  if (!audioSupported() || isAudioBlocked()) return false;
+  const context = getAudioContext();
+  const start = context.currentTime;
+  const toneLength = 0.25;
+
+  for (let i = 0; i < repeats * 2; i++) {
+    const oscillator = context.createOscillator();
+    const gain = context.createGain();
+    oscillator.type = 'square';
+    oscillator.frequency.value = i % 2 === 0 ? 880 : 660;
+    gain.gain.value = 0.1;
+    oscillator.connect(gain).connect(context.destination);
+    oscillator.start(start + i * toneLength);
+    oscillator.stop(start + (i + 1) * toneLength);
+  }
+  return true;
+}
+
+/**
+ * Desktop notifications are shown for every new alert; quiet hours hold back
+ * all but critical ones. The audible alarm is for critical alerts only and
+ * stays silent during quiet hours.
+ */
+export function getAlertSignals(alert: Alert, preferences: AlertPreferences, now: Date = new Date()) {
+  const quiet = isWithinQuietHours(preferences.quietHours, now);
+  const critical = alert.severity === 'critical';
+  return {
+    desktop: preferences.desktopNotifications && (critical || !quiet),
+    alarm: preferences.audibleAlarm && critical && !quiet,
+  };
+}
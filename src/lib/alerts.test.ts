@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import type { Alert, AlertQuery } from '@/services/api';
+import { defaultAlertQuery, queryIncidents } from '@/lib/alerts';
+
+const alert = (id: string, minutesAgo: number, overrides: Partial<Alert> = {}): Alert => ({
+  id,
+  type: 'warning',
+  severity: 'warning',
+  message: 'pH low',
+  locationId: '1',
+  parameter: 'ph',
+  timestamp: new Date(Date.UTC(2024, 2, 15, 12) - minutesAgo * 60 * 1000).toISOString(),
+  status: 'open',
+  ...overrides,
+});
+
+// Newest first, the pH incident's two alerts have another location's alert between them.
+const alerts = [
+  alert('ph-late', 0),
+  alert('turbidity', 10, { locationId: '2', parameter: 'turbidity', severity: 'critical', type: 'critical' }),
+  alert('ph-early', 30),
+  alert('temperature', 40, { locationId: '3', parameter: 'temperature', status: 'resolved' }),
+];
+
+const query: AlertQuery = { ...defaultAlertQuery, pageSize: 2 };
+
+describe('queryIncidents', () => {
+  it('groups every matching alert before cutting the page', () => {
+    const first = queryIncidents(alerts, query);
+    const second = queryIncidents(alerts, { ...query, page: 2 });
+
+    expect(first.items.map(incident => incident.alerts.map(a => a.id))).toEqual([['ph-late', 'ph-early'], ['turbidity']]);
+    expect(second.items.map(incident => incident.alerts.map(a => a.id))).toEqual([['temperature']]);
+    expect(first).toMatchObject({ total: 3, alertTotal: 4 });
+  });
+
+  it('counts open incidents across every page by their worst severity', () => {
+    const { openIncidentCounts } = queryIncidents(alerts, query);
+    expect(openIncidentCounts).toEqual({ critical: 1, warning: 1, info: 0 });
+  });
+
+  it('applies the filters before grouping', () => {
+    const result = queryIncidents(alerts, { ...query, severity: 'warning', status: 'open' });
+    expect(result.items.map(incident => incident.id)).toEqual(['incident-ph-early']);
+    expect(result).toMatchObject({ total: 1, alertTotal: 2 });
+  });
+});
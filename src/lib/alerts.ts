@@ -0,0 +1,223 @@
+import type {
+  Alert,
+  AlertEvent,
+  AlertEventType,
+  AlertQuery,
+  AlertSortField,
+  AlertStatus,
+  IncidentsResponse,
+  Location,
+} from '@/services/api';
+import { countOpenIncidents, groupIntoIncidents, severityRank } from '@/lib/incidents';
+import { getLocationName } from '@/lib/locations';
+
+export type AlertAction =
+  | { type: 'acknowledge' }
+  | { type: 'assign'; assignee: string }
+  | { type: 'resolve'; resolutionNotes: string }
+  | { type: 'reopen' };
+
+export const alertStatusLabels: Record<AlertStatus, string> = {
+  open: 'Open',
+  acknowledged: 'Acknowledged',
+  resolved: 'Resolved',
+};
+
+export const getSeverityColor = (severity: Alert['severity']) => {
+  switch (severity) {
+    case 'critical':
+      return 'bg-status-critical text-white';
+    case 'warning':
+      return 'bg-status-warning text-white';
+    case 'info':
+      return 'bg-status-info text-white';
+    default:
+      return 'bg-muted text-muted-foreground';
+  }
+};
+
+export const getAlertStatusColor = (status: AlertStatus) => {
+  switch (status) {
+    case 'open':
+      return 'border-status-critical/40 text-status-critical';
+    case 'acknowledged':
+      return 'border-status-warning/40 text-status-warning';
+    case 'resolved':
+      return 'border-status-success/40 text-status-success';
+    default:
+      return 'text-muted-foreground';
+  }
+};
+
+// Applies a lifecycle action to an alert on the client. The API returns the
+// updated alert, so this is only used when the backend is unreachable.
+export function applyAlertAction(alert: Alert, action: AlertAction, now: Date = new Date()): Alert {
+  const timestamp = now.toISOString();
+
+  switch (action.type) {
+    case 'acknowledge':
+      return {
+        ...alert,
+        status: 'acknowledged',
+        acknowledgedAt: alert.acknowledgedAt ?? timestamp,
+        updatedAt: timestamp,
+      };
+    case 'assign':
+      return {
+        ...alert,
+        assignee: action.assignee,
+        status: alert.status === 'open' ? 'acknowledged' : alert.status,
+        acknowledgedAt: alert.acknowledgedAt ?? timestamp,
+        updatedAt: timestamp,
+      };
+    case 'resolve':
+      return {
+        ...alert,
+        status: 'resolved',
+        acknowledgedAt: alert.acknowledgedAt ?? timestamp,
+        resolvedAt: timestamp,
+        resolutionNotes: action.resolutionNotes,
+        updatedAt: timestamp,
+      };
+    case 'reopen':
+      return {
+        ...alert,
+        status: 'open',
+        acknowledgedAt: null,
+        reopenedAt: timestamp,
+        resolvedAt: null,
+        resolutionNotes: null,
+        updatedAt: timestamp,
+      };
+  }
+}
+
+export const alertEventLabels: Record<AlertEventType, string> = {
+  created: 'Alert raised',
+  acknowledged: 'Acknowledged',
+  assigned: 'Assigned',
+  resolved: 'Resolved',
+  reopened: 'Reopened',
+  comment: 'Comment',
+};
+
+/**
+ * Reconstructs the status history from the timestamps on the alert itself.
+ * Used when the history endpoint is unreachable, so it can only show the
+ * latest of each change and never includes comments.
+ */
+export function buildAlertHistory(alert: Alert): AlertEvent[] {
+  const event = (type: AlertEventType, timestamp: string, message?: string | null): AlertEvent => ({
+    id: `${alert.id}-${type}`,
+    alertId: alert.id,
+    type,
+    timestamp,
+    message,
+  });
+
+  const events = [event('created', alert.timestamp, alert.message)];
+  if (alert.acknowledgedAt) {
+    events.push(event('acknowledged', alert.acknowledgedAt));
+  }
+  if (alert.assignee) {
+    events.push(event('assigned', alert.acknowledgedAt ?? alert.timestamp, alert.assignee));
+  }
+  if (alert.resolvedAt) {
+    events.push(event('resolved', alert.resolvedAt, alert.resolutionNotes));
+  }
+  if (alert.reopenedAt) {
+    events.push(event('reopened', alert.reopenedAt));
+  }
+  return events.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+}
+
+export const defaultAlertQuery: AlertQuery = {
+  page: 1,
+  pageSize: 20,
+  sortBy: 'timestamp',
+  sortOrder: 'desc',
+};
+
+const statusRank: Record<AlertStatus, number> = { open: 0, acknowledged: 1, resolved: 2 };
+
+const alertSortFields: AlertSortField[] = ['timestamp', 'severity', 'location', 'status'];
+
+const positiveInt = (value: string | null, fallback: number) => {
+  const parsed = Number.parseInt(value ?? '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+const oneOf = <T extends string>(value: string | null, options: readonly T[]) =>
+  options.includes(value as T) ? (value as T) : undefined;
+
+export function parseAlertQuery(params: URLSearchParams): AlertQuery {
+  return {
+    page: positiveInt(params.get('page'), defaultAlertQuery.page),
+    pageSize: positiveInt(params.get('pageSize'), defaultAlertQuery.pageSize),
+    search: params.get('search') || undefined,
+    severity: oneOf(params.get('severity'), ['critical', 'warning', 'info'] as const),
+    status: oneOf(params.get('status'), ['open', 'acknowledged', 'resolved'] as const),
+    locationId: params.get('locationId') || undefined,
+    from: params.get('from') || undefined,
+    to: params.get('to') || undefined,
+    sortBy: oneOf(params.get('sortBy'), alertSortFields) ?? defaultAlertQuery.sortBy,
+    sortOrder: oneOf(params.get('sortOrder'), ['asc', 'desc'] as const) ?? defaultAlertQuery.sortOrder,
+  };
+}
+
+// Only non-default values are written so shared links stay short.
+export function alertQueryToParams(query: AlertQuery): URLSearchParams {
+  const params = new URLSearchParams();
+  (Object.keys(query) as (keyof AlertQuery)[]).forEach((key) => {
+    const value = query[key];
+    if (value === undefined || value === '' || value === defaultAlertQuery[key]) return;
+    params.set(key, String(value));
+  });
+  return params;
+}
+
+export function matchesAlertQuery(alert: Alert, query: AlertQuery) {
+  const time = new Date(alert.timestamp).getTime();
+  if (query.severity && alert.severity !== query.severity) return false;
+  if (query.status && alert.status !== query.status) return false;
+  if (query.locationId && alert.locationId !== query.locationId) return false;
+  // Date-only bounds are inclusive of the whole day.
+  if (query.from && time < new Date(`${query.from}T00:00:00`).getTime()) return false;
+  if (query.to && time > new Date(`${query.to}T23:59:59.999`).getTime()) return false;
+  if (query.search && !alert.message.toLowerCase().includes(query.search.toLowerCase())) return false;
+  return true;
+}
+
+const compareAlerts = (a: Alert, b: Alert, sortBy: AlertSortField, locations: Location[]) => {
+  switch (sortBy) {
+    case 'timestamp':
+      return new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime();
+    case 'severity':
+      return severityRank[a.severity] - severityRank[b.severity];
+    case 'location':
+      return getLocationName(locations, a.locationId).localeCompare(getLocationName(locations, b.locationId));
+    case 'status':
+      return statusRank[a.status] - statusRank[b.status];
+  }
+};
+
+// Client-side equivalent of the server's filtering, grouping and paging, used
+// with the demo data when the API is unreachable. Every matching alert is
+// grouped before the page is cut, so incidents keep all their members.
+export function queryIncidents(alerts: Alert[], query: AlertQuery, locations: Location[] = []): IncidentsResponse {
+  const direction = query.sortOrder === 'asc' ? 1 : -1;
+  const matching = alerts
+    .filter(alert => matchesAlertQuery(alert, query))
+    .sort((a, b) => compareAlerts(a, b, query.sortBy, locations) * direction);
+  const incidents = groupIntoIncidents(matching);
+
+  const start = (query.page - 1) * query.pageSize;
+  return {
+    items: incidents.slice(start, start + query.pageSize),
+    total: incidents.length,
+    alertTotal: matching.length,
+    page: query.page,
+    pageSize: query.pageSize,
+    openIncidentCounts: countOpenIncidents(incidents),
+  };
+}
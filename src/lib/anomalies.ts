@@ -0,0 +1,201 @@
+import type { ParameterKey, Reading, ReadingFlag, ReadingFlagType } from '@/services/api';
+import { formatParameterValue, parameterKeys, parameterRegistry } from '@/lib/parameters';
+
+export const readingFlagLabels: Record<ReadingFlagType, string> = {
+  spike: 'Spike',
+  flatline: 'Flatline',
+  drift: 'Drift',
+  gap: 'Gap',
+};
+
+// Flags that cast doubt on a value. A gap only says data is missing before the reading.
+const SUSPECT_FLAGS: ReadingFlagType[] = ['spike', 'flatline', 'drift'];
+
+// Readings either side that a value is compared against when looking for spikes.
+const SPIKE_HALF_WINDOW = 12;
+// Modified z-score (0.6745 × deviation / MAD) above which a value is a spike.
+const SPIKE_SCORE = 5;
+// Consecutive identical values that mean a sensor is stuck.
+const FLATLINE_RUN = 6;
+// Lab counts are legitimately constant, usually at zero.
+const FLATLINE_EXEMPT: ParameterKey[] = ['e_coli'];
+// Readings in the window over which the offset from neighbours must trend.
+const DRIFT_WINDOW = 48;
+// t-statistic of the offset's slope above which the trend is not noise.
+const DRIFT_T_SCORE = 6;
+// A gap is a pause this many times longer than the location's usual interval.
+const GAP_FACTOR = 3;
+
+export const isSuspect = (reading: Reading, parameter: ParameterKey) =>
+  (reading.flags ?? []).some(flag => flag.parameter === parameter && SUSPECT_FLAGS.includes(flag.type));
+
+const time = (reading: Reading) => Date.parse(reading.timestamp);
+
+// Averages the middle two of an even count.
+export function median(values: number[]) {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+type Flagger = (reading: Reading, flag: ReadingFlag) => void;
+
+function detectSpikes(series: Reading[], parameter: ParameterKey, flag: Flagger) {
+  const points = series.filter(r => r.values[parameter] !== undefined);
+  if (points.length <= SPIKE_HALF_WINDOW) return;
+  // A quiet stretch (or a stuck neighbour) shouldn't make ordinary noise look
+  // like a spike, so the local spread is floored at half the series' own, and
+  // never below rounding noise.
+  const values = points.map(r => r.values[parameter]);
+  const overall = median(values);
+  const floor = Math.max(
+    median(values.map(value => Math.abs(value - overall))) / 2,
+    10 ** -parameterRegistry[parameter].precision,
+  );
+
+  points.forEach((reading, i) => {
+    const neighbours = [
+      ...points.slice(Math.max(0, i - SPIKE_HALF_WINDOW), i),
+      ...points.slice(i + 1, i + 1 + SPIKE_HALF_WINDOW),
+    ].map(r => r.values[parameter]);
+    if (neighbours.length < SPIKE_HALF_WINDOW) return;
+
+    const center = median(neighbours);
+    const spread = Math.max(median(neighbours.map(value => Math.abs(value - center))), floor);
+    const value = reading.values[parameter];
+    if ((0.6745 * Math.abs(value - center)) / spread > SPIKE_SCORE) {
+      flag(reading, {
+        type: 'spike',
+        parameter,
+        message: `${formatParameterValue(parameter, value)} against a local median of ${formatParameterValue(parameter, center)}`,
+      });
+    }
+  });
+}
+
+function detectFlatlines(series: Reading[], parameter: ParameterKey, flag: Flagger) {
+  if (FLATLINE_EXEMPT.includes(parameter)) return;
+  const points = series.filter(r => r.values[parameter] !== undefined);
+  const { precision } = parameterRegistry[parameter];
+  const same = (a: Reading, b: Reading) =>
+    a.values[parameter].toFixed(precision) === b.values[parameter].toFixed(precision);
+
+  let start = 0;
+  for (let i = 1; i <= points.length; i++) {
+    if (i < points.length && same(points[i], points[start])) continue;
+    if (i - start >= FLATLINE_RUN) {
+      const value = formatParameterValue(parameter, points[start].values[parameter]);
+      points.slice(start, i).forEach(reading => flag(reading, {
+        type: 'flatline',
+        parameter,
+        message: `Stuck at ${value} for ${i - start} readings`,
+      }));
+    }
+    start = i;
+  }
+}
+
+// For each point, the value of the neighbour's reading closest in time.
+// Both series are sorted, so one pass with a moving pointer is enough.
+function alignValues(points: Reading[], neighbour: Reading[], parameter: ParameterKey) {
+  const neighbourTimes = neighbour.map(time);
+  let j = 0;
+  return points.map((reading) => {
+    const at = time(reading);
+    while (j + 1 < neighbour.length && Math.abs(neighbourTimes[j + 1] - at) <= Math.abs(neighbourTimes[j] - at)) j++;
+    return neighbour[j].values[parameter];
+  });
+}
+
+// Least-squares slope of a series against its index, as a t-statistic.
+function trendScore(window: number[]) {
+  const n = window.length;
+  const meanX = (n - 1) / 2;
+  const meanY = window.reduce((sum, y) => sum + y, 0) / n;
+  const sxx = window.reduce((sum, _, x) => sum + (x - meanX) ** 2, 0);
+  const slope = window.reduce((sum, y, x) => sum + (x - meanX) * (y - meanY), 0) / sxx;
+  const residuals = window.reduce((sum, y, x) => sum + (y - meanY - slope * (x - meanX)) ** 2, 0);
+  const standardError = Math.sqrt(residuals / (n - 2) / sxx);
+  return { slope, score: standardError === 0 ? 0 : slope / standardError };
+}
+
+/**
+ * Drift is a slow, steady change in how far a location reads from its
+ * neighbours. Real changes in a shared source move every station together, so
+ * the offsets stay flat; a probe losing calibration makes its offset from
+ * every neighbour trend the same way.
+ */
+function detectDrift(series: Reading[], neighbours: Reading[][], parameter: ParameterKey, flag: Flagger) {
+  const points = series.filter(r => r.values[parameter] !== undefined);
+  const offsets = neighbours
+    .map(readings => readings.filter(r => r.values[parameter] !== undefined))
+    .filter(readings => readings.length > 0)
+    .map(readings => alignValues(points, readings, parameter)
+      .map((value, i) => points[i].values[parameter] - value));
+  if (offsets.length === 0) return;
+
+  for (let start = 0; start + DRIFT_WINDOW <= points.length; start++) {
+    const trends = offsets.map(series => trendScore(series.slice(start, start + DRIFT_WINDOW)));
+    const rising = trends.every(trend => trend.score >= DRIFT_T_SCORE);
+    const falling = trends.every(trend => trend.score <= -DRIFT_T_SCORE);
+    if (!rising && !falling) continue;
+
+    const slope = Math.min(...trends.map(trend => Math.abs(trend.slope)));
+    const shift = formatParameterValue(parameter, slope * (DRIFT_WINDOW - 1));
+    points.slice(start, start + DRIFT_WINDOW).forEach(reading => flag(reading, {
+      type: 'drift',
+      parameter,
+      message: `Moved ${shift} ${rising ? 'above' : 'below'} neighbouring stations over ${DRIFT_WINDOW} readings`,
+    }));
+  }
+}
+
+function detectGaps(series: Reading[], flag: Flagger) {
+  if (series.length < 3) return;
+  const intervals = series.slice(1).map((reading, i) => time(reading) - time(series[i]));
+  const usual = median(intervals);
+  intervals.forEach((interval, i) => {
+    if (usual > 0 && interval > usual * GAP_FACTOR) {
+      flag(series[i + 1], {
+        type: 'gap',
+        parameter: null,
+        message: `No readings for ${Math.round(interval / 60000)} min`,
+      });
+    }
+  });
+}
+
+/**
+ * Returns the readings with fault flags attached. Each location's series is
+ * checked on its own for spikes, flatlines and gaps; drift is measured against
+ * the other locations in the set, so it needs at least two. Lab samples are
+ * irregular by nature and aren't checked. Flags already set by the server are kept.
+ */
+export function detectAnomalies(readings: Reading[]): Reading[] {
+  const byLocation = new Map<string, Reading[]>();
+  readings.filter(reading => reading.source !== 'lab').forEach((reading) => {
+    const series = byLocation.get(reading.locationId) ?? [];
+    series.push(reading);
+    byLocation.set(reading.locationId, series);
+  });
+  byLocation.forEach(series => series.sort((a, b) => time(a) - time(b)));
+
+  const flags = new Map<string, ReadingFlag[]>();
+  const flag: Flagger = (reading, next) => {
+    const existing = flags.get(reading.id) ?? reading.flags ?? [];
+    if (existing.some(f => f.type === next.type && f.parameter === next.parameter)) return;
+    flags.set(reading.id, [...existing, next]);
+  };
+
+  byLocation.forEach((series, locationId) => {
+    const neighbours = [...byLocation].filter(([id]) => id !== locationId).map(([, others]) => others);
+    parameterKeys.forEach((parameter) => {
+      detectSpikes(series, parameter, flag);
+      detectFlatlines(series, parameter, flag);
+      detectDrift(series, neighbours, parameter, flag);
+    });
+    detectGaps(series, flag);
+  });
+
+  return readings.map(reading => (flags.has(reading.id) ? { ...reading, flags: flags.get(reading.id) } : reading));
+}
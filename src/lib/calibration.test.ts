@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import type { CalibrationRecord, Device, Reading, ReadingAggregate } from '@/services/api';
+import { correctAggregates, correctReadings, overdueCalibrations } from '@/lib/calibration';
+
+const at = (day: number) => new Date(Date.UTC(2024, 2, day, 9)).toISOString();
+
+// Location 2's device-4 was swapped for device-2 on 10 March.
+const devices = [
+  {
+    id: 'device-2',
+    locationId: '2',
+    history: [{ locationId: '2', installedAt: at(10), removedAt: null }],
+  },
+  {
+    id: 'device-4',
+    locationId: null,
+    history: [{ locationId: '2', installedAt: at(1), removedAt: at(10) }],
+  },
+] as Device[];
+
+const calibration = (id: string, deviceId: string | null, day: number, offset: number): CalibrationRecord => ({
+  id,
+  locationId: '2',
+  deviceId,
+  parameter: 'turbidity',
+  calibratedAt: at(day),
+  technician: 'R. Patil',
+  points: [],
+  offset,
+  slope: 1,
+});
+
+const reading = (deviceId: string | undefined, day: number): Reading => ({
+  id: `reading-${deviceId}-${day}`,
+  locationId: '2',
+  values: { turbidity: 2 },
+  timestamp: at(day),
+  deviceId,
+});
+
+describe('correctReadings', () => {
+  it("only applies a device's own calibrations to its readings", () => {
+    const records = [calibration('old-probe', 'device-4', 5, -0.5)];
+    const corrected = correctReadings([reading('device-4', 8), reading('device-2', 12)], records);
+    expect(corrected.map(r => r.values.turbidity)).toEqual([1.5, 2]);
+  });
+
+  it('applies calibrations without a device only to readings without one', () => {
+    const records = [calibration('legacy', null, 2, 0.5)];
+    const corrected = correctReadings([reading(undefined, 3), reading('device-4', 3)], records);
+    expect(corrected.map(r => r.values.turbidity)).toEqual([2.5, 2]);
+  });
+});
+
+describe('correctAggregates', () => {
+  it('corrects each bucket with the device installed at its start', () => {
+    const records = [calibration('old-probe', 'device-4', 5, -0.5), calibration('new-probe', 'device-2', 11, 0.2)];
+    const bucket = (day: number): ReadingAggregate => ({
+      bucketStart: at(day),
+      locationId: '2',
+      count: 1,
+      values: { turbidity: { min: 2, avg: 2, max: 2, count: 1 } },
+    });
+    const corrected = correctAggregates([bucket(8), bucket(10), bucket(12)], records, devices);
+    expect(corrected.map(a => a.values.turbidity.avg)).toEqual([1.5, 2, 2.2]);
+  });
+});
+
+describe('overdueCalibrations', () => {
+  it('ignores devices that are no longer at the location', () => {
+    const records = [calibration('old-probe', 'device-4', 1, -0.5), calibration('new-probe', 'device-2', 11, 0.2)];
+    const overdue = overdueCalibrations(records, '2', devices, new Date(at(60)));
+    expect(overdue.map(due => due.last.id)).toEqual(['new-probe']);
+  });
+});
@@ -0,0 +1,157 @@
+import type { CalibrationPoint, CalibrationRecord, Device, ParameterKey, Reading, ReadingAggregate } from '@/services/api';
+import { installedDeviceAt } from '@/lib/devices';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// How often a probe should be recalibrated. pH electrodes drift fastest.
+const DEFAULT_CALIBRATION_INTERVAL_DAYS = 30;
+const calibrationIntervalDays: Partial<Record<ParameterKey, number>> = {
+  ph: 14,
+  dissolved_oxygen: 14,
+  residual_chlorine: 14,
+};
+
+export const calibrationDueAt = (record: CalibrationRecord) => new Date(
+  new Date(record.calibratedAt).getTime()
+    + (calibrationIntervalDays[record.parameter] ?? DEFAULT_CALIBRATION_INTERVAL_DAYS) * DAY,
+);
+
+/**
+ * Offset and slope that map measured values onto the references, by least
+ * squares. A single point, or points the probe read identically, can only
+ * fix the offset.
+ */
+export function fitCalibration(points: CalibrationPoint[]): { offset: number; slope: number } | null {
+  if (points.length === 0) return null;
+  const meanMeasured = points.reduce((sum, p) => sum + p.measured, 0) / points.length;
+  const meanReference = points.reduce((sum, p) => sum + p.reference, 0) / points.length;
+  const spread = points.reduce((sum, p) => sum + (p.measured - meanMeasured) ** 2, 0);
+  if (spread === 0) return { offset: meanReference - meanMeasured, slope: 1 };
+  const slope = points.reduce((sum, p) => sum + (p.measured - meanMeasured) * (p.reference - meanReference), 0) / spread;
+  return { offset: meanReference - slope * meanMeasured, slope };
+}
+
+export const applyCalibration = (record: CalibrationRecord, value: number) => value * record.slope + record.offset;
+
+const time = (value: string) => new Date(value).getTime();
+
+// A probe is one device's sensor for a parameter, wherever the device is
+// installed. Calibrations and readings from before devices were registered
+// only know their location, so they pair up by that instead.
+interface Probe {
+  locationId: string;
+  deviceId?: string | null;
+}
+
+const probeKey = ({ locationId, deviceId }: Probe, parameter: ParameterKey) =>
+  (deviceId ? `device:${deviceId}:${parameter}` : `location:${locationId}:${parameter}`);
+
+// Each probe's calibrations, oldest first.
+function calibrationsByProbe(records: CalibrationRecord[]) {
+  const byProbe = new Map<string, CalibrationRecord[]>();
+  [...records]
+    .sort((a, b) => time(a.calibratedAt) - time(b.calibratedAt))
+    .forEach((record) => {
+      const key = probeKey(record, record.parameter);
+      byProbe.set(key, [...(byProbe.get(key) ?? []), record]);
+    });
+  return byProbe;
+}
+
+// The latest calibration made at or before `at`, if any.
+const inEffect = (history: CalibrationRecord[] | undefined, at: number) => {
+  let found: CalibrationRecord | null = null;
+  for (const record of history ?? []) {
+    if (time(record.calibratedAt) > at) break;
+    found = record;
+  }
+  return found;
+};
+
+export const findCalibration = (
+  records: CalibrationRecord[],
+  probe: Probe,
+  parameter: ParameterKey,
+  at: Date = new Date(),
+) => inEffect(calibrationsByProbe(records).get(probeKey(probe, parameter)), at.getTime());
+
+/**
+ * Sensor readings with each value corrected by the calibration in effect when
+ * it was taken, on the device that took it. Lab samples are measured on the
+ * lab's own instruments, and values from before a probe's first calibration
+ * are left as they are.
+ */
+export function correctReadings(readings: Reading[], records: CalibrationRecord[]): Reading[] {
+  if (records.length === 0) return readings;
+  const byProbe = calibrationsByProbe(records);
+  return readings.map((reading) => {
+    if (reading.source === 'lab') return reading;
+    let values = reading.values;
+    Object.entries(reading.values).forEach(([key, value]) => {
+      const parameter = key as ParameterKey;
+      const record = inEffect(byProbe.get(probeKey(reading, parameter)), time(reading.timestamp));
+      if (record) values = { ...values, [parameter]: applyCalibration(record, value) };
+    });
+    return values === reading.values ? reading : { ...reading, values };
+  });
+}
+
+/**
+ * Server buckets corrected by the calibration in effect at the bucket start,
+ * on the device installed at the location then. Buckets covering every
+ * location mix probes, so they can't be corrected.
+ */
+export function correctAggregates(
+  aggregates: ReadingAggregate[],
+  records: CalibrationRecord[],
+  devices: Device[],
+): ReadingAggregate[] {
+  if (records.length === 0) return aggregates;
+  const byProbe = calibrationsByProbe(records);
+  return aggregates.map((aggregate) => {
+    if (!aggregate.locationId) return aggregate;
+    const probe = {
+      locationId: aggregate.locationId,
+      deviceId: installedDeviceAt(devices, aggregate.locationId, new Date(aggregate.bucketStart))?.id,
+    };
+    let values = aggregate.values;
+    Object.entries(aggregate.values).forEach(([key, range]) => {
+      const parameter = key as ParameterKey;
+      const record = inEffect(byProbe.get(probeKey(probe, parameter)), time(aggregate.bucketStart));
+      if (!record) return;
+      const [min, max] = [applyCalibration(record, range.min), applyCalibration(record, range.max)].sort((a, b) => a - b);
+      values = { ...values, [parameter]: { ...range, min, max, avg: applyCalibration(record, range.avg) } };
+    });
+    return values === aggregate.values ? aggregate : { ...aggregate, values };
+  });
+}
+
+export interface CalibrationDue {
+  parameter: ParameterKey;
+  last: CalibrationRecord;
+  dueAt: Date;
+}
+
+/**
+ * Probes on the devices installed at the location whose last calibration is
+ * older than their parameter's interval. Only probes that have been
+ * calibrated at least once are known about, and calibrations without a
+ * device only count where no device is installed.
+ */
+export function overdueCalibrations(
+  records: CalibrationRecord[],
+  locationId: string,
+  devices: Device[],
+  now: Date = new Date(),
+): CalibrationDue[] {
+  const installed = devices.filter(device => device.locationId === locationId).map(device => device.id);
+  const here = records.filter(record => (record.deviceId
+    ? installed.includes(record.deviceId)
+    : installed.length === 0 && record.locationId === locationId));
+  return [...calibrationsByProbe(here).values()]
+    .map((history) => {
+      const last = history[history.length - 1];
+      return { parameter: last.parameter, last, dueAt: calibrationDueAt(last) };
+    })
+    .filter(due => due.dueAt <= now);
+}
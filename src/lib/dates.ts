@@ -0,0 +1,5 @@
+// <input type="datetime-local"> works in local time without a zone suffix.
+export const toLocalInput = (date: Date) => {
+  const offset = date.getTimezoneOffset() * 60 * 1000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+};
@@ -0,0 +1,88 @@
+import type { Alert, Device, DeviceHealthSettings, DeviceHeartbeat } from '@/services/api';
+
+const MINUTE = 60 * 1000;
+
+// Nodes run off a 12 V solar-charged battery and report over GSM.
+export const defaultHealthSettings: DeviceHealthSettings = {
+  offlineAfterMinutes: 30,
+  offlineWarningAfterMinutes: 6 * 60,
+  lowBatteryVolts: 11.5,
+  weakSignalDbm: -100,
+};
+
+export type DeviceConnection = 'online' | 'offline' | 'never_seen';
+
+export interface DeviceHealth {
+  connection: DeviceConnection;
+  heartbeat: DeviceHeartbeat | null;
+  // Time since the last heartbeat; null if there never was one.
+  silentMs: number | null;
+  lowBattery: boolean;
+  weakSignal: boolean;
+}
+
+export function assessDevice(
+  heartbeat: DeviceHeartbeat | null | undefined,
+  settings: DeviceHealthSettings,
+  now: Date = new Date(),
+): DeviceHealth {
+  if (!heartbeat) {
+    return { connection: 'never_seen', heartbeat: null, silentMs: null, lowBattery: false, weakSignal: false };
+  }
+  const silentMs = Math.max(0, now.getTime() - new Date(heartbeat.lastSeen).getTime());
+  return {
+    connection: silentMs >= settings.offlineAfterMinutes * MINUTE ? 'offline' : 'online',
+    heartbeat,
+    silentMs,
+    lowBattery: heartbeat.batteryVoltage !== null && heartbeat.batteryVoltage < settings.lowBatteryVolts,
+    weakSignal: heartbeat.signalStrength !== null && heartbeat.signalStrength < settings.weakSignalDbm,
+  };
+}
+
+// "45 min", "3 h 20 min", "2 d 4 h".
+export function formatDuration(ms: number) {
+  const minutes = Math.floor(ms / MINUTE);
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return minutes % 60 === 0 ? `${hours} h` : `${hours} h ${minutes % 60} min`;
+  const days = Math.floor(hours / 24);
+  return hours % 24 === 0 ? `${days} d` : `${days} d ${hours % 24} h`;
+}
+
+// Devices expected to be reporting; ones under maintenance may be switched off.
+const isMonitored = (device: Device) => device.locationId !== null && device.status === 'active';
+
+/**
+ * The alert the server raises for a device that has gone silent, and when:
+ * info once it counts as offline, a warning once the silence runs past the
+ * warning threshold. Null for a device that isn't offline.
+ */
+export function offlineAlertFor(device: Device, health: DeviceHealth, settings: DeviceHealthSettings) {
+  if (!isMonitored(device) || health.connection !== 'offline') return null;
+  const severity: Alert['severity'] = health.silentMs >= settings.offlineWarningAfterMinutes * MINUTE ? 'warning' : 'info';
+  const raisedAt = new Date(new Date(health.heartbeat.lastSeen).getTime() + settings.offlineAfterMinutes * MINUTE);
+  return { severity, raisedAt };
+}
+
+// No devices installed, all of them silent, some of them in trouble, or all well.
+export type LocationStatus = 'inactive' | 'offline' | 'warning' | 'active';
+
+/**
+ * A location's status from the health of the devices installed there, rather
+ * than a status set by hand.
+ */
+export function deriveLocationStatus(
+  locationId: string,
+  devices: Device[],
+  heartbeats: DeviceHeartbeat[],
+  settings: DeviceHealthSettings,
+  now: Date = new Date(),
+): LocationStatus {
+  const installed = devices.filter(device => device.locationId === locationId);
+  if (installed.length === 0) return 'inactive';
+  const health = installed.map(device => assessDevice(heartbeats.find(h => h.deviceId === device.id), settings, now));
+  if (health.every(h => h.connection !== 'online')) return 'offline';
+  const troubled = installed.some((device, i) =>
+    device.status !== 'active' || health[i].connection !== 'online' || health[i].lowBattery || health[i].weakSignal);
+  return troubled ? 'warning' : 'active';
+}
@@ -0,0 +1,69 @@
+import type { Device, DeviceStatus } from '@/services/api';
+
+export const deviceStatusLabels: Record<DeviceStatus, string> = {
+  active: 'Active',
+  maintenance: 'Maintenance',
+  in_storage: 'In storage',
+  retired: 'Retired',
+};
+
+export const getDeviceStatusColor = (status: DeviceStatus) => {
+  switch (status) {
+    case 'active':
+      return 'bg-status-success text-white';
+    case 'maintenance':
+      return 'bg-status-warning text-white';
+    default:
+      return 'bg-muted text-muted-foreground';
+  }
+};
+
+export const formatDeviceName = (device: Device) => `${device.model} · ${device.serialNumber}`;
+
+// The device that was installed at the location at a given time, if any.
+export const installedDeviceAt = (devices: Device[], locationId: string, at: Date) =>
+  devices.find(device => device.history.some(installation =>
+    installation.locationId === locationId
+    && new Date(installation.installedAt) <= at
+    && (installation.removedAt === null || new Date(installation.removedAt) > at))) ?? null;
+
+/** Installs a device that isn't installed anywhere at the location. */
+export function installDevice(device: Device, locationId: string, at: Date): Device {
+  const installedAt = at.toISOString();
+  return {
+    ...device,
+    status: 'active',
+    locationId,
+    installedAt,
+    history: [...device.history, { locationId, installedAt, removedAt: null }],
+  };
+}
+
+/** Takes a device out of its current location, closing its installation. */
+export function removeDevice(device: Device, at: Date, reason: string, status: DeviceStatus = 'in_storage'): Device {
+  return {
+    ...device,
+    status,
+    locationId: null,
+    installedAt: null,
+    history: device.history.map(installation => (installation.removedAt === null
+      ? { ...installation, removedAt: at.toISOString(), removalReason: reason }
+      : installation)),
+  };
+}
+
+export const moveDevice = (device: Device, locationId: string, at: Date, reason = 'Moved') =>
+  installDevice(removeDevice(device, at, reason), locationId, at);
+
+/**
+ * Retires a device and installs the replacement where it was. Both keep a
+ * link to the other so readings can be traced across the swap.
+ */
+export function replaceDevice(device: Device, replacement: Device, at: Date, reason: string): [Device, Device] {
+  const retired = removeDevice(device, at, reason || `Replaced by ${replacement.serialNumber}`, 'retired');
+  const installed = device.locationId ? installDevice(replacement, device.locationId, at) : replacement;
+  return [
+    { ...retired, replacedByDeviceId: replacement.id },
+    { ...installed, replacesDeviceId: device.id },
+  ];
+}
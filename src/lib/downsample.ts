@@ -0,0 +1,69 @@
+// Charts get roughly one point per this many pixels of width.
+const PIXELS_PER_POINT = 2;
+const MIN_POINTS = 50;
+
+export const pointsForWidth = (width: number) => Math.max(MIN_POINTS, Math.floor(width / PIXELS_PER_POINT));
+
+/**
+ * Largest-Triangle-Three-Buckets: picks `threshold` indices from a series,
+ * always keeping the first and last point and, from each bucket in between,
+ * the point forming the largest triangle with its neighbours. Spikes form
+ * large triangles, so they survive where averaging would flatten them.
+ */
+export function largestTriangleThreeBuckets(xs: ArrayLike<number>, ys: ArrayLike<number>, threshold: number): number[] {
+  const length = xs.length;
+  if (threshold >= length || threshold < 3) {
+    return Array.from({ length }, (_, i) => i);
+  }
+
+  const indices = [0];
+  const bucketSize = (length - 2) / (threshold - 2);
+  let previous = 0;
+
+  for (let bucket = 0; bucket < threshold - 2; bucket++) {
+    // The average of the next bucket stands in for the third triangle corner.
+    const nextStart = Math.floor((bucket + 1) * bucketSize) + 1;
+    const nextEnd = Math.min(Math.floor((bucket + 2) * bucketSize) + 1, length);
+    let avgX = 0;
+    let avgY = 0;
+    for (let j = nextStart; j < nextEnd; j++) {
+      avgX += xs[j];
+      avgY += ys[j];
+    }
+    avgX /= nextEnd - nextStart;
+    avgY /= nextEnd - nextStart;
+
+    const start = Math.floor(bucket * bucketSize) + 1;
+    const end = Math.floor((bucket + 1) * bucketSize) + 1;
+    let maxArea = -1;
+    let chosen = start;
+    for (let j = start; j < end; j++) {
+      const area = Math.abs(
+        (xs[previous] - avgX) * (ys[j] - ys[previous]) - (xs[previous] - xs[j]) * (avgY - ys[previous])
+      );
+      if (area > maxArea) {
+        maxArea = area;
+        chosen = j;
+      }
+    }
+
+    indices.push(chosen);
+    previous = chosen;
+  }
+
+  indices.push(length - 1);
+  return indices;
+}
+
+// Downsamples each series on its own and keeps the union, so rows shared by
+// several charts still hold every series' spikes. Rows where a series has no
+// value (NaN) are left out of that series' pass.
+export function downsampleSeries(xs: ArrayLike<number>, series: ArrayLike<number>[], threshold: number): number[] {
+  const kept = new Set<number>();
+  series.forEach((ys) => {
+    const present = Array.from({ length: ys.length }, (_, i) => i).filter(i => !Number.isNaN(ys[i]));
+    largestTriangleThreeBuckets(present.map(i => xs[i]), present.map(i => ys[i]), threshold)
+      .forEach(index => kept.add(present[index]));
+  });
+  return [...kept].sort((a, b) => a - b);
+}
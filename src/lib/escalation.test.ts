@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import type { Alert, EscalationPolicy } from '@/services/api';
+import { applyAlertAction } from '@/lib/alerts';
+import { computeEscalations, createDefaultPolicy, getNextEscalation } from '@/lib/escalation';
+
+const raisedAt = new Date('2024-03-15T09:00:00Z');
+const minutesLater = (minutes: number) => new Date(raisedAt.getTime() + minutes * 60 * 1000);
+
+const policy: EscalationPolicy = createDefaultPolicy('Hazaribagh');
+
+const alert: Alert = {
+  id: 'alert-1',
+  type: 'critical',
+  severity: 'critical',
+  message: 'pH low (5.9)',
+  locationId: '1',
+  timestamp: raisedAt.toISOString(),
+  status: 'open',
+};
+
+const tiersAt = (target: Alert, minutes: number) =>
+  computeEscalations(target, policy, minutesLater(minutes)).map(escalation => escalation.tier);
+
+describe('computeEscalations', () => {
+  it('escalates an unacknowledged alert one tier at a time', () => {
+    expect(tiersAt(alert, 0)).toEqual(['field_technician']);
+    expect(tiersAt(alert, 20)).toEqual(['field_technician', 'block_officer']);
+    expect(tiersAt(alert, 60)).toEqual(['field_technician', 'block_officer', 'district_health_officer']);
+  });
+
+  it('stops once the alert is acknowledged', () => {
+    const acknowledged = applyAlertAction(alert, { type: 'acknowledge' }, minutesLater(10));
+    expect(tiersAt(acknowledged, 60)).toEqual(['field_technician']);
+    expect(getNextEscalation(acknowledged, policy, minutesLater(10))).toBeNull();
+  });
+
+  it('starts over when an acknowledged alert is reopened', () => {
+    const acknowledged = applyAlertAction(alert, { type: 'acknowledge' }, minutesLater(10));
+    const resolved = applyAlertAction(acknowledged, { type: 'resolve', resolutionNotes: 'Flushed the line' }, minutesLater(30));
+    const reopened = applyAlertAction(resolved, { type: 'reopen' }, minutesLater(120));
+
+    expect(reopened).toMatchObject({ status: 'open', acknowledgedAt: null, resolvedAt: null });
+    expect(computeEscalations(reopened, policy, minutesLater(140))).toEqual([
+      { tier: 'field_technician', escalatedAt: minutesLater(120).toISOString(), policyId: policy.id },
+      { tier: 'block_officer', escalatedAt: minutesLater(135).toISOString(), policyId: policy.id },
+    ]);
+    expect(getNextEscalation(reopened, policy, minutesLater(140)))
+      .toEqual({ tier: 'district_health_officer', dueAt: minutesLater(165).toISOString() });
+  });
+});
@@ -0,0 +1,78 @@
+import type { Alert, AlertEscalation, EscalationPolicy, EscalationStep, EscalationTier, Location } from '@/services/api';
+import { findLocation } from '@/lib/locations';
+
+export const escalationTiers: EscalationTier[] = ['field_technician', 'block_officer', 'district_health_officer'];
+
+export const escalationTierLabels: Record<EscalationTier, string> = {
+  field_technician: 'Field technician',
+  block_officer: 'Block officer',
+  district_health_officer: 'District health officer',
+};
+
+export const defaultEscalationSteps: EscalationStep[] = [
+  { tier: 'field_technician', afterMinutes: 0 },
+  { tier: 'block_officer', afterMinutes: 15 },
+  { tier: 'district_health_officer', afterMinutes: 45 },
+];
+
+export const createDefaultPolicy = (district: string): EscalationPolicy => ({
+  id: `policy-${district.toLowerCase().replace(/\s+/g, '-')}`,
+  district,
+  severities: ['critical'],
+  steps: defaultEscalationSteps,
+  enabled: true,
+});
+
+export const getAlertDistrict = (alert: Alert, locations: Location[]) =>
+  findLocation(locations, alert.locationId)?.district ?? null;
+
+export const findEscalationPolicy = (policies: EscalationPolicy[], alert: Alert, locations: Location[]) => {
+  const district = getAlertDistrict(alert, locations);
+  return policies.find(policy => policy.district === district) ?? null;
+};
+
+const applies = (policy: EscalationPolicy | null, alert: Alert): policy is EscalationPolicy =>
+  Boolean(policy && policy.enabled && policy.severities.includes(alert.severity));
+
+const sortedSteps = (policy: EscalationPolicy) =>
+  [...policy.steps].sort((a, b) => a.afterMinutes - b.afterMinutes);
+
+// A reopened alert needs a response again, so its clock restarts.
+const dueAt = (alert: Alert, step: EscalationStep) =>
+  new Date(alert.reopenedAt ?? alert.timestamp).getTime() + step.afterMinutes * 60 * 1000;
+
+/**
+ * Returns the escalation steps that have fired for an alert by `now`.
+ * Acknowledging (or resolving) the alert stops further escalation, so only
+ * steps due before that moment are included. Reopening clears the
+ * acknowledgement and counts the steps again from the reopen. Pass a
+ * simulated `now` to try a policy out without waiting.
+ */
+export function computeEscalations(alert: Alert, policy: EscalationPolicy | null, now: Date): AlertEscalation[] {
+  if (!applies(policy, alert)) return [];
+
+  const stoppedAt = alert.acknowledgedAt ?? alert.resolvedAt;
+  const cutoff = Math.min(now.getTime(), stoppedAt ? new Date(stoppedAt).getTime() : Infinity);
+
+  return sortedSteps(policy)
+    .filter(step => dueAt(alert, step) <= cutoff)
+    .map(step => ({
+      tier: step.tier,
+      escalatedAt: new Date(dueAt(alert, step)).toISOString(),
+      policyId: policy.id,
+    }));
+}
+
+export function getNextEscalation(alert: Alert, policy: EscalationPolicy | null, now: Date) {
+  if (!applies(policy, alert) || alert.acknowledgedAt || alert.resolvedAt) return null;
+  const next = sortedSteps(policy).find(step => dueAt(alert, step) > now.getTime());
+  return next ? { tier: next.tier, dueAt: new Date(dueAt(alert, next)).toISOString() } : null;
+}
+
+export const getCurrentTier = (escalations: AlertEscalation[] | undefined) =>
+  escalations && escalations.length > 0 ? escalations[escalations.length - 1].tier : null;
+
+// Escalations recorded by the server win; alerts without a record show the
+// steps their district's policy implies at `now`.
+export const getAlertEscalations = (alert: Alert, policies: EscalationPolicy[], locations: Location[], now: Date) =>
+  alert.escalations ?? computeEscalations(alert, findEscalationPolicy(policies, alert, locations), now);
@@ -0,0 +1,209 @@
+import type { ParameterKey, Reading, ReadingAggregate, ThresholdRule } from '@/services/api';
+import { isSuspect, median } from '@/lib/anomalies';
+import { formatParameterValue, parameterRegistry } from '@/lib/parameters';
+import { getParameterLimits, isRuleBreached, ruleOperators, type ParameterLimits } from '@/lib/rules';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+export const forecastHorizons = [6, 12, 24, 48];
+
+// Fewer samples than this say too little about the trend to project it.
+const MIN_SAMPLES = 24;
+// Longer histories are resampled more coarsely to keep fitting quick.
+const MAX_SAMPLES = 1000;
+// Forecast points handed to the charts, however fine the sampling.
+const MAX_FORECAST_POINTS = 96;
+// Two-sided 95% prediction interval.
+const Z_95 = 1.96;
+
+// Smoothing parameters tried when fitting; the best one-step-ahead fit wins.
+const ALPHAS = [0.1, 0.2, 0.3, 0.5, 0.7, 0.9];
+const BETAS = [0.01, 0.05, 0.1, 0.2];
+// Damping flattens the trend further out, so a rising turbidity isn't
+// projected to rise forever.
+const PHIS = [0.9, 0.98];
+const GAMMAS = [0.05, 0.1, 0.3];
+
+export interface ForecastPoint {
+  timestamp: number;
+  value: number;
+  lower: number;
+  upper: number;
+}
+
+interface Sample {
+  time: number;
+  value: number;
+}
+
+interface Fit {
+  sse: number;
+  level: number;
+  trend: number;
+  season: number[];
+  alpha: number;
+  beta: number;
+  phi: number;
+}
+
+// Holt's damped trend method, with additive seasonality when `period` > 0.
+function fit(values: number[], period: number, alpha: number, beta: number, phi: number, gamma: number): Fit {
+  const seasonal = period > 0;
+  const firstSeason = seasonal ? values.slice(0, period) : values.slice(0, Math.min(values.length, 10));
+  const firstMean = firstSeason.reduce((sum, value) => sum + value, 0) / firstSeason.length;
+  let level = seasonal ? firstMean : values[0];
+  let trend = seasonal
+    ? (values.slice(period, 2 * period).reduce((sum, value) => sum + value, 0) / period - firstMean) / period
+    : (firstSeason[firstSeason.length - 1] - firstSeason[0]) / Math.max(1, firstSeason.length - 1);
+  const season = seasonal ? firstSeason.map(value => value - firstMean) : [];
+  let sse = 0;
+
+  values.forEach((value, t) => {
+    const s = seasonal ? season[t % period] : 0;
+    const error = value - (level + phi * trend + s);
+    sse += error ** 2;
+    const previousLevel = level;
+    level = alpha * (value - s) + (1 - alpha) * (level + phi * trend);
+    trend = beta * (level - previousLevel) + (1 - beta) * phi * trend;
+    if (seasonal) season[t % period] = gamma * (value - level) + (1 - gamma) * s;
+  });
+
+  return { sse, level, trend, season, alpha, beta, phi };
+}
+
+// Samples on an even grid, interpolating across gaps and uneven intervals.
+function resample(samples: Sample[], step: number) {
+  const values: number[] = [];
+  let j = 0;
+  for (let time = samples[0].time; time <= samples[samples.length - 1].time; time += step) {
+    while (j + 1 < samples.length && samples[j + 1].time <= time) j++;
+    const a = samples[j];
+    const b = samples[Math.min(j + 1, samples.length - 1)];
+    values.push(b.time === a.time ? a.value : a.value + ((b.value - a.value) * (time - a.time)) / (b.time - a.time));
+  }
+  return values;
+}
+
+/**
+ * Projects a series `horizonMs` past its last sample. The series is
+ * resampled to its usual interval and fitted with damped Holt smoothing,
+ * adding a daily season once there are two days to learn it from. The band
+ * is a 95% prediction interval that widens with distance.
+ */
+export function forecastSeries(samples: Sample[], horizonMs: number): ForecastPoint[] | null {
+  if (samples.length < MIN_SAMPLES) return null;
+  const sorted = [...samples].sort((a, b) => a.time - b.time);
+  const span = sorted[sorted.length - 1].time - sorted[0].time;
+  const usual = median(sorted.slice(1).map((sample, i) => sample.time - sorted[i].time));
+  if (!usual) return null;
+  const step = Math.max(usual, span / MAX_SAMPLES);
+  const values = resample(sorted, step);
+
+  const period = Math.round(DAY / step);
+  const seasonal = period >= 2 && values.length >= 2 * period;
+  let best: Fit | null = null;
+  for (const alpha of ALPHAS) {
+    for (const beta of BETAS) {
+      for (const phi of PHIS) {
+        for (const gamma of seasonal ? GAMMAS : [0]) {
+          const candidate = fit(values, seasonal ? period : 0, alpha, beta, phi, gamma);
+          if (!best || candidate.sse < best.sse) best = candidate;
+        }
+      }
+    }
+  }
+
+  const sigma = Math.sqrt(best.sse / Math.max(1, values.length - 3));
+  const steps = Math.ceil(horizonMs / step);
+  const stride = Math.ceil(steps / MAX_FORECAST_POINTS);
+  const last = sorted[sorted.length - 1].time;
+  const points: ForecastPoint[] = [];
+  let damping = 0;
+  let variance = 0;
+
+  for (let h = 1; h <= steps; h++) {
+    damping += best.phi ** h;
+    // Error variance grows with each step the smoothed level and trend carry forward.
+    variance += h === 1 ? 1 : (best.alpha * (1 + best.beta * (damping - best.phi ** h))) ** 2;
+    if (h % stride !== 0 && h !== steps) continue;
+    const s = seasonal ? best.season[(values.length + h - 1) % period] : 0;
+    const value = best.level + damping * best.trend + s;
+    const margin = Z_95 * sigma * Math.sqrt(variance);
+    points.push({ timestamp: last + h * step, value, lower: value - margin, upper: value + margin });
+  }
+  return points;
+}
+
+// Forecasts never go below zero for quantities that can't.
+const clampPoint = (parameter: ParameterKey, point: ForecastPoint): ForecastPoint => {
+  if (parameter === 'temperature') return point;
+  return { ...point, value: Math.max(0, point.value), lower: Math.max(0, point.lower), upper: Math.max(0, point.upper) };
+};
+
+/**
+ * Forecast for one parameter at one location, from raw readings or server
+ * buckets. Lab samples and suspect readings are left out of the history.
+ */
+export function forecastParameter(
+  rows: (Reading | ReadingAggregate)[],
+  parameter: ParameterKey,
+  locationId: string,
+  horizonMs: number,
+) {
+  const samples = rows
+    .filter(row => row.locationId === locationId)
+    .flatMap((row): Sample[] => {
+      if ('bucketStart' in row) {
+        const range = row.values[parameter];
+        return range ? [{ time: Date.parse(row.bucketStart), value: range.avg }] : [];
+      }
+      const value = row.values[parameter];
+      if (value === undefined || row.source === 'lab' || isSuspect(row, parameter)) return [];
+      return [{ time: Date.parse(row.timestamp), value }];
+    });
+  return forecastSeries(samples, horizonMs)?.map(point => clampPoint(parameter, point)) ?? null;
+}
+
+// The first forecast point past either limit, and the rule it breaks.
+export function findPredictedBreach(points: ForecastPoint[], limits: ParameterLimits) {
+  for (const point of points) {
+    const rule = [limits.lower, limits.upper].find(limit => limit && isRuleBreached(limit, point.value));
+    if (rule) return { rule, point };
+  }
+  return null;
+}
+
+// A limit a location's forecast is expected to cross, and when.
+export interface PredictedBreach {
+  locationId: string;
+  rule: ThresholdRule;
+  point: ForecastPoint;
+}
+
+export function describePredictedBreach({ rule, point }: PredictedBreach, now: Date = new Date()) {
+  const { label } = parameterRegistry[rule.parameter];
+  const limit = `${ruleOperators[rule.operator].label} ${formatParameterValue(rule.parameter, rule.threshold)}`;
+  const hours = Math.max(1, Math.round((point.timestamp - now.getTime()) / HOUR));
+  return `${label} forecast to go ${limit} within ${hours} h (${formatParameterValue(rule.parameter, point.value)})`;
+}
+
+/**
+ * The limits each location's forecast crosses. A parameter already out of
+ * range has a real breach to deal with, so it isn't predicted. Predicted
+ * breach alerts are raised by the server like any other alert; these only
+ * preview what the charted forecasts cross.
+ */
+export function predictBreaches(
+  forecasts: { locationId: string; parameter: ParameterKey; points: ForecastPoint[]; latest: number | undefined }[],
+  rules: ThresholdRule[],
+): PredictedBreach[] {
+  return forecasts.flatMap(({ locationId, parameter, points, latest }) => {
+    const limits = getParameterLimits(rules, parameter, locationId);
+    if (latest === undefined || [limits.lower, limits.upper].some(limit => limit && isRuleBreached(limit, latest))) {
+      return [];
+    }
+    const breach = findPredictedBreach(points, limits);
+    return breach ? [{ locationId, ...breach }] : [];
+  });
+}
@@ -0,0 +1,162 @@
+import { describe, expect, it } from 'vitest';
+import type { Location } from '@/services/api';
+import {
+  guessDateFormat,
+  guessMapping,
+  matchLocationValues,
+  mappingProblem,
+  parseImportDate,
+  validateRows,
+} from '@/lib/imports';
+import { parseCsv } from '@/lib/spreadsheets';
+
+const locations: Location[] = [
+  { id: '1', village: 'Rampur', district: 'Hazaribagh', state: 'Jharkhand', latitude: 23.99, longitude: 85.36, status: 'active' },
+  { id: '2', village: 'Sonpur', district: 'Saran', state: 'Bihar', latitude: 25.7, longitude: 85.18, status: 'active' },
+];
+
+describe('parseImportDate', () => {
+  it('reads ISO timestamps whatever the chosen format', () => {
+    expect(parseImportDate('2024-03-15 14:30', 'dmy')).toEqual(new Date(2024, 2, 15, 14, 30));
+    expect(parseImportDate('2024-03-15', 'mdy')).toEqual(new Date(2024, 2, 15));
+    expect(parseImportDate('2024-03-15T14:30:00Z', 'excel')).toEqual(new Date(Date.UTC(2024, 2, 15, 14, 30)));
+  });
+
+  it('reads year-first dates with any separator', () => {
+    expect(parseImportDate('2024/3/5 7:05', 'iso')).toEqual(new Date(2024, 2, 5, 7, 5));
+  });
+
+  it('reads day-first dates, including two-digit years', () => {
+    expect(parseImportDate('15/03/2024 14:30', 'dmy')).toEqual(new Date(2024, 2, 15, 14, 30));
+    expect(parseImportDate('15.03.24', 'dmy')).toEqual(new Date(2024, 2, 15));
+  });
+
+  it('reads month-first dates with a 12-hour clock', () => {
+    expect(parseImportDate('03/15/2024 2:30 pm', 'mdy')).toEqual(new Date(2024, 2, 15, 14, 30));
+    expect(parseImportDate('12/01/2024 12:15 AM', 'mdy')).toEqual(new Date(2024, 11, 1, 0, 15));
+  });
+
+  it('reads spreadsheet serial numbers', () => {
+    expect(parseImportDate('45366.5', 'excel')).toEqual(new Date(2024, 2, 15, 12));
+    expect(parseImportDate('0', 'excel')).toBeNull();
+    expect(parseImportDate('', 'excel')).toBeNull();
+  });
+
+  it('rejects dates that do not exist rather than rolling them over', () => {
+    expect(parseImportDate('31/04/2024', 'dmy')).toBeNull();
+    expect(parseImportDate('15/03/2024 25:00', 'dmy')).toBeNull();
+    expect(parseImportDate('03/15/2024', 'dmy')).toBeNull();
+    expect(parseImportDate('last Tuesday', 'dmy')).toBeNull();
+  });
+});
+
+describe('guessDateFormat', () => {
+  it('picks the first format that reads every value, day-first before month-first', () => {
+    expect(guessDateFormat(['2024-03-15', '2024-03-16'])).toBe('iso');
+    expect(guessDateFormat(['01/02/2024', '15/03/2024'])).toBe('dmy');
+    expect(guessDateFormat(['01/02/2024', '03/15/2024'])).toBe('mdy');
+    expect(guessDateFormat(['45366.5', '45367'])).toBe('excel');
+  });
+});
+
+describe('guessMapping', () => {
+  const rows = [
+    ['Sample Date', 'Village', 'pH', 'Turbidity (NTU)', 'Conductivity (mS/cm)', 'PH', 'Notes'],
+    ['15/03/2024 09:00', 'Rampur', '7.1', '2', '0.45', '7', 'ok'],
+    ['16/03/2024 09:00', 'sonpur', '7.3', '', '0.5', '', ''],
+    ['17/03/2024 09:00', 'Tap 4', '7.2', '1', '0.4', '', ''],
+  ];
+
+  it('maps columns from their headers and takes units from brackets', () => {
+    const mapping = guessMapping(rows, locations);
+    expect(mapping.columns).toEqual(['timestamp', 'location', 'ph', 'turbidity', 'conductivity', 'ignore', 'ignore']);
+    expect(mapping.units).toEqual({ ph: '', turbidity: ' NTU', conductivity: ' mS/cm' });
+    expect(mapping.dateFormat).toBe('dmy');
+    expect(mapping.source).toBe('lab');
+  });
+
+  it('matches location values by name and leaves unknown ones for the user', () => {
+    const mapping = guessMapping(rows, locations);
+    expect(mapping.defaultLocationId).toBeNull();
+    expect(mapping.locationValues).toEqual({ Rampur: '1', sonpur: '2' });
+  });
+
+  it('matches location names with or without the state', () => {
+    expect(matchLocationValues(['Rampur, Hazaribagh', 'Sonpur, Saran, Bihar', 'Sonpur, Bihar'], locations))
+      .toEqual({ 'Rampur, Hazaribagh': '1', 'Sonpur, Saran, Bihar': '2' });
+  });
+
+  it('puts every row at the first location when no column holds one', () => {
+    const mapping = guessMapping([['Date', 'pH'], ['2024-03-15', '7']], locations);
+    expect(mapping.defaultLocationId).toBe('1');
+    expect(mapping.dateFormat).toBe('iso');
+    expect(mappingProblem(mapping)).toBeNull();
+  });
+
+  it('explains what is missing before rows can be read', () => {
+    expect(mappingProblem(guessMapping([['pH'], ['7']], locations))).toBe('Choose the column that holds the date and time');
+    expect(mappingProblem(guessMapping([['Date', 'Notes'], ['2024-03-15', 'ok']], locations)))
+      .toBe('Map at least one column to a parameter');
+  });
+});
+
+describe('validateRows', () => {
+  const csv = [
+    'Date,Site,pH,Conductivity',
+    '15/03/2024 09:00,Rampur,7.1,"0,45"',
+    '',
+    '16/03/2024 09:00,Rampur,7.2,',
+    '31/04/2024 09:00,Rampur,7.0,',
+    '15/03/2024 09:00,Rampur,7.4,',
+    '17/03/2024 09:00,Nowhere,7,',
+    '18/03/2024 09:00,Rampur,15,',
+    '19/03/2024 09:00,"Rampur",seven,',
+    '20/03/2024 09:00,Rampur,,',
+    ',Rampur,7,',
+    '01/01/2030 00:00,Rampur,7,',
+    '21/03/2024 09:00,Rampur,7.3,"0,5',
+    'with a stray line break"',
+    '22/03/2024 09:00,,7.3,',
+  ].join('\n');
+  const sheet = parseCsv(csv);
+  const mapping = {
+    ...guessMapping(sheet.rows, locations),
+    units: { ph: '', conductivity: ' mS/cm' },
+  };
+  const now = new Date(2024, 5, 1);
+  const validated = validateRows(sheet, mapping, now);
+  const errorsByLine = Object.fromEntries(validated.map(row => [row.line, row.errors]));
+
+  it('turns good rows into readings in registry units', () => {
+    const [first] = validated;
+    expect(first.line).toBe(2);
+    expect(first.errors).toEqual([]);
+    expect(first.reading).toEqual({
+      locationId: '1',
+      timestamp: new Date(2024, 2, 15, 9).toISOString(),
+      values: { ph: 7.1, conductivity: expect.closeTo(450) },
+      source: 'lab',
+    });
+  });
+
+  it('reports each row against its line in the file', () => {
+    expect(errorsByLine).toEqual({
+      2: [],
+      4: [],
+      5: ['Can\'t read date "31/04/2024 09:00" as day first'],
+      6: ['Duplicate of line 2'],
+      7: ['Unknown location "Nowhere"'],
+      8: ['pH 15 is not a possible value'],
+      9: ['pH "seven" is not a number'],
+      10: ['No parameter values'],
+      11: ['Missing date'],
+      12: ['Date is in the future'],
+      13: ['Conductivity "0,5\nwith a stray line break" is not a number'],
+      15: ['Missing location'],
+    });
+  });
+
+  it('only gives readings for rows without errors', () => {
+    expect(validated.filter(row => row.reading).map(row => row.line)).toEqual([2, 4]);
+  });
+});
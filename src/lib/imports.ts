@@ -0,0 +1,256 @@
+import type { Location, ParameterKey, ParameterValues, Reading, ReadingSource } from '@/services/api';
+import { formatLocationName, formatShortLocationName } from '@/lib/locations';
+import {
+  isPlausibleValue,
+  parameterKeys,
+  parameterRegistry,
+  parameterUnits,
+  toBaseUnit,
+} from '@/lib/parameters';
+import { excelSerialToIso, type Sheet, type SheetRows } from '@/lib/spreadsheets';
+
+// Mapping and validation of spreadsheet rows for the readings import. The
+// first row of a sheet is always its header.
+
+export type DateFormat = 'iso' | 'dmy' | 'mdy' | 'excel';
+
+export const dateFormats: Record<DateFormat, { label: string; example: string }> = {
+  iso: { label: 'Year first', example: '2024-03-15 14:30' },
+  dmy: { label: 'Day first', example: '15/03/2024 14:30' },
+  mdy: { label: 'Month first', example: '03/15/2024 14:30' },
+  excel: { label: 'Spreadsheet serial number', example: '45366.6042' },
+};
+
+// What a column holds; anything not mapped is ignored.
+export type ColumnTarget = 'ignore' | 'timestamp' | 'location' | ParameterKey;
+
+export interface ImportMapping {
+  columns: ColumnTarget[];
+  // Unit each parameter column is given in, from `parameterUnits`.
+  units: Partial<Record<ParameterKey, string>>;
+  dateFormat: DateFormat;
+  // The location of every row when no column holds it.
+  defaultLocationId: string | null;
+  // Location column values, as written in the sheet, to location ids.
+  locationValues: Record<string, string>;
+  source: ReadingSource;
+}
+
+export type ImportedReading = Omit<Reading, 'id' | 'flags'>;
+
+export interface ImportRow {
+  // Line in the file, or row of the worksheet, the row starts on.
+  line: number;
+  reading: ImportedReading | null;
+  errors: string[];
+}
+
+// Readings sent to the server per request.
+export const IMPORT_BATCH_SIZE = 500;
+
+const normalize = (text: string) => text.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const TIMESTAMP_HEADERS = ['timestamp', 'datetime', 'date', 'time', 'sampledate', 'collected'];
+const LOCATION_HEADERS = ['location', 'locationid', 'site', 'station', 'village', 'samplingpoint'];
+
+// A column named after a parameter's key, label or unit-suffixed title.
+const parameterForHeader = (header: string): ParameterKey | null => {
+  const name = normalize(header.replace(/\(.*\)|\[.*\]/g, ''));
+  return parameterKeys.find(key =>
+    normalize(key) === name || normalize(parameterRegistry[key].label) === name) ?? null;
+};
+
+// A header's unit in brackets, e.g. "Conductivity (mS/cm)", if it's a known one.
+const unitForHeader = (header: string, parameter: ParameterKey) => {
+  const written = header.match(/[([]\s*(.+?)\s*[)\]]/)?.[1];
+  const unit = written && parameterUnits(parameter).find(u => normalize(u.unit) === normalize(written));
+  return (unit || parameterUnits(parameter)[0]).unit;
+};
+
+/**
+ * Matches location column values to locations by id, village, or name with
+ * or without the state. Values that match nothing are left out for the user
+ * to map.
+ */
+export function matchLocationValues(values: string[], locations: Location[]) {
+  const matched: Record<string, string> = {};
+  values.forEach((value) => {
+    const name = normalize(value);
+    const location = locations.find(l =>
+      l.id === value.trim()
+      || normalize(l.village) === name
+      || normalize(formatShortLocationName(l)) === name
+      || normalize(formatLocationName(l)) === name);
+    if (location) matched[value] = location.id;
+  });
+  return matched;
+}
+
+export const distinctColumnValues = (rows: SheetRows, column: number) =>
+  [...new Set(rows.slice(1).map(row => (row[column] ?? '').trim()).filter(Boolean))];
+
+const DATE_PATTERN = /^(\d{1,4})[/.-](\d{1,2})[/.-](\d{1,4})(?:[ T,]+(\d{1,2}):(\d{2})(?::(\d{2}))?\s*(am|pm)?)?$/i;
+
+/**
+ * Parses a cell in the chosen format. ISO timestamps, which is what XLSX date
+ * cells become, are accepted whatever the format. Times without a zone are local.
+ */
+export function parseImportDate(text: string, format: DateFormat): Date | null {
+  const value = text.trim();
+  if (/^\d{4}-\d{2}-\d{2}([ T]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/.test(value)) {
+    const date = new Date(value.length === 10 ? `${value}T00:00` : value.replace(' ', 'T'));
+    return Number.isNaN(date.getTime()) ? null : date;
+  }
+  if (format === 'excel') {
+    const serial = Number(value);
+    return value && Number.isFinite(serial) && serial > 0 ? new Date(excelSerialToIso(serial)) : null;
+  }
+
+  const match = value.match(DATE_PATTERN);
+  if (!match) return null;
+  const [, first, second, third, hours = '0', minutes = '0', seconds = '0', meridiem] = match;
+  const [year, month, day] = format === 'iso'
+    ? [first, second, third]
+    : format === 'dmy' ? [third, second, first] : [third, first, second];
+  const fullYear = year.length === 2 ? 2000 + Number(year) : Number(year);
+  let hour = Number(hours);
+  if (meridiem) hour = (hour % 12) + (meridiem.toLowerCase() === 'pm' ? 12 : 0);
+
+  const date = new Date(fullYear, Number(month) - 1, Number(day), hour, Number(minutes), Number(seconds));
+  // Rejects day 31 of a 30-day month and the like, which Date would roll over.
+  return date.getMonth() === Number(month) - 1 && date.getDate() === Number(day) && hour < 24 ? date : null;
+}
+
+// The first format that reads every sampled value, preferring day-first as the labs do.
+export function guessDateFormat(values: string[]): DateFormat {
+  const sample = values.slice(0, 50);
+  const formats: DateFormat[] = ['iso', 'dmy', 'mdy', 'excel'];
+  return formats.find(format => sample.every(value => parseImportDate(value, format))) ?? 'dmy';
+}
+
+/**
+ * A first guess at the mapping from the header names and the values below
+ * them, for the user to correct.
+ */
+export function guessMapping(rows: SheetRows, locations: Location[]): ImportMapping {
+  const header = rows[0] ?? [];
+  const taken = new Set<ColumnTarget>();
+  const columns = header.map((name): ColumnTarget => {
+    const normalized = normalize(name);
+    const target: ColumnTarget = TIMESTAMP_HEADERS.includes(normalized)
+      ? 'timestamp'
+      : LOCATION_HEADERS.includes(normalized) ? 'location' : parameterForHeader(name) ?? 'ignore';
+    if (target === 'ignore' || taken.has(target)) return 'ignore';
+    taken.add(target);
+    return target;
+  });
+
+  const units: ImportMapping['units'] = {};
+  columns.forEach((target, index) => {
+    if (target in parameterRegistry) {
+      const parameter = target as ParameterKey;
+      units[parameter] = unitForHeader(header[index], parameter);
+    }
+  });
+
+  const timestampColumn = columns.indexOf('timestamp');
+  const locationColumn = columns.indexOf('location');
+  return {
+    columns,
+    units,
+    dateFormat: timestampColumn === -1 ? 'dmy' : guessDateFormat(distinctColumnValues(rows, timestampColumn)),
+    defaultLocationId: locationColumn === -1 ? locations[0]?.id ?? null : null,
+    locationValues: locationColumn === -1 ? {} : matchLocationValues(distinctColumnValues(rows, locationColumn), locations),
+    source: 'lab',
+  };
+}
+
+// Anything that stops the rows being read at all, rather than a bad row.
+export function mappingProblem(mapping: ImportMapping) {
+  if (!mapping.columns.includes('timestamp')) return 'Choose the column that holds the date and time';
+  if (!mapping.columns.includes('location') && !mapping.defaultLocationId) {
+    return 'Choose a location column, or the location every row belongs to';
+  }
+  if (!mapping.columns.some(target => target in parameterRegistry)) return 'Map at least one column to a parameter';
+  return null;
+}
+
+// Numbers may use a decimal comma, as semicolon-separated exports often do.
+const parseNumber = (text: string) => {
+  const value = text.trim().replace(/^(-?\d+),(\d+)$/, '$1.$2');
+  return value === '' || !Number.isFinite(Number(value)) ? null : Number(value);
+};
+
+/**
+ * Turns every data row into a reading or a list of reasons it can't be one.
+ * Empty cells are treated as not measured; a row repeating an earlier row's
+ * location and time is rejected as a duplicate.
+ */
+export function validateRows({ rows, lines }: Sheet, mapping: ImportMapping, now: Date = new Date()): ImportRow[] {
+  const timestampColumn = mapping.columns.indexOf('timestamp');
+  const locationColumn = mapping.columns.indexOf('location');
+  const seen = new Map<string, number>();
+
+  return rows.slice(1).map((cells, index) => {
+    const line = lines[index + 1];
+    const errors: string[] = [];
+    const cell = (column: number) => (cells[column] ?? '').trim();
+
+    const timeText = cell(timestampColumn);
+    const timestamp = timeText ? parseImportDate(timeText, mapping.dateFormat) : null;
+    if (!timeText) errors.push('Missing date');
+    else if (!timestamp) errors.push(`Can't read date "${timeText}" as ${dateFormats[mapping.dateFormat].label.toLowerCase()}`);
+    else if (timestamp > now) errors.push('Date is in the future');
+
+    let locationId = mapping.defaultLocationId;
+    if (locationColumn !== -1) {
+      const locationText = cell(locationColumn);
+      locationId = mapping.locationValues[locationText] ?? null;
+      if (!locationText) errors.push('Missing location');
+      else if (!locationId) errors.push(`Unknown location "${locationText}"`);
+    }
+
+    const values: ParameterValues = {};
+    mapping.columns.forEach((target, column) => {
+      if (!(target in parameterRegistry)) return;
+      const parameter = target as ParameterKey;
+      const text = cell(column);
+      if (!text) return;
+      const number = parseNumber(text);
+      const { label } = parameterRegistry[parameter];
+      if (number === null) {
+        errors.push(`${label} "${text}" is not a number`);
+        return;
+      }
+      const value = toBaseUnit(parameter, mapping.units[parameter] ?? parameterRegistry[parameter].unit, number);
+      if (!isPlausibleValue(parameter, value)) errors.push(`${label} ${text} is not a possible value`);
+      else values[parameter] = value;
+    });
+    if (Object.keys(values).length === 0 && errors.length === 0) errors.push('No parameter values');
+
+    if (timestamp && locationId) {
+      const key = `${locationId}@${timestamp.getTime()}`;
+      if (seen.has(key)) errors.push(`Duplicate of line ${seen.get(key)}`);
+      else seen.set(key, line);
+    }
+
+    return {
+      line,
+      errors,
+      reading: errors.length > 0 ? null : {
+        locationId,
+        timestamp: timestamp.toISOString(),
+        values,
+        source: mapping.source,
+      },
+    };
+  });
+}
+
+export function batches<T>(items: T[], size: number = IMPORT_BATCH_SIZE): T[][] {
+  const result: T[][] = [];
+  for (let start = 0; start < items.length; start += size) {
+    result.push(items.slice(start, start + size));
+  }
+  return result;
+}
@@ -0,0 +1,86 @@
+import type { Alert, AlertStatus, Incident } from '@/services/api';
+
+// Alerts for the same location and parameter that arrive within this gap of
+// each other belong to the same incident.
+export const INCIDENT_WINDOW_MINUTES = 120;
+
+// Most severe first.
+export const severityRank: Record<Alert['severity'], number> = { critical: 0, warning: 1, info: 2 };
+
+const time = (alert: Alert) => new Date(alert.timestamp).getTime();
+
+const incidentKey = (alert: Alert) => `${alert.locationId}|${alert.parameter ?? 'other'}`;
+
+// An incident is open while any member is, and resolved only once all are.
+const incidentStatus = (alerts: Alert[]): AlertStatus => {
+  if (alerts.some(a => a.status === 'open')) return 'open';
+  if (alerts.some(a => a.status === 'acknowledged')) return 'acknowledged';
+  return 'resolved';
+};
+
+function buildIncident(alerts: Alert[]): Incident {
+  const first = alerts[0];
+  const last = alerts[alerts.length - 1];
+  const worst = alerts.reduce((w, a) => (severityRank[a.severity] < severityRank[w.severity] ? a : w), first);
+
+  return {
+    id: `incident-${first.id}`,
+    locationId: first.locationId,
+    parameter: first.parameter ?? null,
+    // Newest first, matching the alert list.
+    alerts: [...alerts].reverse(),
+    firstSeen: first.timestamp,
+    lastSeen: last.timestamp,
+    severity: worst.severity,
+    status: incidentStatus(alerts),
+  };
+}
+
+/**
+ * Groups alerts into incidents by location, parameter and time window.
+ * Incidents are ordered by where their first member appears in `alerts`, so
+ * a sorted alert list yields incidents sorted the same way.
+ */
+export function groupIntoIncidents(alerts: Alert[], windowMinutes: number = INCIDENT_WINDOW_MINUTES): Incident[] {
+  const windowMs = windowMinutes * 60 * 1000;
+  const groups = new Map<string, Alert[][]>();
+
+  [...alerts].sort((a, b) => time(a) - time(b)).forEach((alert) => {
+    const key = incidentKey(alert);
+    const runs = groups.get(key) ?? [];
+    const current = runs[runs.length - 1];
+    if (current && time(alert) - time(current[current.length - 1]) <= windowMs) {
+      current.push(alert);
+    } else {
+      runs.push([alert]);
+    }
+    groups.set(key, runs);
+  });
+
+  const incidentByAlert = new Map<string, Incident>();
+  for (const runs of groups.values()) {
+    for (const run of runs) {
+      const incident = buildIncident(run);
+      run.forEach(alert => incidentByAlert.set(alert.id, incident));
+    }
+  }
+
+  const ordered: Incident[] = [];
+  const seen = new Set<string>();
+  alerts.forEach((alert) => {
+    const incident = incidentByAlert.get(alert.id);
+    if (incident && !seen.has(incident.id)) {
+      seen.add(incident.id);
+      ordered.push(incident);
+    }
+  });
+  return ordered;
+}
+
+export function countOpenIncidents(incidents: Incident[]) {
+  const counts: Record<Alert['severity'], number> = { critical: 0, warning: 0, info: 0 };
+  incidents.forEach((incident) => {
+    if (incident.status !== 'resolved') counts[incident.severity] += 1;
+  });
+  return counts;
+}
@@ -0,0 +1,22 @@
+import type { Location } from '@/services/api';
+
+export const formatLocationName = (location: Location) =>
+  `${location.village}, ${location.district}, ${location.state}`;
+
+// For chart legends and cards where the state doesn't fit.
+export const formatShortLocationName = (location: Location) => `${location.village}, ${location.district}`;
+
+export const findLocation = (locations: Location[], locationId: string | null | undefined) =>
+  locations.find(location => location.id === locationId) ?? null;
+
+// Records can outlive the location they point at, or arrive before the
+// location list has loaded.
+export const getLocationName = (locations: Location[], locationId: string | null | undefined) => {
+  const location = findLocation(locations, locationId);
+  return location ? formatLocationName(location) : 'Unknown location';
+};
+
+export const getShortLocationName = (locations: Location[], locationId: string | null | undefined) => {
+  const location = findLocation(locations, locationId);
+  return location ? formatShortLocationName(location) : 'Unknown location';
+};
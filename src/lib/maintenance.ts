@@ -0,0 +1,53 @@
+import type { Alert, MaintenanceWindow } from '@/services/api';
+
+const time = (value: string) => new Date(value).getTime();
+
+export const isWindowActive = (window: MaintenanceWindow, now: Date = new Date()) =>
+  time(window.start) <= now.getTime() && now.getTime() < time(window.end);
+
+export const getActiveWindows = (windows: MaintenanceWindow[], locationId: string, now: Date = new Date()) =>
+  windows.filter(window => window.locationId === locationId && isWindowActive(window, now));
+
+const coversParameter = (window: MaintenanceWindow, alert: Alert) =>
+  window.parameters.length === 0 || (alert.parameter != null && window.parameters.includes(alert.parameter));
+
+// The window, if any, that was in effect for the alert's location and parameter when it was raised.
+export function findMaintenanceWindow(alert: Alert, windows: MaintenanceWindow[]) {
+  return windows.find(window =>
+    window.locationId === alert.locationId
+    && isWindowActive(window, new Date(alert.timestamp))
+    && coversParameter(window, alert)) ?? null;
+}
+
+/**
+ * Drops alerts covered by a suppressing window and marks the rest of the
+ * covered alerts with the window they were raised in.
+ */
+export function applyMaintenanceWindows(alerts: Alert[], windows: MaintenanceWindow[]): Alert[] {
+  return alerts.flatMap((alert) => {
+    const window = findMaintenanceWindow(alert, windows);
+    if (!window) return [alert];
+    if (window.mode === 'suppress') return [];
+    return [{ ...alert, maintenanceWindowId: window.id }];
+  });
+}
+
+// Every calendar day touched by the window, for highlighting in a date picker.
+export function getWindowDays(window: MaintenanceWindow) {
+  const days: Date[] = [];
+  const day = new Date(window.start);
+  day.setHours(0, 0, 0, 0);
+  while (day.getTime() < time(window.end)) {
+    days.push(new Date(day));
+    day.setDate(day.getDate() + 1);
+  }
+  return days;
+}
+
+export const overlapsDay = (window: MaintenanceWindow, day: Date) => {
+  const start = new Date(day);
+  start.setHours(0, 0, 0, 0);
+  const end = new Date(start);
+  end.setDate(end.getDate() + 1);
+  return time(window.start) < end.getTime() && time(window.end) > start.getTime();
+};
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import type { Alert, NotificationChannel, NotificationDelivery } from '@/services/api';
+import { MAX_DELIVERY_ATTEMPTS, channelAdapters, channelMatches, recordAttempt } from '@/lib/notifications';
+
+const alert: Alert = {
+  id: 'alert-1',
+  type: 'critical',
+  severity: 'critical',
+  message: 'pH low (5.9)',
+  locationId: '1',
+  timestamp: '2024-03-15T09:00:00.000Z',
+  status: 'open',
+};
+
+const channel: NotificationChannel = {
+  id: 'channel-1',
+  name: 'District officers',
+  type: 'email',
+  enabled: true,
+  severities: ['critical'],
+  locationIds: [],
+  config: { recipients: 'officer@example.org', smtpHost: 'smtp.example.org', from: 'alerts@example.org' },
+};
+
+const delivery: NotificationDelivery = {
+  id: 'delivery-1',
+  alertId: alert.id,
+  channelId: channel.id,
+  channelName: channel.name,
+  channelType: channel.type,
+  status: 'pending',
+  attempts: 0,
+};
+
+const now = new Date('2024-03-15T09:00:00.000Z');
+
+describe('channelMatches', () => {
+  it('takes enabled channels subscribed to the severity and location', () => {
+    expect(channelMatches(channel, alert)).toBe(true);
+    expect(channelMatches({ ...channel, locationIds: ['1', '2'] }, alert)).toBe(true);
+    expect(channelMatches({ ...channel, enabled: false }, alert)).toBe(false);
+    expect(channelMatches({ ...channel, severities: ['warning'] }, alert)).toBe(false);
+    expect(channelMatches({ ...channel, locationIds: ['2'] }, alert)).toBe(false);
+  });
+});
+
+describe('recordAttempt', () => {
+  it('marks a success as sent', () => {
+    expect(recordAttempt(delivery, null, now)).toMatchObject({
+      status: 'sent',
+      attempts: 1,
+      lastAttemptAt: now.toISOString(),
+      nextRetryAt: null,
+      error: null,
+    });
+  });
+
+  it('backs off between retries and fails for good after the last attempt', () => {
+    let current = delivery;
+    const waits: number[] = [];
+    for (let attempt = 1; attempt < MAX_DELIVERY_ATTEMPTS; attempt++) {
+      current = recordAttempt(current, 'Connection refused', now);
+      expect(current.status).toBe('retrying');
+      waits.push((new Date(current.nextRetryAt).getTime() - now.getTime()) / 60000);
+    }
+    expect(waits).toEqual([1, 5, 15, 60]);
+
+    expect(recordAttempt(current, 'Connection refused', now)).toMatchObject({
+      status: 'failed',
+      attempts: MAX_DELIVERY_ATTEMPTS,
+      nextRetryAt: null,
+      error: 'Connection refused',
+    });
+  });
+});
+
+describe('channelAdapters', () => {
+  it('rejects settings the server could not deliver with', () => {
+    expect(channelAdapters.email.validate(channel.config)).toBeNull();
+    expect(channelAdapters.email.validate({ ...channel.config, recipients: 'officer' }))
+      .toBe('Recipients must be email addresses');
+    expect(channelAdapters.sms.validate({ numbers: '9800000000', gatewayUrl: 'https://sms.example.org' }))
+      .toMatch(/international format/);
+    expect(channelAdapters.webhook.validate({ url: 'ftp://hooks.example.org' }))
+      .toBe('Endpoint URL must be an http(s) URL');
+  });
+
+  it('keeps SMS messages to a single text', () => {
+    const message = channelAdapters.sms.formatMessage({ ...alert, message: 'x'.repeat(200) }, 'Hazaribagh');
+    expect(message).toHaveLength(160);
+    expect(message.endsWith('…')).toBe(true);
+  });
+});
@@ -0,0 +1,162 @@
+import type {
+  Alert,
+  DeliveryStatus,
+  NotificationChannel,
+  NotificationChannelType,
+  NotificationDelivery,
+} from '@/services/api';
+
+export interface ChannelField {
+  key: string;
+  label: string;
+  placeholder: string;
+}
+
+/**
+ * Describes one kind of outbound channel: the settings it needs, how those
+ * are validated and what an alert looks like once sent through it. Delivery
+ * itself happens on the server, which uses the same message format.
+ */
+export interface ChannelAdapter {
+  label: string;
+  fields: ChannelField[];
+  validate: (config: Record<string, string>) => string | null;
+  formatMessage: (alert: Alert, locationName: string) => string;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const PHONE_PATTERN = /^\+[1-9]\d{7,14}$/;
+const SMS_MAX_LENGTH = 160;
+
+const splitList = (value: string | undefined) =>
+  (value ?? '').split(',').map(item => item.trim()).filter(Boolean);
+
+const isHttpUrl = (value: string | undefined) => {
+  try {
+    const url = new URL(value ?? '');
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch (error) {
+    return false;
+  }
+};
+
+export const channelAdapters: Record<NotificationChannelType, ChannelAdapter> = {
+  email: {
+    label: 'Email (SMTP)',
+    fields: [
+      { key: 'recipients', label: 'Recipients', placeholder: 'officer@example.org, team@example.org' },
+      { key: 'smtpHost', label: 'SMTP host', placeholder: 'smtp.example.org:587' },
+      { key: 'from', label: 'From address', placeholder: 'alerts@example.org' },
+    ],
+    validate: (config) => {
+      const recipients = splitList(config.recipients);
+      if (recipients.length === 0) return 'Add at least one recipient';
+      if (!recipients.every(r => EMAIL_PATTERN.test(r))) return 'Recipients must be email addresses';
+      if (!config.smtpHost?.trim()) return 'SMTP host is required';
+      if (!EMAIL_PATTERN.test(config.from ?? '')) return 'From must be an email address';
+      return null;
+    },
+    formatMessage: (alert, locationName) => [
+      `Subject: [${alert.severity.toUpperCase()}] ${alert.message}`,
+      '',
+      `Location: ${locationName}`,
+      `Raised: ${new Date(alert.timestamp).toLocaleString()}`,
+      `Status: ${alert.status}`,
+    ].join('\n'),
+  },
+  sms: {
+    label: 'SMS gateway',
+    fields: [
+      { key: 'numbers', label: 'Phone numbers', placeholder: '+919800000000, +919800000001' },
+      { key: 'gatewayUrl', label: 'Gateway URL', placeholder: 'https://sms.example.org/send' },
+      { key: 'senderId', label: 'Sender ID', placeholder: 'HLTHMN' },
+    ],
+    validate: (config) => {
+      const numbers = splitList(config.numbers);
+      if (numbers.length === 0) return 'Add at least one phone number';
+      if (!numbers.every(n => PHONE_PATTERN.test(n))) return 'Phone numbers must be in international format, e.g. +919800000000';
+      if (!isHttpUrl(config.gatewayUrl)) return 'Gateway URL must be an http(s) URL';
+      return null;
+    },
+    formatMessage: (alert, locationName) => {
+      const text = `${alert.severity.toUpperCase()}: ${alert.message} @ ${locationName}`;
+      return text.length > SMS_MAX_LENGTH ? `${text.slice(0, SMS_MAX_LENGTH - 1)}…` : text;
+    },
+  },
+  webhook: {
+    label: 'Webhook',
+    fields: [
+      { key: 'url', label: 'Endpoint URL', placeholder: 'https://hooks.example.org/alerts' },
+      { key: 'secret', label: 'Signing secret', placeholder: 'Optional' },
+    ],
+    validate: (config) => (isHttpUrl(config.url) ? null : 'Endpoint URL must be an http(s) URL'),
+    formatMessage: (alert, locationName) => JSON.stringify({
+      event: 'alert',
+      id: alert.id,
+      severity: alert.severity,
+      message: alert.message,
+      locationId: alert.locationId,
+      location: locationName,
+      timestamp: alert.timestamp,
+      status: alert.status,
+    }, null, 2),
+  },
+};
+
+export const deliveryStatusLabels: Record<DeliveryStatus, string> = {
+  pending: 'Pending',
+  sent: 'Sent',
+  retrying: 'Retrying',
+  failed: 'Failed',
+};
+
+export const getDeliveryStatusColor = (status: DeliveryStatus) => {
+  switch (status) {
+    case 'sent':
+      return 'border-status-success/40 text-status-success';
+    case 'retrying':
+    case 'pending':
+      return 'border-status-warning/40 text-status-warning';
+    case 'failed':
+      return 'border-status-critical/40 text-status-critical';
+    default:
+      return 'text-muted-foreground';
+  }
+};
+
+export const MAX_DELIVERY_ATTEMPTS = 5;
+
+// Minutes to wait before retry number `attempt` (1-based): 1, 5, 15, 60.
+const RETRY_DELAYS_MINUTES = [1, 5, 15, 60];
+
+export const getRetryDelayMinutes = (attempt: number) =>
+  RETRY_DELAYS_MINUTES[Math.min(Math.max(attempt, 1), RETRY_DELAYS_MINUTES.length) - 1];
+
+
+// Enabled, taking the alert's severity and covering its location.
+export const channelMatches = (channel: NotificationChannel, alert: Alert) =>
+  channel.enabled
+  && channel.severities.includes(alert.severity)
+  && (channel.locationIds.length === 0 || channel.locationIds.includes(alert.locationId));
+
+/**
+ * Records one attempt on a delivery, with `error` null for a success, the
+ * way the server does. Failed deliveries are retried on the
+ * `getRetryDelayMinutes` schedule until MAX_DELIVERY_ATTEMPTS, then fail for good.
+ */
+export function recordAttempt(delivery: NotificationDelivery, error: string | null, now: Date = new Date()): NotificationDelivery {
+  const attempts = delivery.attempts + 1;
+  const lastAttemptAt = now.toISOString();
+  if (error === null) {
+    return { ...delivery, status: 'sent', attempts, lastAttemptAt, nextRetryAt: null, error: null };
+  }
+  const exhausted = attempts >= MAX_DELIVERY_ATTEMPTS;
+  return {
+    ...delivery,
+    status: exhausted ? 'failed' : 'retrying',
+    attempts,
+    lastAttemptAt,
+    nextRetryAt: exhausted ? null : new Date(now.getTime() + getRetryDelayMinutes(attempts) * 60 * 1000).toISOString(),
+    error,
+  };
+}
@@ -0,0 +1,151 @@
+import type { ParameterKey, Reading, ReadingAggregate } from '@/services/api';
+
+export interface ParameterDefinition {
+  key: ParameterKey;
+  label: string;
+  // Appended to values as is, so it carries its own leading space where needed.
+  unit: string;
+  precision: number;
+  // Acceptable limits for drinking water (BIS 10500); either bound may be open.
+  safeRange: { min?: number; max?: number };
+  color: string;
+}
+
+// Every water-quality parameter the dashboard knows about, in display order.
+// Cards, charts, filters and rule editors are all generated from this list.
+export const parameterRegistry: Record<ParameterKey, ParameterDefinition> = {
+  ph: {
+    key: 'ph',
+    label: 'pH',
+    unit: '',
+    precision: 2,
+    safeRange: { min: 6.5, max: 8.5 },
+    color: 'hsl(var(--primary))',
+  },
+  turbidity: {
+    key: 'turbidity',
+    label: 'Turbidity',
+    unit: ' NTU',
+    precision: 1,
+    safeRange: { max: 5 },
+    color: 'hsl(var(--secondary))',
+  },
+  temperature: {
+    key: 'temperature',
+    label: 'Temperature',
+    unit: '°C',
+    precision: 1,
+    safeRange: { min: 20, max: 30 },
+    color: 'hsl(var(--accent))',
+  },
+  tds: {
+    key: 'tds',
+    label: 'Total Dissolved Solids',
+    unit: ' mg/L',
+    precision: 0,
+    safeRange: { max: 500 },
+    color: 'hsl(262 83% 58%)',
+  },
+  conductivity: {
+    key: 'conductivity',
+    label: 'Conductivity',
+    unit: ' µS/cm',
+    precision: 0,
+    safeRange: { max: 750 },
+    color: 'hsl(25 95% 53%)',
+  },
+  dissolved_oxygen: {
+    key: 'dissolved_oxygen',
+    label: 'Dissolved Oxygen',
+    unit: ' mg/L',
+    precision: 1,
+    safeRange: { min: 5 },
+    color: 'hsl(173 80% 36%)',
+  },
+  residual_chlorine: {
+    key: 'residual_chlorine',
+    label: 'Residual Chlorine',
+    unit: ' mg/L',
+    precision: 2,
+    safeRange: { min: 0.2, max: 1 },
+    color: 'hsl(45 93% 47%)',
+  },
+  nitrate: {
+    key: 'nitrate',
+    label: 'Nitrate',
+    unit: ' mg/L',
+    precision: 1,
+    safeRange: { max: 45 },
+    color: 'hsl(292 70% 50%)',
+  },
+  fluoride: {
+    key: 'fluoride',
+    label: 'Fluoride',
+    unit: ' mg/L',
+    precision: 2,
+    safeRange: { max: 1 },
+    color: 'hsl(220 70% 40%)',
+  },
+  e_coli: {
+    key: 'e_coli',
+    label: 'E. coli',
+    unit: ' CFU/100 mL',
+    precision: 0,
+    safeRange: { max: 0 },
+    color: 'hsl(340 75% 45%)',
+  },
+};
+
+export const parameterKeys = Object.keys(parameterRegistry) as ParameterKey[];
+
+// Other units lab reports and spreadsheets give values in, with the
+// conversion to the registry unit. Values are always stored in registry units.
+export interface ParameterUnit {
+  unit: string;
+  toBase: (value: number) => number;
+}
+
+const alternateUnits: Partial<Record<ParameterKey, ParameterUnit[]>> = {
+  temperature: [{ unit: '°F', toBase: value => ((value - 32) * 5) / 9 }],
+  tds: [{ unit: ' ppm', toBase: value => value }],
+  conductivity: [{ unit: ' mS/cm', toBase: value => value * 1000 }],
+  // Nitrate reported as nitrogen weighs about 4.43 times less than as NO₃.
+  nitrate: [{ unit: ' mg/L as N', toBase: value => value * 4.427 }],
+  fluoride: [{ unit: ' ppm', toBase: value => value }],
+  e_coli: [{ unit: ' MPN/100 mL', toBase: value => value }],
+};
+
+// The registry unit first, then any alternatives.
+export const parameterUnits = (key: ParameterKey): ParameterUnit[] => [
+  { unit: parameterRegistry[key].unit, toBase: value => value },
+  ...(alternateUnits[key] ?? []),
+];
+
+export const toBaseUnit = (key: ParameterKey, unit: string, value: number) =>
+  (parameterUnits(key).find(u => u.unit === unit) ?? parameterUnits(key)[0]).toBase(value);
+
+// Catches typos, not bad water: pH has a fixed scale and nothing but
+// temperature goes negative. Takes a value in registry units.
+export const isPlausibleValue = (key: ParameterKey, value: number) =>
+  (key === 'ph' ? value >= 0 && value <= 14 : key === 'temperature' || value >= 0);
+
+export const formatParameterValue = (key: ParameterKey, value: number) => {
+  const { precision, unit } = parameterRegistry[key];
+  return `${value.toFixed(precision)}${unit}`;
+};
+
+// "Turbidity (NTU)" for legends and axis titles.
+export const parameterTitle = (key: ParameterKey) => {
+  const { label, unit } = parameterRegistry[key];
+  return unit.trim() ? `${label} (${unit.trim()})` : label;
+};
+
+export const roundParameterValue = (key: ParameterKey, value: number) =>
+  Number(value.toFixed(parameterRegistry[key].precision));
+
+// The parameters that actually occur in a set of readings, in registry order.
+export function presentParameters(rows: (Reading | ReadingAggregate)[]) {
+  const seen = new Set<string>();
+  rows.forEach(row => Object.keys(row.values).forEach(key => seen.add(key)));
+  return parameterKeys.filter(key => seen.has(key));
+}
@@ -0,0 +1,223 @@
+import type {
+  Device,
+  ParameterKey,
+  ParameterValues,
+  Reading,
+  ReadingAggregate,
+  ReadingSource,
+  ReadingsBucket,
+  ValueRange,
+} from '@/services/api';
+import { readingFlagLabels } from '@/lib/anomalies';
+import { parameterKeys } from '@/lib/parameters';
+
+export type TimeRangePreset = '1h' | '24h' | '7d' | '30d';
+export type TimeRange = TimeRangePreset | 'custom';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+export const timeRangePresets: Record<TimeRangePreset, { label: string; ms: number }> = {
+  '1h': { label: 'Last hour', ms: HOUR },
+  '24h': { label: 'Last 24 hours', ms: DAY },
+  '7d': { label: 'Last 7 days', ms: 7 * DAY },
+  '30d': { label: 'Last 30 days', ms: 30 * DAY },
+};
+
+export const readingsBuckets: Record<ReadingsBucket, { label: string; ms: number }> = {
+  '5m': { label: '5 minutes', ms: 5 * MINUTE },
+  '15m': { label: '15 minutes', ms: 15 * MINUTE },
+  '1h': { label: '1 hour', ms: HOUR },
+  '6h': { label: '6 hours', ms: 6 * HOUR },
+  '1d': { label: '1 day', ms: DAY },
+};
+
+// Up to a day of readings is fetched raw and thinned in the browser, which
+// keeps individual spikes; longer ranges are bucketed on the server.
+const RAW_RANGE_MS = DAY;
+
+// Aggregated charts use the finest bucket that keeps each series under this many points.
+const MAX_CHART_POINTS = 200;
+
+export function chooseBucket(from: Date, to: Date): ReadingsBucket | null {
+  const span = to.getTime() - from.getTime();
+  if (span <= RAW_RANGE_MS) return null;
+  const buckets = Object.keys(readingsBuckets) as ReadingsBucket[];
+  return buckets.find(bucket => span / readingsBuckets[bucket].ms <= MAX_CHART_POINTS) ?? '1d';
+}
+
+/**
+ * Turns a preset into absolute bounds ending at `now`. Custom ranges cover
+ * whole days and return null until a start day has been picked.
+ */
+export function resolveTimeRange(
+  range: TimeRange,
+  custom: { from?: Date; to?: Date } | undefined,
+  now: Date = new Date(),
+) {
+  if (range !== 'custom') {
+    return { from: new Date(now.getTime() - timeRangePresets[range].ms), to: now };
+  }
+  if (!custom?.from) return null;
+  const from = new Date(custom.from);
+  from.setHours(0, 0, 0, 0);
+  const to = new Date(custom.to ?? custom.from);
+  to.setHours(23, 59, 59, 999);
+  return { from, to };
+}
+
+const summarize = (values: number[]): ValueRange => ({
+  min: Math.min(...values),
+  avg: values.reduce((sum, value) => sum + value, 0) / values.length,
+  max: Math.max(...values),
+  count: values.length,
+});
+
+// Only parameters some member reported get a range.
+function summarizeValues(members: Reading[]) {
+  const values: Partial<Record<ParameterKey, ValueRange>> = {};
+  parameterKeys.forEach((key) => {
+    const reported = members.map(r => r.values[key]).filter((value): value is number => value !== undefined);
+    if (reported.length > 0) values[key] = summarize(reported);
+  });
+  return values;
+}
+
+// Client-side equivalent of the server's bucketing, used with the demo data
+// when the API is unreachable. Buckets are aligned to the epoch like the server's.
+export function aggregateReadings(
+  readings: Reading[],
+  bucket: ReadingsBucket,
+  locationId: string | null = null,
+): ReadingAggregate[] {
+  const size = readingsBuckets[bucket].ms;
+  const buckets = new Map<number, Reading[]>();
+
+  readings.forEach((reading) => {
+    const start = Math.floor(new Date(reading.timestamp).getTime() / size) * size;
+    const members = buckets.get(start) ?? [];
+    members.push(reading);
+    buckets.set(start, members);
+  });
+
+  return [...buckets.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([start, members]) => ({
+      bucketStart: new Date(start).toISOString(),
+      locationId,
+      count: members.length,
+      values: summarizeValues(members),
+    }));
+}
+
+/**
+ * The most recent value of each parameter, taken from raw readings or, for
+ * aggregated data, from the newest bucket's average.
+ */
+export function latestValues(rows: (Reading | ReadingAggregate)[]): ParameterValues {
+  const time = (row: Reading | ReadingAggregate) => new Date('bucketStart' in row ? row.bucketStart : row.timestamp).getTime();
+  const newestFirst = [...rows].sort((a, b) => time(b) - time(a));
+  const values: ParameterValues = {};
+  parameterKeys.forEach((key) => {
+    const row = newestFirst.find(r => r.values[key] !== undefined);
+    if (!row) return;
+    const value = row.values[key];
+    values[key] = typeof value === 'number' ? value : value.avg;
+  });
+  return values;
+}
+
+// One line of the readings table: a raw reading, or a bucket's averages.
+export interface ReadingsTableRow {
+  id: string;
+  timestamp: string;
+  // Null for buckets that cover every location.
+  locationId: string | null;
+  source: ReadingSource | null;
+  // Serial number of the device that took the reading, if known.
+  device: string | null;
+  // Readings in a bucket; null for raw readings.
+  count: number | null;
+  values: ParameterValues;
+  flags: string;
+}
+
+// Devices missing from the registry show by id rather than not at all.
+export const readingTableRows = (readings: Reading[], devices: Device[] = []): ReadingsTableRow[] => readings.map(reading => ({
+  id: reading.id,
+  timestamp: reading.timestamp,
+  locationId: reading.locationId,
+  source: reading.source ?? 'sensor',
+  device: reading.deviceId
+    ? devices.find(device => device.id === reading.deviceId)?.serialNumber ?? reading.deviceId
+    : null,
+  count: null,
+  values: reading.values,
+  flags: [...new Set((reading.flags ?? []).map(flag => readingFlagLabels[flag.type]))].join(', '),
+}));
+
+export const aggregateTableRows = (aggregates: ReadingAggregate[]): ReadingsTableRow[] =>
+  aggregates.map((aggregate) => {
+    const values: ParameterValues = {};
+    Object.entries(aggregate.values).forEach(([key, range]) => {
+      values[key as ParameterKey] = range.avg;
+    });
+    return {
+      id: `${aggregate.locationId ?? 'all'}-${aggregate.bucketStart}`,
+      timestamp: aggregate.bucketStart,
+      locationId: aggregate.locationId,
+      source: null,
+      device: null,
+      count: aggregate.count,
+      values,
+      flags: '',
+    };
+  });
+
+export type ReadingsTableColumn = 'time' | 'location' | 'source' | 'device' | 'count' | 'flags' | ParameterKey;
+
+/**
+ * Sorts a copy of the rows by one column. Rows without a value for the
+ * column go last whichever way the sort runs.
+ */
+export function sortTableRows(
+  rows: ReadingsTableRow[],
+  column: ReadingsTableColumn,
+  direction: 'asc' | 'desc',
+  locationName: (locationId: string | null) => string,
+) {
+  const valueOf = (row: ReadingsTableRow): string | number | null => {
+    switch (column) {
+      case 'time':
+        return Date.parse(row.timestamp);
+      case 'location':
+        return locationName(row.locationId);
+      case 'source':
+        return row.source;
+      case 'device':
+        return row.device;
+      case 'count':
+        return row.count;
+      case 'flags':
+        return row.flags || null;
+      default:
+        return row.values[column] ?? null;
+    }
+  };
+  const sign = direction === 'asc' ? 1 : -1;
+  return rows
+    .map(row => ({ row, value: valueOf(row) }))
+    .sort((a, b) => {
+      if (a.value === null || b.value === null) return a.value === b.value ? 0 : a.value === null ? 1 : -1;
+      if (typeof a.value === 'number' && typeof b.value === 'number') return (a.value - b.value) * sign;
+      return String(a.value).localeCompare(String(b.value)) * sign;
+    })
+    .map(({ row }) => row);
+}
+
+// Axis labels only need the date once a range spans more than a day.
+export const formatChartTime = (timestamp: string, spanMs: number) =>
+  new Date(timestamp).toLocaleString('en-US', spanMs > DAY
+    ? { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' }
+    : { hour: '2-digit', minute: '2-digit' });
@@ -0,0 +1,273 @@
+import type { Alert, ParameterKey, Reading, RuleOperator, ThresholdRule } from '@/services/api';
+import { isSuspect } from '@/lib/anomalies';
+import { formatParameterValue, parameterKeys, parameterRegistry } from '@/lib/parameters';
+
+export const ruleOperators: Record<RuleOperator, { label: string; symbol: string }> = {
+  gt: { label: 'above', symbol: '>' },
+  gte: { label: 'at or above', symbol: '≥' },
+  lt: { label: 'below', symbol: '<' },
+  lte: { label: 'at or below', symbol: '≤' },
+};
+
+// Mirrors the normal ranges the dashboard has always shown, so a fresh
+// install alerts on the same values operators are used to.
+const establishedRules: ThresholdRule[] = [
+  {
+    id: 'default-ph-low',
+    name: 'pH too acidic',
+    parameter: 'ph',
+    operator: 'lt',
+    threshold: 6.5,
+    durationMinutes: 0,
+    severity: 'critical',
+    locationId: null,
+    enabled: true,
+  },
+  {
+    id: 'default-ph-high',
+    name: 'pH too alkaline',
+    parameter: 'ph',
+    operator: 'gt',
+    threshold: 8.5,
+    durationMinutes: 0,
+    severity: 'critical',
+    locationId: null,
+    enabled: true,
+  },
+  {
+    id: 'default-turbidity',
+    name: 'High turbidity',
+    parameter: 'turbidity',
+    operator: 'gte',
+    threshold: 5,
+    durationMinutes: 0,
+    severity: 'warning',
+    locationId: null,
+    enabled: true,
+  },
+  {
+    id: 'default-temperature-low',
+    name: 'Low water temperature',
+    parameter: 'temperature',
+    operator: 'lt',
+    threshold: 20,
+    durationMinutes: 60,
+    severity: 'info',
+    locationId: null,
+    enabled: true,
+  },
+  {
+    id: 'default-temperature-high',
+    name: 'High water temperature',
+    parameter: 'temperature',
+    operator: 'gt',
+    threshold: 30,
+    durationMinutes: 60,
+    severity: 'warning',
+    locationId: null,
+    enabled: true,
+  },
+];
+
+// The remaining parameters start out alerting outside their registry safe range.
+const safeRangeRules = (parameter: ParameterKey): ThresholdRule[] => {
+  const { label, safeRange } = parameterRegistry[parameter];
+  const rule = { parameter, durationMinutes: 0, severity: 'warning' as const, locationId: null, enabled: true };
+  return [
+    ...(safeRange.min !== undefined
+      ? [{ ...rule, id: `default-${parameter}-low`, name: `Low ${label}`, operator: 'lt' as const, threshold: safeRange.min }]
+      : []),
+    ...(safeRange.max !== undefined
+      ? [{ ...rule, id: `default-${parameter}-high`, name: `High ${label}`, operator: 'gt' as const, threshold: safeRange.max }]
+      : []),
+  ];
+};
+
+export const defaultThresholdRules: ThresholdRule[] = [
+  ...establishedRules,
+  ...parameterKeys
+    .filter(parameter => !establishedRules.some(rule => rule.parameter === parameter))
+    .flatMap(safeRangeRules),
+];
+
+export const describeRule = (rule: ThresholdRule) => {
+  const { label } = parameterRegistry[rule.parameter];
+  const condition = `${label} ${ruleOperators[rule.operator].label} ${formatParameterValue(rule.parameter, rule.threshold)}`;
+  return rule.durationMinutes > 0 ? `${condition} for ${rule.durationMinutes} min` : condition;
+};
+
+export function isRuleBreached(rule: ThresholdRule, value: number) {
+  switch (rule.operator) {
+    case 'gt':
+      return value > rule.threshold;
+    case 'gte':
+      return value >= rule.threshold;
+    case 'lt':
+      return value < rule.threshold;
+    case 'lte':
+      return value <= rule.threshold;
+  }
+}
+
+// Readings that don't report the rule's parameter never breach it.
+export function isReadingBreached(rule: ThresholdRule, reading: Reading) {
+  const value = reading.values[rule.parameter];
+  return value !== undefined && isRuleBreached(rule, value);
+}
+
+export interface ParameterLimits {
+  lower: ThresholdRule | null;
+  upper: ThresholdRule | null;
+}
+
+/**
+ * The tightest enabled lower and upper limit on a parameter. For a location
+ * its own rules count alongside the global ones; without one, only global
+ * rules do.
+ */
+export function getParameterLimits(
+  rules: ThresholdRule[],
+  parameter: ParameterKey,
+  locationId: string | null = null,
+): ParameterLimits {
+  const applicable = rules.filter(rule =>
+    rule.enabled
+    && rule.parameter === parameter
+    && (!rule.locationId || rule.locationId === locationId));
+
+  return applicable.reduce<ParameterLimits>((limits, rule) => {
+    if (rule.operator === 'lt' || rule.operator === 'lte') {
+      return !limits.lower || rule.threshold > limits.lower.threshold ? { ...limits, lower: rule } : limits;
+    }
+    return !limits.upper || rule.threshold < limits.upper.threshold ? { ...limits, upper: rule } : limits;
+  }, { lower: null, upper: null });
+}
+
+export const isWithinLimits = (limits: ParameterLimits, value: number) =>
+  !(limits.lower && isRuleBreached(limits.lower, value)) && !(limits.upper && isRuleBreached(limits.upper, value));
+
+export function describeLimits(parameter: ParameterKey, { lower, upper }: ParameterLimits) {
+  if (lower && upper) {
+    return `${lower.threshold.toFixed(parameterRegistry[parameter].precision)}–${formatParameterValue(parameter, upper.threshold)}`;
+  }
+  if (upper) {
+    return `${upper.operator === 'gt' ? 'at most' : 'below'} ${formatParameterValue(parameter, upper.threshold)}`;
+  }
+  if (lower) {
+    return `${lower.operator === 'lt' ? 'at least' : 'above'} ${formatParameterValue(parameter, lower.threshold)}`;
+  }
+  return 'no limits set';
+}
+
+export function findNearestReading(readings: Reading[], timestamp: string) {
+  const time = new Date(timestamp).getTime();
+  const distance = (reading: Reading) => Math.abs(new Date(reading.timestamp).getTime() - time);
+  return readings.reduce<Reading | null>(
+    (best, reading) => (!best || distance(reading) < distance(best) ? reading : best),
+    null,
+  );
+}
+
+/**
+ * The rule whose threshold the alert crossed. Alerts raised by the rules
+ * engine carry the rule id; for older alerts the rules for the alert's
+ * parameter are narrowed down to the one the reading closest to the alert
+ * actually breaches.
+ */
+export function findAlertRule(alert: Alert, rules: ThresholdRule[], readings: Reading[] = []) {
+  const byId = alert.ruleId ? rules.find(rule => rule.id === alert.ruleId) : undefined;
+  if (byId) return byId;
+  if (!alert.parameter) return null;
+
+  // Rules at the alert's severity first, in case its severity was changed since.
+  const candidates = rules
+    .filter(rule => rule.parameter === alert.parameter)
+    .sort((a, b) => Number(b.severity === alert.severity) - Number(a.severity === alert.severity));
+  const nearest = findNearestReading(readings, alert.timestamp);
+
+  return (nearest && candidates.find(rule => isReadingBreached(rule, nearest)))
+    ?? candidates[0]
+    ?? null;
+}
+
+// The worst offending value is the one furthest past the threshold.
+const worstValue = (rule: ThresholdRule, values: number[]) =>
+  rule.operator === 'lt' || rule.operator === 'lte' ? Math.min(...values) : Math.max(...values);
+
+function buildAlert(rule: ThresholdRule, locationId: string, breach: Reading[], triggeredAt: Reading): Alert {
+  const values = breach.map(r => r.values[rule.parameter]);
+  const { label } = parameterRegistry[rule.parameter];
+  const worst = formatParameterValue(rule.parameter, worstValue(rule, values));
+  const limit = `${ruleOperators[rule.operator].label} ${formatParameterValue(rule.parameter, rule.threshold)}`;
+  const count = breach.length === 1 ? '1 reading' : `${breach.length} readings`;
+
+  return {
+    id: `rule-${rule.id}-${triggeredAt.id}`,
+    type: rule.severity,
+    severity: rule.severity,
+    message: `${label} ${limit} (worst ${worst} across ${count})`,
+    locationId,
+    timestamp: triggeredAt.timestamp,
+    status: 'open',
+    ruleId: rule.id,
+    parameter: rule.parameter,
+  };
+}
+
+/**
+ * Runs the enabled rules over the readings and returns one alert per breach,
+ * newest first. A breach is a run of consecutive readings at one location
+ * that all violate the rule and span at least the rule's duration. Readings
+ * without the rule's parameter, or flagged as suspect when the rule ignores
+ * those, are skipped rather than ending the run.
+ */
+export function evaluateRules(rules: ThresholdRule[], readings: Reading[]): Alert[] {
+  const byLocation = new Map<string, Reading[]>();
+  for (const reading of readings) {
+    const series = byLocation.get(reading.locationId) ?? [];
+    series.push(reading);
+    byLocation.set(reading.locationId, series);
+  }
+  for (const series of byLocation.values()) {
+    series.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+  }
+
+  const alerts: Alert[] = [];
+
+  for (const rule of rules) {
+    if (!rule.enabled) continue;
+    const durationMs = rule.durationMinutes * 60 * 1000;
+
+    for (const [locationId, series] of byLocation) {
+      if (rule.locationId && rule.locationId !== locationId) continue;
+
+      let breach: Reading[] = [];
+      let triggeredAt: Reading | null = null;
+
+      const closeBreach = () => {
+        if (triggeredAt) {
+          alerts.push(buildAlert(rule, locationId, breach, triggeredAt));
+        }
+        breach = [];
+        triggeredAt = null;
+      };
+
+      for (const reading of series) {
+        if (reading.values[rule.parameter] === undefined) continue;
+        if (rule.ignoreSuspect && isSuspect(reading, rule.parameter)) continue;
+        if (!isReadingBreached(rule, reading)) {
+          closeBreach();
+          continue;
+        }
+        breach.push(reading);
+        const elapsed = new Date(reading.timestamp).getTime() - new Date(breach[0].timestamp).getTime();
+        if (!triggeredAt && elapsed >= durationMs) {
+          triggeredAt = reading;
+        }
+      }
+      closeBreach();
+    }
+  }
+
+  return alerts.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+}
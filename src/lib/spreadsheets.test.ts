@@ -0,0 +1,200 @@
+import { deflateRawSync } from 'node:zlib';
+import { JSDOM } from 'jsdom';
+import { describe, expect, it } from 'vitest';
+import { excelSerialToIso, parseCsv, readXlsx, toCsv } from '@/lib/spreadsheets';
+
+// Node has the browser's zip inflation but not its XML parser.
+globalThis.DOMParser = new JSDOM().window.DOMParser;
+
+const MAIN = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const RELATIONSHIPS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+const crcTable = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (data: Uint8Array) =>
+  (data.reduce((crc, byte) => crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8), 0xffffffff) ^ 0xffffffff) >>> 0;
+
+/**
+ * A zip archive as spreadsheet apps write it. Deflated entries leave their
+ * sizes out of the local header, as streaming writers do, so only the
+ * central directory has them.
+ */
+function zip(files: Record<string, string>, stored: string[] = []) {
+  const encoder = new TextEncoder();
+  const local: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  Object.entries(files).forEach(([name, content]) => {
+    const nameBytes = encoder.encode(name);
+    const raw = encoder.encode(content);
+    const deflate = !stored.includes(name);
+    const data = deflate ? new Uint8Array(deflateRawSync(raw)) : raw;
+    const crc = crc32(raw);
+
+    const header = new DataView(new ArrayBuffer(30));
+    header.setUint32(0, 0x04034b50, true);
+    header.setUint16(4, 20, true);
+    header.setUint16(6, deflate ? 0x08 : 0, true);
+    header.setUint16(8, deflate ? 8 : 0, true);
+    header.setUint32(14, deflate ? 0 : crc, true);
+    header.setUint32(18, deflate ? 0 : data.length, true);
+    header.setUint32(22, deflate ? 0 : raw.length, true);
+    header.setUint16(26, nameBytes.length, true);
+    local.push(new Uint8Array(header.buffer), nameBytes, data);
+
+    const entry = new DataView(new ArrayBuffer(46));
+    entry.setUint32(0, 0x02014b50, true);
+    entry.setUint16(4, 20, true);
+    entry.setUint16(6, 20, true);
+    entry.setUint16(8, deflate ? 0x08 : 0, true);
+    entry.setUint16(10, deflate ? 8 : 0, true);
+    entry.setUint32(16, crc, true);
+    entry.setUint32(20, data.length, true);
+    entry.setUint32(24, raw.length, true);
+    entry.setUint16(28, nameBytes.length, true);
+    entry.setUint32(42, offset, true);
+    central.push(new Uint8Array(entry.buffer), nameBytes);
+
+    offset += 30 + nameBytes.length + data.length;
+  });
+
+  const centralSize = central.reduce((size, part) => size + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, Object.keys(files).length, true);
+  end.setUint16(10, Object.keys(files).length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  const parts = [...local, ...central, new Uint8Array(end.buffer)];
+  const archive = new Uint8Array(parts.reduce((size, part) => size + part.length, 0));
+  parts.reduce((position, part) => {
+    archive.set(part, position);
+    return position + part.length;
+  }, 0);
+  return archive.buffer;
+}
+
+function workbook(sheetData: string, { date1904 = false, sharedStrings = '', styles = '' } = {}) {
+  const files: Record<string, string> = {
+    'xl/workbook.xml': `<workbook xmlns="${MAIN}" xmlns:r="${RELATIONSHIPS}">`
+      + `<workbookPr date1904="${date1904 ? 1 : 0}"/>`
+      + '<sheets><sheet name="Results" sheetId="1" r:id="rId1"/></sheets></workbook>',
+    'xl/_rels/workbook.xml.rels': '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+      + `<Relationship Id="rId1" Type="${RELATIONSHIPS}/worksheet" Target="worksheets/sheet1.xml"/>`
+      + '</Relationships>',
+    'xl/worksheets/sheet1.xml': `<worksheet xmlns="${MAIN}"><sheetData>${sheetData}</sheetData></worksheet>`,
+  };
+  if (sharedStrings) files['xl/sharedStrings.xml'] = `<sst xmlns="${MAIN}">${sharedStrings}</sst>`;
+  if (styles) files['xl/styles.xml'] = `<styleSheet xmlns="${MAIN}">${styles}</styleSheet>`;
+  return zip(files, ['xl/_rels/workbook.xml.rels']);
+}
+
+describe('parseCsv', () => {
+  it('reads quoted fields with delimiters, doubled quotes and line breaks', () => {
+    const { rows } = parseCsv('Site,Notes\nRampur,"Tap 2, ""kitchen"""\nSonpur,"first line\nsecond line"\n');
+    expect(rows).toEqual([
+      ['Site', 'Notes'],
+      ['Rampur', 'Tap 2, "kitchen"'],
+      ['Sonpur', 'first line\nsecond line'],
+    ]);
+  });
+
+  it('accepts CRLF line endings and strips a byte order mark', () => {
+    const { rows } = parseCsv('\uFEFFDate,pH\r\n2024-03-15,7.1\r\n2024-03-16,7.3\r\n');
+    expect(rows).toEqual([['Date', 'pH'], ['2024-03-15', '7.1'], ['2024-03-16', '7.3']]);
+  });
+
+  it('detects semicolon and tab delimiters from the header', () => {
+    expect(parseCsv('Date;pH;Site\n15/03/2024;7,1;Rampur').rows[1]).toEqual(['15/03/2024', '7,1', 'Rampur']);
+    expect(parseCsv('Date\tpH\n15/03/2024\t7.1').rows[1]).toEqual(['15/03/2024', '7.1']);
+  });
+
+  it('drops blank lines but keeps the line each row starts on', () => {
+    const sheet = parseCsv('header\n\nrow\n"two\r\nlines"\r\n  \nbad-row');
+    expect(sheet.rows).toEqual([['header'], ['row'], ['two\r\nlines'], ['bad-row']]);
+    expect(sheet.lines).toEqual([1, 3, 4, 7]);
+  });
+
+  it('reads a last line without a line break', () => {
+    expect(parseCsv('a,b\n1,2').rows).toEqual([['a', 'b'], ['1', '2']]);
+  });
+
+  it('round-trips through toCsv', () => {
+    const rows = [['Site', 'Notes'], ['Rampur', 'said "no", twice'], ['Sonpur', 'two\nlines']];
+    expect(parseCsv(toCsv(rows)).rows).toEqual(rows);
+  });
+});
+
+describe('excelSerialToIso', () => {
+  it('counts days from 1899-12-30 in the sheet\'s wall-clock time', () => {
+    expect(excelSerialToIso(45366)).toBe('2024-03-15T00:00:00');
+    expect(excelSerialToIso(45366.6042)).toBe('2024-03-15T14:30:03');
+  });
+
+  it('counts days from 1904-01-01 for 1904 workbooks', () => {
+    expect(excelSerialToIso(0, true)).toBe('1904-01-01T00:00:00');
+    expect(excelSerialToIso(43904, true)).toBe('2024-03-15T00:00:00');
+  });
+});
+
+describe('readXlsx', () => {
+  const sharedStrings = '<si><t>Date</t></si><si><t>Site</t></si>'
+    + '<si><r><t>p</t></r><r><t>H</t></r></si>'
+    + '<si><t>Rampur</t><rPh><t>ランプル</t></rPh></si>';
+  // Style 1 is a custom date format, 2 a built-in one and 3 a number with a
+  // quoted "d" that isn't a date part.
+  const styles = '<numFmts count="2">'
+    + '<numFmt numFmtId="164" formatCode="dd/mm/yyyy hh:mm"/>'
+    + '<numFmt numFmtId="165" formatCode="0.00&quot;d&quot;"/>'
+    + '</numFmts>'
+    + '<cellXfs count="4"><xf numFmtId="0"/><xf numFmtId="164"/><xf numFmtId="14"/><xf numFmtId="165"/></cellXfs>';
+
+  it('reads shared strings, inline strings, dates and numbers', async () => {
+    const sheet = await readXlsx(workbook(
+      '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c><c r="C1" t="s"><v>2</v></c></row>'
+      + '<row r="2"><c r="A2" s="1"><v>45366.5</v></c><c r="B2" t="s"><v>3</v></c><c r="C2" s="3"><v>7.25</v></c></row>'
+      + '<row r="3"><c r="A3" s="2"><v>45367</v></c><c r="B3" t="inlineStr"><is><t>Sonpur</t></is></c><c r="C3"><v>6.9</v></c></row>',
+      { sharedStrings, styles },
+    ));
+    expect(sheet.rows).toEqual([
+      ['Date', 'Site', 'pH'],
+      ['2024-03-15T12:00:00', 'Rampur', '7.25'],
+      ['2024-03-16T00:00:00', 'Sonpur', '6.9'],
+    ]);
+  });
+
+  it('places cells by their reference and follows on when it is missing', async () => {
+    const sheet = await readXlsx(workbook(
+      '<row r="1"><c r="A1" t="inlineStr"><is><t>a</t></is></c><c r="D1"><v>4</v></c></row>'
+      + '<row r="2"><c r="B2"><v>2</v></c><c><v>3</v></c><c t="b"><v>1</v></c></row>',
+    ));
+    expect(sheet.rows).toEqual([['a', '', '', '4'], ['', '2', '3', 'TRUE']]);
+  });
+
+  it('drops empty rows but keeps each row\'s number in the sheet', async () => {
+    const sheet = await readXlsx(workbook(
+      '<row r="1"><c r="A1"><v>1</v></c></row>'
+      + '<row r="3"><c r="A3"><v>3</v></c></row>'
+      + '<row r="4"/>'
+      + '<row r="5"><c r="A5" t="inlineStr"><is><t> </t></is></c></row>'
+      + '<row><c><v>6</v></c></row>',
+    ));
+    expect(sheet.rows).toEqual([['1'], ['3'], ['6']]);
+    expect(sheet.lines).toEqual([1, 3, 6]);
+  });
+
+  it('reads dates in 1904 workbooks from their own epoch', async () => {
+    const sheet = await readXlsx(workbook('<row r="1"><c r="A1" s="1"><v>43904</v></c></row>', { date1904: true, styles }));
+    expect(sheet.rows).toEqual([['2024-03-15T00:00:00']]);
+  });
+
+  it('rejects files that are not zip archives', async () => {
+    await expect(readXlsx(new TextEncoder().encode('Date,pH\n').buffer)).rejects.toThrow('Not a valid XLSX file');
+  });
+});
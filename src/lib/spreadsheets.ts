@@ -0,0 +1,233 @@
+// Reads uploaded CSV and XLSX files into rows of cell text, and writes rows
+// out as CSV. XLSX is read with the browser's own zip inflation and XML
+// parser, so no spreadsheet library is needed for the single-sheet exports
+// the labs send.
+
+export type SheetRows = string[][];
+
+export interface Sheet {
+  rows: SheetRows;
+  // Line of the file (CSV) or row of the worksheet (XLSX) each row starts on,
+  // counting from 1, since blank rows are dropped and quoted fields can span lines.
+  lines: number[];
+}
+
+const CSV_DELIMITERS = [',', ';', '\t'];
+
+// The delimiter that splits the header line into the most columns.
+const detectDelimiter = (text: string) => {
+  const header = text.slice(0, text.indexOf('\n') === -1 ? undefined : text.indexOf('\n'));
+  return CSV_DELIMITERS.reduce((best, delimiter) =>
+    (header.split(delimiter).length > header.split(best).length ? delimiter : best));
+};
+
+/**
+ * RFC 4180 CSV: quoted fields may hold delimiters, line breaks and doubled
+ * quotes. Blank lines are dropped.
+ */
+export function parseCsv(text: string, delimiter = detectDelimiter(text)): Sheet {
+  const rows: SheetRows = [];
+  const lines: number[] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  let line = 1;
+  let rowStart = 1;
+  const input = text.replace(/^\uFEFF/, '');
+
+  const endRow = () => {
+    row.push(field);
+    if (row.some(cell => cell.trim() !== '')) {
+      rows.push(row);
+      lines.push(rowStart);
+    }
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n' || (char === '\r' && input[i + 1] !== '\n')) line++;
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+      line++;
+      rowStart = line;
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) endRow();
+  return { rows, lines };
+}
+
+// Quotes only the fields that need it, as spreadsheet apps expect.
+export const toCsv = (rows: SheetRows) =>
+  rows
+    .map(row => row
+      .map(cell => (/[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell))
+      .join(','))
+    .join('\r\n');
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * Spreadsheet dates are days since 1899-12-30 (or 1904-01-01 on old Mac
+ * workbooks) in the sheet's own wall-clock time. Returned as an ISO string
+ * without a zone, so it reads back as local time.
+ */
+export function excelSerialToIso(serial: number, date1904 = false) {
+  const epoch = date1904 ? Date.UTC(1904, 0, 1) : Date.UTC(1899, 11, 30);
+  const date = new Date(epoch + Math.round(serial * 24 * 60 * 60) * 1000);
+  return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`
+    + `T${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())}`;
+}
+
+// Zip entries by path. Sizes come from the central directory, which is
+// correct even when the local headers defer them to a data descriptor.
+async function readZip(buffer: ArrayBuffer) {
+  const view = new DataView(buffer);
+  let end = buffer.byteLength - 22;
+  while (end >= 0 && view.getUint32(end, true) !== 0x06054b50) end--;
+  if (end < 0) throw new Error('Not a valid XLSX file');
+
+  const entries = new Map<string, () => Promise<string>>();
+  const decoder = new TextDecoder();
+  let offset = view.getUint32(end + 16, true);
+  const count = view.getUint16(end + 10, true);
+
+  for (let i = 0; i < count; i++) {
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localHeader = view.getUint32(offset + 42, true);
+    const name = decoder.decode(new Uint8Array(buffer, offset + 46, nameLength));
+
+    const dataStart = localHeader + 30 + view.getUint16(localHeader + 26, true) + view.getUint16(localHeader + 28, true);
+    const data = new Uint8Array(buffer, dataStart, compressedSize);
+    entries.set(name, async () => {
+      if (method === 0) return decoder.decode(data);
+      const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+      return new Response(stream).text();
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
+
+// Namespace-agnostic, since some writers prefix every element.
+const elements = (parent: Document | Element, name: string) => [...parent.getElementsByTagNameNS('*', name)];
+
+const textOf = (element: Element) =>
+  elements(element, 't')
+    .filter(t => t.parentElement?.localName !== 'rPh')
+    .map(t => t.textContent ?? '')
+    .join('');
+
+// Built-in number formats that display dates (ECMA-376 18.8.30).
+const BUILT_IN_DATE_FORMATS = [14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47];
+
+// Style indexes whose number format shows a date or time.
+function dateStyles(styles: Document | null) {
+  if (!styles) return new Set<number>();
+  const customDateFormats = new Set(
+    elements(styles, 'numFmt')
+      // Quoted literals and [colour] sections aren't date parts.
+      .filter(format => /[dmyhs]/i.test((format.getAttribute('formatCode') ?? '').replace(/"[^"]*"|\[[^\]]*\]/g, '')))
+      .map(format => Number(format.getAttribute('numFmtId'))),
+  );
+  const cellFormats = elements(styles, 'cellXfs')[0];
+  const result = new Set<number>();
+  if (!cellFormats) return result;
+  elements(cellFormats, 'xf').forEach((xf, index) => {
+    const id = Number(xf.getAttribute('numFmtId'));
+    if (BUILT_IN_DATE_FORMATS.includes(id) || customDateFormats.has(id)) result.add(index);
+  });
+  return result;
+}
+
+// "BC12" → 54; cells may omit their reference and follow the previous one.
+const columnIndex = (reference: string | null, fallback: number) => {
+  const letters = reference?.match(/^[A-Z]+/)?.[0];
+  if (!letters) return fallback;
+  return [...letters].reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+};
+
+/**
+ * The first worksheet of an XLSX workbook. Date-formatted cells come back as
+ * zone-less ISO strings; everything else as the value's text.
+ */
+export async function readXlsx(buffer: ArrayBuffer): Promise<Sheet> {
+  const entries = await readZip(buffer);
+  const parser = new DOMParser();
+  const read = async (path: string) => {
+    const entry = entries.get(path);
+    return entry ? parser.parseFromString(await entry(), 'application/xml') : null;
+  };
+
+  const workbook = await read('xl/workbook.xml');
+  const relations = await read('xl/_rels/workbook.xml.rels');
+  if (!workbook || !relations) throw new Error('Not a valid XLSX file');
+  const firstSheet = elements(workbook, 'sheet')[0];
+  const relationId = firstSheet?.getAttributeNS('http://schemas.openxmlformats.org/officeDocument/2006/relationships', 'id');
+  const target = elements(relations, 'Relationship')
+    .find(relation => relation.getAttribute('Id') === relationId)
+    ?.getAttribute('Target');
+  if (!target) throw new Error('The workbook has no worksheets');
+  const sheet = await read(target.startsWith('/') ? target.slice(1) : `xl/${target}`);
+  if (!sheet) throw new Error('The workbook has no worksheets');
+
+  const date1904 = ['1', 'true'].includes(elements(workbook, 'workbookPr')[0]?.getAttribute('date1904'));
+  const sharedStrings = elements(await read('xl/sharedStrings.xml') ?? parser.parseFromString('<sst/>', 'application/xml'), 'si')
+    .map(textOf);
+  const dates = dateStyles(await read('xl/styles.xml'));
+
+  // Rows may omit their number and follow the previous one, like cells.
+  let rowNumber = 0;
+  const rows = elements(sheet, 'row')
+    .map((row) => {
+      rowNumber = Number(row.getAttribute('r')) || rowNumber + 1;
+      const cells: string[] = [];
+      elements(row, 'c').forEach((cell) => {
+        const index = columnIndex(cell.getAttribute('r'), cells.length);
+        const type = cell.getAttribute('t');
+        const value = elements(cell, 'v')[0]?.textContent ?? '';
+        let text = value;
+        if (type === 's') text = sharedStrings[Number(value)] ?? '';
+        else if (type === 'inlineStr') text = textOf(cell);
+        else if (type === 'b') text = value === '1' ? 'TRUE' : 'FALSE';
+        else if (!type || type === 'n') {
+          if (value !== '' && dates.has(Number(cell.getAttribute('s') ?? 0))) {
+            text = excelSerialToIso(Number(value), date1904);
+          }
+        }
+        while (cells.length < index) cells.push('');
+        cells[index] = text;
+      });
+      return { cells, line: rowNumber };
+    })
+    .filter(({ cells }) => cells.some(cell => cell.trim() !== ''));
+  return { rows: rows.map(row => row.cells), lines: rows.map(row => row.line) };
+}
+
+export async function readSpreadsheet(file: File): Promise<Sheet> {
+  if (/\.xlsx$/i.test(file.name)) return readXlsx(await file.arrayBuffer());
+  if (/\.(csv|tsv|txt)$/i.test(file.name)) return parseCsv(await file.text());
+  throw new Error('Upload a .csv or .xlsx file. Older .xls workbooks need saving as .xlsx first');
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import type { Reading, ThresholdRule } from '@/services/api';
+import { describeReadings } from '@/lib/stats';
+
+const reading = (locationId: string, index: number, ph: number, flags: Reading['flags'] = []): Reading => ({
+  id: `reading-${locationId}-${index}`,
+  locationId,
+  values: { ph },
+  timestamp: new Date(Date.UTC(2024, 2, 15, 9, index * 5)).toISOString(),
+  flags,
+});
+
+const rules: ThresholdRule[] = [
+  { id: 'ph-low', name: 'pH low', parameter: 'ph', operator: 'lt', threshold: 6.5, durationMinutes: 0, severity: 'warning', enabled: true },
+];
+
+describe('describeReadings', () => {
+  it('describes each location from its own raw values', () => {
+    const readings = [
+      ...[7, 7.2, 6.4, 7.4, 7.1].map((ph, index) => reading('1', index, ph)),
+      ...[8, 8].map((ph, index) => reading('2', index, ph)),
+    ];
+    const [first, second] = describeReadings(readings, rules, 10);
+
+    expect(first).toMatchObject({ locationId: '1', parameter: 'ph' });
+    expect(first.stats).toMatchObject({ count: 5, min: 6.4, max: 7.4, median: 7.1, completeness: 0.5, compliance: 0.8 });
+    expect(first.stats.p95).toBeCloseTo(7.36);
+    expect(first.stats.stdDev).toBeCloseTo(0.337, 3);
+    expect(second.stats).toMatchObject({ count: 2, median: 8, stdDev: 0, compliance: 1 });
+  });
+
+  it('leaves suspect values out', () => {
+    const readings = [
+      reading('1', 0, 7),
+      reading('1', 1, 2, [{ type: 'spike', parameter: 'ph', message: 'Spike' }]),
+      reading('1', 2, 7.2),
+    ];
+    expect(describeReadings(readings, rules, null)[0].stats).toMatchObject({ count: 2, min: 7, compliance: 1 });
+  });
+});
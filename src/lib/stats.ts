@@ -0,0 +1,69 @@
+import type { ParameterStats, Reading, ReadingStats, ThresholdRule } from '@/services/api';
+import { isSuspect } from '@/lib/anomalies';
+import { presentParameters } from '@/lib/parameters';
+import { getParameterLimits, isWithinLimits, type ParameterLimits } from '@/lib/rules';
+
+// Field sensors report every 5 minutes; completeness is measured against that.
+export const SENSOR_INTERVAL_MS = 5 * 60 * 1000;
+
+// Linear interpolation between the closest ranks of an ascending list.
+export function quantile(sorted: number[], q: number) {
+  if (sorted.length === 0) return null;
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+/**
+ * Readings a location should have sent between two times. Time still in the
+ * future (the rest of today on a custom range) doesn't count.
+ */
+export function expectedReadings(from: Date, to: Date, now: Date = new Date()) {
+  const end = Math.min(to.getTime(), now.getTime());
+  return Math.max(0, Math.floor((end - from.getTime()) / SENSOR_INTERVAL_MS));
+}
+
+const completenessOf = (count: number, expected: number | null) =>
+  (expected ? Math.min(1, count / expected) : null);
+
+// Statistics of one location's raw values for a parameter.
+export function describeValues(
+  values: number[],
+  limits: ParameterLimits,
+  expected: number | null,
+): ParameterStats | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length;
+
+  return {
+    count: values.length,
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+    mean,
+    median: quantile(sorted, 0.5),
+    p95: quantile(sorted, 0.95),
+    stdDev: Math.sqrt(variance),
+    completeness: completenessOf(values.length, expected),
+    compliance: values.filter(value => isWithinLimits(limits, value)).length / values.length,
+  };
+}
+
+/**
+ * Statistics per location and parameter, the way the stats query works them
+ * out. Readings need their anomaly flags, as suspect values are left out.
+ */
+export function describeReadings(readings: Reading[], rules: ThresholdRule[], expected: number | null): ReadingStats[] {
+  const locationIds = [...new Set(readings.map(r => r.locationId))].sort();
+  return presentParameters(readings).flatMap(parameter => locationIds.flatMap((locationId) => {
+    const values = readings
+      .filter(r => r.locationId === locationId && r.values[parameter] !== undefined && !isSuspect(r, parameter))
+      .map(r => r.values[parameter]);
+    const stats = describeValues(values, getParameterLimits(rules, parameter, locationId), expected);
+    return stats ? [{ locationId, parameter, stats }] : [];
+  }));
+}
+
+export const formatShare = (share: number) => `${(share * 100).toFixed(1)}%`;
@@ -0,0 +1,387 @@
+import { useState, useEffect } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import AlertActions from '@/components/alerts/AlertActions';
+import AlertHistory from '@/components/alerts/AlertHistory';
+import { useLocations } from '@/hooks/use-locations';
+import { useToast } from '@/hooks/use-toast';
+import {
+  alertsAPI,
+  readingsAPI,
+  rulesAPI,
+  type Alert,
+  type AlertEvent,
+  type ParameterKey,
+  type Reading,
+  type ThresholdRule,
+} from '@/services/api';
+import {
+  generateMockAlertReadings,
+  generateMockAlerts,
+  generateMockMaintenanceWindows,
+} from '@/services/mockData';
+import { alertStatusLabels, buildAlertHistory, getAlertStatusColor, getSeverityColor } from '@/lib/alerts';
+import { applyMaintenanceWindows } from '@/lib/maintenance';
+import {
+  formatParameterValue,
+  parameterRegistry,
+  parameterTitle,
+  presentParameters,
+  roundParameterValue,
+} from '@/lib/parameters';
+import { defaultThresholdRules, describeRule, findAlertRule, findNearestReading } from '@/lib/rules';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ReferenceLine, ResponsiveContainer } from 'recharts';
+import { AlertTriangle, ArrowLeft, MapPin, RefreshCw, TrendingUp, WifiOff, Wrench } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+// Hours of readings shown either side of the alert.
+const READINGS_WINDOW_HOURS = 3;
+
+const byTime = (a: AlertEvent, b: AlertEvent) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime();
+
+const formatTime = (timestamp: string) =>
+  new Date(timestamp).toLocaleTimeString('en-US', {
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+export default function AlertDetail() {
+  const { id } = useParams<{ id: string }>();
+  const [alert, setAlert] = useState<Alert | null>(null);
+  const [readings, setReadings] = useState<Reading[]>([]);
+  const [history, setHistory] = useState<AlertEvent[]>([]);
+  const [rules, setRules] = useState<ThresholdRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { getLocation, getLocationName } = useLocations();
+  const { toast } = useToast();
+
+  const fetchReadings = async (current: Alert) => {
+    const windowMs = READINGS_WINDOW_HOURS * 60 * 60 * 1000;
+    const alertTime = new Date(current.timestamp).getTime();
+    try {
+      const response = await readingsAPI.getReadings({
+        locationId: current.locationId,
+        from: new Date(alertTime - windowMs).toISOString(),
+        to: new Date(alertTime + windowMs).toISOString(),
+      });
+      setReadings(response.data);
+    } catch (error) {
+      // Mock data for demo
+      setReadings(generateMockAlertReadings(current));
+    }
+  };
+
+  const fetchHistory = async (current: Alert) => {
+    try {
+      const response = await alertsAPI.getAlertHistory(current.id);
+      setHistory(response.data);
+    } catch (error) {
+      // Mock data for demo, keeping comments added in this session
+      setHistory(prev => [...buildAlertHistory(current), ...prev.filter(e => e.type === 'comment')].sort(byTime));
+    }
+  };
+
+  const fetchAlert = async () => {
+    let current: Alert | null = null;
+    try {
+      setLoading(true);
+      const response = await alertsAPI.getAlert(id);
+      current = response.data;
+    } catch (error) {
+      toast({
+        title: 'Error fetching alert',
+        description: 'Could not load the alert details',
+        variant: 'destructive',
+      });
+      // Mock data for demo
+      const mockAlerts = applyMaintenanceWindows(generateMockAlerts(), generateMockMaintenanceWindows());
+      current = mockAlerts.find(a => a.id === id) ?? null;
+    }
+    setAlert(current);
+    if (current) {
+      await Promise.all([fetchReadings(current), fetchHistory(current)]);
+    }
+    setLoading(false);
+  };
+
+  const fetchRules = async () => {
+    try {
+      const response = await rulesAPI.getRules();
+      setRules(response.data);
+    } catch (error) {
+      // Mock data for demo
+      setRules(defaultThresholdRules);
+    }
+  };
+
+  useEffect(() => {
+    fetchAlert();
+  }, [id]);
+
+  useEffect(() => {
+    fetchRules();
+  }, []);
+
+  const handleUpdated = (updated: Alert) => {
+    setAlert(updated);
+    fetchHistory(updated);
+  };
+
+  const addComment = async (message: string) => {
+    try {
+      const response = await alertsAPI.addComment(alert.id, message);
+      setHistory(prev => [...prev, response.data].sort(byTime));
+    } catch (error) {
+      toast({
+        title: 'Error saving comment',
+        description: 'Could not save the comment to the server',
+        variant: 'destructive',
+      });
+      // Apply locally for demo
+      setHistory(prev => [...prev, {
+        id: `comment-${Date.now()}`,
+        alertId: alert.id,
+        type: 'comment' as const,
+        timestamp: new Date().toISOString(),
+        author: 'You',
+        message,
+      }].sort(byTime));
+    }
+  };
+
+  if (!alert) {
+    return (
+      <div className="space-y-6">
+        <Button variant="ghost" size="sm" asChild className="gap-2">
+          <Link to="/alerts">
+            <ArrowLeft className="h-4 w-4" />
+            Back to alerts
+          </Link>
+        </Button>
+        <Card className="shadow-card">
+          <CardContent className="flex items-center justify-center py-12">
+            {loading ? (
+              <RefreshCw className="h-6 w-6 animate-spin text-muted-foreground" />
+            ) : (
+              <p className="text-muted-foreground">Alert {id} was not found</p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const location = getLocation(alert.locationId);
+  const locationName = getLocationName(alert.locationId);
+  const rule = findAlertRule(alert, rules, readings);
+  const parameter = rule?.parameter ?? alert.parameter;
+
+  const sortedReadings = [...readings].sort(
+    (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+  );
+  const chartData = sortedReadings.map((reading) => {
+    const row: Record<string, string | number> = { time: formatTime(reading.timestamp) };
+    Object.entries(reading.values).forEach(([key, value]) => {
+      row[key] = roundParameterValue(key as ParameterKey, value);
+    });
+    return row;
+  });
+  const chartedParameters = parameter ? [parameter] : presentParameters(readings);
+
+  // The x axis is categorical, so the alert marker snaps to the nearest reading.
+  const nearestReading = findNearestReading(readings, alert.timestamp);
+
+  return (
+    <div className="space-y-6">
+      <Button variant="ghost" size="sm" asChild className="gap-2">
+        <Link to="/alerts">
+          <ArrowLeft className="h-4 w-4" />
+          Back to alerts
+        </Link>
+      </Button>
+
+      <div className="flex items-start justify-between gap-4">
+        <div className="space-y-2">
+          <div className="flex flex-wrap items-center gap-2">
+            <Badge className={cn("gap-1", getSeverityColor(alert.severity))}>
+              <AlertTriangle className="h-4 w-4" />
+              {alert.severity.toUpperCase()}
+            </Badge>
+            <Badge variant="outline" className={getAlertStatusColor(alert.status)}>
+              {alertStatusLabels[alert.status]}
+            </Badge>
+            {alert.maintenanceWindowId && (
+              <Badge variant="outline" className="gap-1 text-muted-foreground">
+                <Wrench className="h-3 w-3" />
+                During maintenance
+              </Badge>
+            )}
+            {alert.kind === 'predicted_breach' && (
+              <Badge variant="outline" className="gap-1 text-muted-foreground">
+                <TrendingUp className="h-3 w-3" />
+                Predicted{alert.predictedAt && ` for ${new Date(alert.predictedAt).toLocaleString()}`}
+              </Badge>
+            )}
+            {alert.kind === 'device_offline' && (
+              <Badge variant="outline" className="gap-1 text-muted-foreground">
+                <WifiOff className="h-3 w-3" />
+                Device offline
+              </Badge>
+            )}
+          </div>
+          <h1 className="text-3xl font-bold tracking-tight">{alert.message}</h1>
+          <p className="text-muted-foreground">
+            {locationName} · {new Date(alert.timestamp).toLocaleString()}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <AlertActions alert={alert} onUpdated={handleUpdated} />
+          <Button
+            onClick={fetchAlert}
+            disabled={loading}
+            className="gap-2"
+            variant="outline"
+          >
+            <RefreshCw className={cn("h-4 w-4", loading && "animate-spin")} />
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <Card className="shadow-card">
+          <CardHeader>
+            <CardTitle>Location</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {location ? (
+              <div className="flex items-start gap-4">
+                <div className="p-3 bg-primary/10 rounded-lg">
+                  <MapPin className="h-6 w-6 text-primary" />
+                </div>
+                <div className="space-y-1 text-sm">
+                  <p className="font-medium">{location.village}</p>
+                  <p className="text-muted-foreground">{location.district}, {location.state}</p>
+                  <p className="text-muted-foreground">
+                    {location.latitude.toFixed(4)}, {location.longitude.toFixed(4)}
+                  </p>
+                  <p className="text-muted-foreground">Station status: {location.status}</p>
+                </div>
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">{locationName}</p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="shadow-card">
+          <CardHeader>
+            <CardTitle>Threshold Crossed</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {rule ? (
+              <div className="space-y-1 text-sm">
+                <p className="font-medium">{rule.name}</p>
+                <p className="text-muted-foreground">{describeRule(rule)}</p>
+                {nearestReading?.values[rule.parameter] !== undefined && (
+                  <p className="text-muted-foreground">
+                    Reading at the time of the alert:{' '}
+                    {formatParameterValue(rule.parameter, nearestReading.values[rule.parameter])}
+                  </p>
+                )}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                This alert was not raised by a threshold rule
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card className="shadow-card">
+        <CardHeader>
+          <CardTitle>
+            {parameter ? `${parameterRegistry[parameter].label} Around the Alert` : 'Readings Around the Alert'}
+          </CardTitle>
+          <CardDescription>
+            Readings from {locationName} {READINGS_WINDOW_HOURS} hours either side of the alert
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {chartData.length === 0 ? (
+            <p className="py-12 text-center text-sm text-muted-foreground">
+              No readings recorded at this location around the alert
+            </p>
+          ) : (
+            <div className="h-80">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={chartData}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                  <XAxis
+                    dataKey="time"
+                    stroke="hsl(var(--muted-foreground))"
+                    fontSize={12}
+                  />
+                  <YAxis
+                    stroke="hsl(var(--muted-foreground))"
+                    fontSize={12}
+                  />
+                  <Tooltip
+                    contentStyle={{
+                      backgroundColor: 'hsl(var(--card))',
+                      border: '1px solid hsl(var(--border))',
+                      borderRadius: '8px',
+                    }}
+                  />
+                  <Legend />
+                  {nearestReading && (
+                    <ReferenceLine
+                      x={formatTime(nearestReading.timestamp)}
+                      stroke="hsl(var(--muted-foreground))"
+                      strokeDasharray="4 4"
+                      label={{ value: 'Alert', position: 'top', fontSize: 12 }}
+                    />
+                  )}
+                  {rule && (
+                    <ReferenceLine
+                      y={rule.threshold}
+                      stroke="hsl(var(--status-critical))"
+                      strokeDasharray="4 4"
+                      label={{ value: `Threshold ${formatParameterValue(rule.parameter, rule.threshold)}`, position: 'insideTopRight', fontSize: 12 }}
+                    />
+                  )}
+                  {chartedParameters.map(key => (
+                    <Line
+                      key={key}
+                      type="monotone"
+                      dataKey={key}
+                      stroke={parameterRegistry[key].color}
+                      strokeWidth={2}
+                      name={parameterTitle(key)}
+                      connectNulls
+                    />
+                  ))}
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="shadow-card">
+        <CardHeader>
+          <CardTitle>History</CardTitle>
+          <CardDescription>
+            Status changes and comments from the officers handling this alert
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <AlertHistory events={history} onComment={addComment} />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,81 +1,168 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import AlertFilters from '@/components/alerts/AlertFilters';
+import AlertsPagination from '@/components/alerts/AlertsPagination';
+import IncidentRow from '@/components/alerts/IncidentRow';
 import { useToast } from '@/hooks/use-toast';
-import { alertsAPI, type Alert } from '@/services/api';
-import { AlertTriangle, Clock, MapPin, RefreshCw } from 'lucide-react';
+import { useLocations } from '@/hooks/use-locations';
+import { useRealtimeEvent } from '@/hooks/use-realtime';
+import {
+  alertsAPI,
+  escalationAPI,
+  type Alert,
+  type AlertQuery,
+  type AlertSortField,
+  type EscalationPolicy,
+  type IncidentsResponse,
+} from '@/services/api';
+import {
+  generateMockAlerts,
+  generateMockEscalationPolicies,
+  generateMockMaintenanceWindows,
+} from '@/services/mockData';
+import { alertQueryToParams, matchesAlertQuery, parseAlertQuery, queryIncidents } from '@/lib/alerts';
+import { groupIntoIncidents } from '@/lib/incidents';
+import { applyMaintenanceWindows } from '@/lib/maintenance';
+import { AlertTriangle, ArrowDown, ArrowUp, ArrowUpDown, RefreshCw } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
+// How often escalation timelines are re-evaluated against the clock.
+const ESCALATION_TICK_MS = 30000;
+
+const emptyResponse: IncidentsResponse = {
+  items: [],
+  total: 0,
+  alertTotal: 0,
+  page: 1,
+  pageSize: 20,
+  openIncidentCounts: { critical: 0, warning: 0, info: 0 },
+};
+
+interface SortableHeadProps {
+  field: AlertSortField;
+  query: AlertQuery;
+  onSort: (field: AlertSortField) => void;
+  children: React.ReactNode;
+}
+
+function SortableHead({ field, query, onSort, children }: SortableHeadProps) {
+  const active = query.sortBy === field;
+  const SortIcon = !active ? ArrowUpDown : query.sortOrder === 'asc' ? ArrowUp : ArrowDown;
+  return (
+    <TableHead aria-sort={active ? (query.sortOrder === 'asc' ? 'ascending' : 'descending') : undefined}>
+      <button
+        type="button"
+        onClick={() => onSort(field)}
+        className="flex items-center gap-1 hover:text-foreground"
+      >
+        {children}
+        <SortIcon className={cn("h-3 w-3", !active && "opacity-40")} />
+      </button>
+    </TableHead>
+  );
+}
+
 export default function Alerts() {
-  const [alerts, setAlerts] = useState<Alert[]>([]);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [result, setResult] = useState<IncidentsResponse>(emptyResponse);
+  const [policies, setPolicies] = useState<EscalationPolicy[]>([]);
+  const [now, setNow] = useState(() => new Date());
   const [loading, setLoading] = useState(true);
+  const { locations } = useLocations();
   const { toast } = useToast();
 
-  const fetchAlerts = async () => {
+  const query = parseAlertQuery(searchParams);
+  const incidents = result.items;
+  // Only the latest fetch may replace the page, whichever answers last.
+  const latestFetch = useRef(0);
+
+  // Quiet fetches keep the page up to date in the background, so they skip
+  // the spinner and leave the page as it is when they fail.
+  const fetchIncidents = async ({ quiet = false } = {}) => {
+    const fetchId = ++latestFetch.current;
+    const isStale = () => fetchId !== latestFetch.current;
     try {
-      setLoading(true);
-      const response = await alertsAPI.getAlerts();
-      setAlerts(response.data);
+      if (!quiet) setLoading(true);
+      const response = await alertsAPI.getIncidents(query);
+      if (isStale()) return;
+      setResult(response.data);
     } catch (error) {
+      if (quiet || isStale()) return;
       toast({
         title: 'Error fetching alerts',
         description: 'Could not load alerts data',
         variant: 'destructive',
       });
       // Mock data for demo
-      setAlerts([
-        {
-          id: '1',
-          type: 'critical',
-          severity: 'critical',
-          message: 'Water pH level extremely low (4.2)',
-          location: 'Riverside Village, District A',
-          timestamp: new Date().toISOString(),
-        },
-        {
-          id: '2',
-          type: 'warning',
-          severity: 'warning',
-          message: 'High turbidity detected (85 NTU)',
-          location: 'Mountain Springs, District B',
-          timestamp: new Date(Date.now() - 3600000).toISOString(),
-        },
-        {
-          id: '3',
-          type: 'info',
-          severity: 'info',
-          message: 'System maintenance scheduled',
-          location: 'Central Processing Unit',
-          timestamp: new Date(Date.now() - 7200000).toISOString(),
-        },
-      ]);
+      const mockAlerts = applyMaintenanceWindows(generateMockAlerts(), generateMockMaintenanceWindows());
+      setResult(queryIncidents(mockAlerts, query, locations));
     } finally {
-      setLoading(false);
+      if (!isStale()) setLoading(false);
     }
   };
 
   useEffect(() => {
-    fetchAlerts();
+    fetchIncidents();
+  }, [searchParams]);
+
+  const fetchPolicies = async () => {
+    try {
+      const response = await escalationAPI.getPolicies();
+      setPolicies(response.data);
+    } catch (error) {
+      // Mock data for demo
+      setPolicies(generateMockEscalationPolicies());
+    }
+  };
+
+  useEffect(() => {
+    fetchPolicies();
+  }, []);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), ESCALATION_TICK_MS);
+    return () => clearInterval(timer);
   }, []);
 
-  const getSeverityColor = (severity: Alert['severity']) => {
-    switch (severity) {
-      case 'critical':
-        return 'bg-status-critical text-white';
-      case 'warning':
-        return 'bg-status-warning text-white';
-      case 'info':
-        return 'bg-status-info text-white';
-      default:
-        return 'bg-muted text-muted-foreground';
+  const isShown = (alertId: string) => incidents.some(incident => incident.alerts.some(a => a.id === alertId));
+
+  // A new or changed alert can start, grow, upgrade or close an incident
+  // anywhere in the filtered set, so the page and counts come from the server again.
+  useRealtimeEvent('alert', (alert) => {
+    if (!matchesAlertQuery(alert, query) && !isShown(alert.id)) return;
+    fetchIncidents({ quiet: true });
+  });
+
+  const updateQuery = (changes: Partial<AlertQuery>) => {
+    // Any change other than paging starts again from the first page.
+    const page = changes.page ?? 1;
+    setSearchParams(alertQueryToParams({ ...query, ...changes, page }));
+  };
+
+  const toggleSort = (field: AlertSortField) => {
+    if (query.sortBy === field) {
+      updateQuery({ sortOrder: query.sortOrder === 'asc' ? 'desc' : 'asc' });
+    } else {
+      updateQuery({ sortBy: field, sortOrder: field === 'timestamp' ? 'desc' : 'asc' });
     }
   };
 
-  const getSeverityIcon = (severity: Alert['severity']) => {
-    return <AlertTriangle className="h-4 w-4" />;
+  // The change shows straight away; the counts follow from the server.
+  const handleAlertUpdated = (updated: Alert) => {
+    setResult(prev => ({
+      ...prev,
+      items: prev.items.map(incident => (incident.alerts.some(a => a.id === updated.id)
+        ? groupIntoIncidents(incident.alerts.map(a => (a.id === updated.id ? updated : a)))[0]
+        : incident)),
+    }));
+    fetchIncidents({ quiet: true });
   };
 
+  const pageCount = Math.max(1, Math.ceil(result.total / result.pageSize));
+
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
@@ -86,7 +173,7 @@ export default function Alerts() {
           </p>
         </div>
         <Button
-          onClick={fetchAlerts}
+          onClick={() => fetchIncidents()}
           disabled={loading}
           className="gap-2"
           variant="outline"
@@ -105,9 +192,9 @@ export default function Alerts() {
                 <AlertTriangle className="h-6 w-6 text-status-critical" />
               </div>
               <div>
-                <p className="text-sm font-medium text-muted-foreground">Critical</p>
+                <p className="text-sm font-medium text-muted-foreground">Critical Incidents</p>
                 <p className="text-2xl font-bold text-status-critical">
-                  {alerts.filter(a => a.severity === 'critical').length}
+                  {result.openIncidentCounts.critical}
                 </p>
               </div>
             </div>
@@ -121,9 +208,9 @@ export default function Alerts() {
                 <AlertTriangle className="h-6 w-6 text-status-warning" />
               </div>
               <div>
-                <p className="text-sm font-medium text-muted-foreground">Warning</p>
+                <p className="text-sm font-medium text-muted-foreground">Warning Incidents</p>
                 <p className="text-2xl font-bold text-status-warning">
-                  {alerts.filter(a => a.severity === 'warning').length}
+                  {result.openIncidentCounts.warning}
                 </p>
               </div>
             </div>
@@ -137,9 +224,9 @@ export default function Alerts() {
                 <AlertTriangle className="h-6 w-6 text-status-info" />
               </div>
               <div>
-                <p className="text-sm font-medium text-muted-foreground">Info</p>
+                <p className="text-sm font-medium text-muted-foreground">Info Incidents</p>
                 <p className="text-2xl font-bold text-status-info">
-                  {alerts.filter(a => a.severity === 'info').length}
+                  {result.openIncidentCounts.info}
                 </p>
               </div>
             </div>
@@ -149,50 +236,61 @@ export default function Alerts() {
 
       {/* Alerts Table */}
       <Card className="shadow-card">
-        <CardHeader>
-          <CardTitle>Recent Alerts</CardTitle>
-          <CardDescription>
-            Latest system alerts and notifications
-          </CardDescription>
+        <CardHeader className="space-y-4">
+          <div className="space-y-1.5">
+            <CardTitle>Recent Alerts</CardTitle>
+            <CardDescription>
+              {result.alertTotal} alerts in {result.total} incidents match the current filters
+            </CardDescription>
+          </div>
+          <AlertFilters query={query} locations={locations} onChange={updateQuery} />
         </CardHeader>
         <CardContent>
           {loading ? (
             <div className="flex items-center justify-center py-8">
               <RefreshCw className="h-6 w-6 animate-spin text-muted-foreground" />
             </div>
+          ) : incidents.length === 0 ? (
+            <p className="py-8 text-center text-sm text-muted-foreground">
+              No alerts match the current filters
+            </p>
           ) : (
-            <div className="space-y-4">
-              {alerts.map((alert) => (
-                <div
-                  key={alert.id}
-                  className="flex items-center gap-4 p-4 border border-border rounded-lg hover:bg-muted/50 transition-colors"
-                >
-                  <div className="flex-shrink-0">
-                    <Badge className={cn("gap-1", getSeverityColor(alert.severity))}>
-                      {getSeverityIcon(alert.severity)}
-                      {alert.severity.toUpperCase()}
-                    </Badge>
-                  </div>
-                  
-                  <div className="flex-1 min-w-0">
-                    <p className="font-medium text-foreground">{alert.message}</p>
-                    <div className="flex items-center gap-4 mt-1 text-sm text-muted-foreground">
-                      <div className="flex items-center gap-1">
-                        <MapPin className="h-3 w-3" />
-                        {alert.location}
-                      </div>
-                      <div className="flex items-center gap-1">
-                        <Clock className="h-3 w-3" />
-                        {new Date(alert.timestamp).toLocaleString()}
-                      </div>
-                    </div>
-                  </div>
-                </div>
-              ))}
-            </div>
+            <>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <SortableHead field="severity" query={query} onSort={toggleSort}>Severity</SortableHead>
+                    <TableHead>Alert</TableHead>
+                    <SortableHead field="location" query={query} onSort={toggleSort}>Location</SortableHead>
+                    <SortableHead field="timestamp" query={query} onSort={toggleSort}>Time</SortableHead>
+                    <SortableHead field="status" query={query} onSort={toggleSort}>Status</SortableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {incidents.map((incident) => (
+                    <IncidentRow
+                      key={incident.id}
+                      incident={incident}
+                      policies={policies}
+                      locations={locations}
+                      now={now}
+                      onUpdated={handleAlertUpdated}
+                    />
+                  ))}
+                </TableBody>
+              </Table>
+
+              <AlertsPagination
+                page={query.page}
+                pageCount={pageCount}
+                hrefForPage={(page) => `?${alertQueryToParams({ ...query, page })}`}
+                onPageChange={(page) => updateQuery({ page })}
+              />
+            </>
           )}
         </CardContent>
       </Card>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,248 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import DeviceFormDialog from '@/components/devices/DeviceFormDialog';
+import DeviceHealthGrid from '@/components/devices/DeviceHealthGrid';
+import DeviceMoveDialog, { type DeviceMove } from '@/components/devices/DeviceMoveDialog';
+import DeviceRow from '@/components/devices/DeviceRow';
+import { useDeviceHealth } from '@/hooks/use-device-health';
+import { useLocations } from '@/hooks/use-locations';
+import { useToast } from '@/hooks/use-toast';
+import { devicesAPI, type Device, type DeviceHealthSettings } from '@/services/api';
+import { generateMockDevices } from '@/services/mockData';
+import { installDevice, moveDevice, removeDevice, replaceDevice } from '@/lib/devices';
+import { Plus, RefreshCw } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+export default function Devices() {
+  const [devices, setDevices] = useState<Device[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState<Device | null>(null);
+  const [formOpen, setFormOpen] = useState(false);
+  const [moving, setMoving] = useState<{ device: Device; kind: DeviceMove['kind'] } | null>(null);
+  const { locations } = useLocations();
+  const { heartbeats, settings, updateSettings, now, refresh } = useDeviceHealth();
+  const { toast } = useToast();
+
+  const fetchDevices = async () => {
+    try {
+      setLoading(true);
+      const response = await devicesAPI.getDevices();
+      setDevices(response.data);
+    } catch (error) {
+      toast({
+        title: 'Error fetching devices',
+        description: 'Could not load the device registry',
+        variant: 'destructive',
+      });
+      // Mock data for demo
+      setDevices(generateMockDevices());
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchDevices();
+  }, []);
+
+  const refreshAll = () => {
+    fetchDevices();
+    refresh();
+  };
+
+  const saveHealthSettings = async (next: DeviceHealthSettings) => {
+    try {
+      await updateSettings(next);
+    } catch (error) {
+      // The new thresholds still apply locally for demo
+      toast({
+        title: 'Error saving thresholds',
+        description: 'Could not save the device health thresholds to the server',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const upsertDevices = (updated: Device[]) => {
+    setDevices(prev => [
+      ...prev.map(d => updated.find(u => u.id === d.id) ?? d),
+      ...updated.filter(u => !prev.some(d => d.id === u.id)),
+    ]);
+  };
+
+  const openCreate = () => {
+    setEditing(null);
+    setFormOpen(true);
+  };
+
+  const openEdit = (device: Device) => {
+    setEditing(device);
+    setFormOpen(true);
+  };
+
+  const saveDevice = async (draft: Omit<Device, 'id'> & { id?: string }) => {
+    try {
+      const response = draft.id
+        ? await devicesAPI.updateDevice({ ...draft, id: draft.id })
+        : await devicesAPI.createDevice(draft);
+      upsertDevices([response.data]);
+    } catch (error) {
+      toast({
+        title: 'Error saving device',
+        description: 'Could not save the device to the server',
+        variant: 'destructive',
+      });
+      // Apply locally for demo
+      upsertDevices([{ ...draft, id: draft.id ?? `device-${Date.now()}` }]);
+    } finally {
+      setFormOpen(false);
+    }
+  };
+
+  // Moves and replacements rewrite the installation history of every device involved.
+  const applyMove = async (move: DeviceMove) => {
+    const { device } = moving;
+    let updated: Device[];
+    if (move.kind === 'replace') {
+      const replacement = devices.find(d => d.id === move.replacementId);
+      updated = replaceDevice(device, replacement, move.at, move.reason);
+    } else if (!move.locationId) {
+      updated = [removeDevice(device, move.at, move.reason || 'Taken out of service')];
+    } else {
+      updated = [device.locationId
+        ? moveDevice(device, move.locationId, move.at, move.reason || undefined)
+        : installDevice(device, move.locationId, move.at)];
+    }
+
+    try {
+      const responses = await Promise.all(updated.map(d => devicesAPI.updateDevice(d)));
+      upsertDevices(responses.map(response => response.data));
+    } catch (error) {
+      toast({
+        title: move.kind === 'replace' ? 'Error replacing device' : 'Error moving device',
+        description: 'Could not save the change to the server',
+        variant: 'destructive',
+      });
+      // Apply locally for demo
+      upsertDevices(updated);
+    } finally {
+      setMoving(null);
+    }
+  };
+
+  // Installed devices first, by location, then spares and retired ones.
+  const sortedDevices = [...devices].sort((a, b) =>
+    Number(!a.locationId) - Number(!b.locationId)
+    || (a.locationId ?? '').localeCompare(b.locationId ?? '')
+    || Number(a.status === 'retired') - Number(b.status === 'retired')
+    || a.serialNumber.localeCompare(b.serialNumber));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Devices</h1>
+          <p className="text-muted-foreground">
+            Sensor kits and where they are installed
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button onClick={openCreate} className="gap-2">
+            <Plus className="h-4 w-4" />
+            Register Device
+          </Button>
+          <Button
+            onClick={refreshAll}
+            disabled={loading}
+            className="gap-2"
+            variant="outline"
+          >
+            <RefreshCw className={cn("h-4 w-4", loading && "animate-spin")} />
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      <DeviceHealthGrid
+        devices={devices}
+        heartbeats={heartbeats}
+        settings={settings}
+        now={now}
+        locations={locations}
+        onSettingsChange={saveHealthSettings}
+      />
+
+      <Card className="shadow-card">
+        <CardHeader>
+          <CardTitle>Device Registry</CardTitle>
+          <CardDescription>
+            {devices.filter(d => d.locationId).length} installed, {devices.filter(d => d.status === 'in_storage').length} in
+            storage. Click a device to see where it has been installed
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex items-center justify-center py-8">
+              <RefreshCw className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Serial number</TableHead>
+                  <TableHead>Model</TableHead>
+                  <TableHead>Parameters</TableHead>
+                  <TableHead>Location</TableHead>
+                  <TableHead>Installed</TableHead>
+                  <TableHead>Firmware</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sortedDevices.map(device => (
+                  <DeviceRow
+                    key={device.id}
+                    device={device}
+                    devices={devices}
+                    locations={locations}
+                    onEdit={openEdit}
+                    onMove={(d) => setMoving({ device: d, kind: 'move' })}
+                    onReplace={(d) => setMoving({ device: d, kind: 'replace' })}
+                  />
+                ))}
+                {devices.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={8} className="text-center text-muted-foreground">
+                      No devices registered
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <DeviceFormDialog
+        open={formOpen}
+        device={editing}
+        devices={devices}
+        locations={locations}
+        onOpenChange={setFormOpen}
+        onSubmit={saveDevice}
+      />
+      <DeviceMoveDialog
+        open={moving !== null}
+        kind={moving?.kind ?? 'move'}
+        device={moving?.device ?? null}
+        devices={devices}
+        locations={locations}
+        onOpenChange={(open) => !open && setMoving(null)}
+        onSubmit={applyMove}
+      />
+    </div>
+  );
+}
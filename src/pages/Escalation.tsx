@@ -0,0 +1,105 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import EscalationPolicyEditor from '@/components/escalation/EscalationPolicyEditor';
+import EscalationSimulator from '@/components/escalation/EscalationSimulator';
+import { useToast } from '@/hooks/use-toast';
+import { escalationAPI, type EscalationPolicy } from '@/services/api';
+import { generateMockEscalationPolicies } from '@/services/mockData';
+import { RefreshCw } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+export default function Escalation() {
+  const [policies, setPolicies] = useState<EscalationPolicy[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const fetchPolicies = async () => {
+    try {
+      setLoading(true);
+      const response = await escalationAPI.getPolicies();
+      setPolicies(response.data);
+    } catch (error) {
+      toast({
+        title: 'Error fetching policies',
+        description: 'Could not load escalation policies',
+        variant: 'destructive',
+      });
+      // Mock data for demo
+      setPolicies(generateMockEscalationPolicies());
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchPolicies();
+  }, []);
+
+  const savePolicy = async (policy: EscalationPolicy) => {
+    const replace = (saved: EscalationPolicy) =>
+      setPolicies(prev => prev.map(p => (p.id === saved.id ? saved : p)));
+
+    try {
+      setSaving(policy.id);
+      const response = await escalationAPI.updatePolicy(policy);
+      replace(response.data);
+      toast({
+        title: 'Policy saved',
+        description: `Escalation policy for ${policy.district} updated`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Error saving policy',
+        description: 'Could not save the policy to the server',
+        variant: 'destructive',
+      });
+      // Apply locally for demo
+      replace(policy);
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Escalation Policies</h1>
+          <p className="text-muted-foreground">
+            Decide who is notified when alerts go unacknowledged
+          </p>
+        </div>
+        <Button
+          onClick={fetchPolicies}
+          disabled={loading}
+          className="gap-2"
+          variant="outline"
+        >
+          <RefreshCw className={cn("h-4 w-4", loading && "animate-spin")} />
+          Refresh
+        </Button>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-8">
+          <RefreshCw className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : (
+        <>
+          <EscalationSimulator policies={policies} />
+          <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+            {policies.map(policy => (
+              <EscalationPolicyEditor
+                key={policy.id}
+                policy={policy}
+                saving={saving === policy.id}
+                onSave={savePolicy}
+              />
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -3,72 +3,151 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { useToast } from '@/hooks/use-toast';
-import { locationsAPI, type Location } from '@/services/api';
-import { MapPin, RefreshCw, Map, List } from 'lucide-react';
+import { useDeviceHealth } from '@/hooks/use-device-health';
+import { useLocations } from '@/hooks/use-locations';
+import CalibrationLog from '@/components/calibration/CalibrationLog';
+import MaintenanceSchedule from '@/components/maintenance/MaintenanceSchedule';
+import {
+  calibrationsAPI,
+  devicesAPI,
+  maintenanceAPI,
+  type CalibrationRecord,
+  type Device,
+  type Location,
+  type MaintenanceWindow,
+} from '@/services/api';
+import { locationCache } from '@/services/locationCache';
+import { generateMockCalibrations, generateMockDevices, generateMockMaintenanceWindows } from '@/services/mockData';
+import { overdueCalibrations } from '@/lib/calibration';
+import { deriveLocationStatus, type LocationStatus } from '@/lib/deviceHealth';
+import { getActiveWindows } from '@/lib/maintenance';
+import { parameterRegistry } from '@/lib/parameters';
+import { Gauge, MapPin, RefreshCw, Map, List, Wrench } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
 export default function Locations() {
-  const [locations, setLocations] = useState<Location[]>([]);
+  const [windows, setWindows] = useState<MaintenanceWindow[]>([]);
+  const [calibrations, setCalibrations] = useState<CalibrationRecord[]>([]);
+  const [devices, setDevices] = useState<Device[]>([]);
   const [loading, setLoading] = useState(true);
   const [viewMode, setViewMode] = useState<'map' | 'table'>('map');
+  const { locations } = useLocations();
+  const { heartbeats, settings, now, refresh: refreshHeartbeats } = useDeviceHealth();
   const { toast } = useToast();
 
   const fetchLocations = async () => {
     try {
       setLoading(true);
-      const response = await locationsAPI.getLocations();
-      setLocations(response.data);
+      await locationCache.load(true);
     } catch (error) {
+      // The cache has already fallen back to the demo locations
       toast({
         title: 'Error fetching locations',
         description: 'Could not load locations data',
         variant: 'destructive',
       });
-      // Mock data for demo
-      setLocations([
-        {
-          id: '1',
-          village: 'Riverside Village',
-          district: 'District A',
-          state: 'Maharashtra',
-          latitude: 19.0760,
-          longitude: 72.8777,
-          status: 'active',
-        },
-        {
-          id: '2',
-          village: 'Mountain Springs',
-          district: 'District B',
-          state: 'Maharashtra',
-          latitude: 19.1136,
-          longitude: 72.8697,
-          status: 'warning',
-        },
-        {
-          id: '3',
-          village: 'Valley View',
-          district: 'District C',
-          state: 'Maharashtra',
-          latitude: 19.0896,
-          longitude: 72.8656,
-          status: 'inactive',
-        },
-      ]);
     } finally {
       setLoading(false);
     }
   };
 
+  const fetchWindows = async () => {
+    try {
+      const response = await maintenanceAPI.getWindows();
+      setWindows(response.data);
+    } catch (error) {
+      // Mock data for demo
+      setWindows(generateMockMaintenanceWindows());
+    }
+  };
+
+  const fetchCalibrations = async () => {
+    try {
+      const response = await calibrationsAPI.getCalibrations();
+      setCalibrations(response.data);
+    } catch (error) {
+      // Mock data for demo
+      setCalibrations(generateMockCalibrations());
+    }
+  };
+
+  const fetchDevices = async () => {
+    try {
+      const response = await devicesAPI.getDevices();
+      setDevices(response.data);
+    } catch (error) {
+      // Mock data for demo
+      setDevices(generateMockDevices());
+    }
+  };
+
   useEffect(() => {
     fetchLocations();
+    fetchWindows();
+    fetchCalibrations();
+    fetchDevices();
   }, []);
 
-  const getStatusColor = (status: string) => {
-    switch (status.toLowerCase()) {
+  const createWindow = async (draft: Omit<MaintenanceWindow, 'id'>) => {
+    try {
+      const response = await maintenanceAPI.createWindow(draft);
+      setWindows(prev => [...prev, response.data]);
+    } catch (error) {
+      toast({
+        title: 'Error scheduling maintenance',
+        description: 'Could not save the maintenance window to the server',
+        variant: 'destructive',
+      });
+      // Apply locally for demo
+      setWindows(prev => [...prev, { ...draft, id: `maintenance-${Date.now()}` }]);
+    }
+  };
+
+  const deleteWindow = async (window: MaintenanceWindow) => {
+    try {
+      await maintenanceAPI.deleteWindow(window.id);
+    } catch (error) {
+      toast({
+        title: 'Error cancelling maintenance',
+        description: 'Could not delete the maintenance window on the server',
+        variant: 'destructive',
+      });
+    } finally {
+      setWindows(prev => prev.filter(w => w.id !== window.id));
+    }
+  };
+
+  const createCalibration = async (draft: Omit<CalibrationRecord, 'id'>) => {
+    try {
+      const response = await calibrationsAPI.createCalibration(draft);
+      setCalibrations(prev => [...prev, response.data]);
+    } catch (error) {
+      toast({
+        title: 'Error saving calibration',
+        description: 'Could not save the calibration record to the server',
+        variant: 'destructive',
+      });
+      // Apply locally for demo
+      setCalibrations(prev => [...prev, { ...draft, id: `calibration-${Date.now()}` }]);
+    }
+  };
+
+  const overdueProbes = (location: Location) => overdueCalibrations(calibrations, location.id, devices);
+
+  const underMaintenance = (location: Location) => getActiveWindows(windows, location.id).length > 0;
+
+  const locationStatus = (location: Location) => deriveLocationStatus(location.id, devices, heartbeats, settings, now);
+
+  const countByStatus = (status: LocationStatus) => locations.filter(l => locationStatus(l) === status).length;
+
+  const getStatusColor = (status: LocationStatus) => {
+    switch (status) {
       case 'active':
         return 'bg-status-success text-white';
       case 'warning':
         return 'bg-status-warning text-white';
+      case 'offline':
+        return 'bg-status-critical text-white';
       case 'inactive':
         return 'bg-muted text-muted-foreground';
       default:
@@ -107,7 +186,13 @@ export default function Locations() {
             </Button>
           </div>
           <Button
-            onClick={fetchLocations}
+            onClick={() => {
+              fetchLocations();
+              fetchWindows();
+              fetchCalibrations();
+              fetchDevices();
+              refreshHeartbeats();
+            }}
             disabled={loading}
             className="gap-2"
             variant="outline"
@@ -119,7 +204,7 @@ export default function Locations() {
       </div>
 
       {/* Location Summary */}
-      <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+      <div className="grid grid-cols-1 md:grid-cols-5 gap-6">
         <Card className="shadow-card">
           <CardContent className="p-6">
             <div className="flex items-center gap-4">
@@ -143,7 +228,7 @@ export default function Locations() {
               <div>
                 <p className="text-sm font-medium text-muted-foreground">Active</p>
                 <p className="text-2xl font-bold text-status-success">
-                  {locations.filter(l => l.status === 'active').length}
+                  {countByStatus('active')}
                 </p>
               </div>
             </div>
@@ -159,7 +244,23 @@ export default function Locations() {
               <div>
                 <p className="text-sm font-medium text-muted-foreground">Warning</p>
                 <p className="text-2xl font-bold text-status-warning">
-                  {locations.filter(l => l.status === 'warning').length}
+                  {countByStatus('warning')}
+                </p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="shadow-card">
+          <CardContent className="p-6">
+            <div className="flex items-center gap-4">
+              <div className="p-3 bg-status-critical/10 rounded-lg">
+                <MapPin className="h-6 w-6 text-status-critical" />
+              </div>
+              <div>
+                <p className="text-sm font-medium text-muted-foreground">Offline</p>
+                <p className="text-2xl font-bold text-status-critical">
+                  {countByStatus('offline')}
                 </p>
               </div>
             </div>
@@ -175,7 +276,7 @@ export default function Locations() {
               <div>
                 <p className="text-sm font-medium text-muted-foreground">Inactive</p>
                 <p className="text-2xl font-bold text-muted-foreground">
-                  {locations.filter(l => l.status === 'inactive').length}
+                  {countByStatus('inactive')}
                 </p>
               </div>
             </div>
@@ -201,6 +302,16 @@ export default function Locations() {
                 <p className="text-sm text-muted-foreground mt-2">
                   {locations.length} monitoring stations
                 </p>
+                {locations.some(underMaintenance) && (
+                  <p className="text-sm text-status-warning mt-1">
+                    {locations.filter(underMaintenance).length} under maintenance
+                  </p>
+                )}
+                {locations.some(location => overdueProbes(location).length > 0) && (
+                  <p className="text-sm text-status-warning mt-1">
+                    {locations.filter(location => overdueProbes(location).length > 0).length} with calibrations overdue
+                  </p>
+                )}
               </div>
             </div>
           </CardContent>
@@ -235,9 +346,29 @@ export default function Locations() {
                         {location.latitude.toFixed(4)}, {location.longitude.toFixed(4)}
                       </td>
                       <td className="p-4">
-                        <Badge className={getStatusColor(location.status)}>
-                          {location.status.toUpperCase()}
-                        </Badge>
+                        <div className="flex items-center gap-2">
+                          <Badge className={getStatusColor(locationStatus(location))}>
+                            {locationStatus(location).toUpperCase()}
+                          </Badge>
+                          {underMaintenance(location) && (
+                            <Badge variant="outline" className="gap-1 text-status-warning border-status-warning">
+                              <Wrench className="h-3 w-3" />
+                              Maintenance
+                            </Badge>
+                          )}
+                          {overdueProbes(location).length > 0 && (
+                            <Badge
+                              variant="outline"
+                              className="gap-1 text-status-warning border-status-warning"
+                              title={`Calibration overdue: ${overdueProbes(location)
+                                .map(due => parameterRegistry[due.parameter].label)
+                                .join(', ')}`}
+                            >
+                              <Gauge className="h-3 w-3" />
+                              Calibration overdue
+                            </Badge>
+                          )}
+                        </div>
                       </td>
                     </tr>
                   ))}
@@ -247,6 +378,15 @@ export default function Locations() {
           </CardContent>
         </Card>
       )}
+
+      <MaintenanceSchedule
+        windows={windows}
+        locations={locations}
+        onCreate={createWindow}
+        onDelete={deleteWindow}
+      />
+
+      <CalibrationLog records={calibrations} locations={locations} devices={devices} onCreate={createCalibration} />
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,317 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import ChannelFormDialog from '@/components/notifications/ChannelFormDialog';
+import { useLocations } from '@/hooks/use-locations';
+import { useToast } from '@/hooks/use-toast';
+import {
+  notificationsAPI,
+  type NotificationChannel,
+  type NotificationDelivery,
+} from '@/services/api';
+import {
+  generateMockAlerts,
+  generateMockNotificationChannels,
+  generateMockRetryQueue,
+} from '@/services/mockData';
+import {
+  MAX_DELIVERY_ATTEMPTS,
+  channelAdapters,
+  channelMatches,
+  deliveryStatusLabels,
+  getDeliveryStatusColor,
+  recordAttempt,
+} from '@/lib/notifications';
+import { Mail, MessageSquare, Pencil, Plus, RefreshCw, RotateCcw, Send, Trash2, Webhook } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+const channelIcons = {
+  email: Mail,
+  sms: MessageSquare,
+  webhook: Webhook,
+};
+
+export default function Notifications() {
+  const [channels, setChannels] = useState<NotificationChannel[]>([]);
+  const [queue, setQueue] = useState<NotificationDelivery[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState<NotificationChannel | null>(null);
+  const [formOpen, setFormOpen] = useState(false);
+  const [busy, setBusy] = useState<string | null>(null);
+  const { locations, getLocationName } = useLocations();
+  const { toast } = useToast();
+
+  const fetchData = async () => {
+    try {
+      setLoading(true);
+      const [channelsResponse, queueResponse] = await Promise.all([
+        notificationsAPI.getChannels(),
+        notificationsAPI.getRetryQueue(),
+      ]);
+      setChannels(channelsResponse.data);
+      setQueue(queueResponse.data);
+    } catch (error) {
+      toast({
+        title: 'Error fetching notification settings',
+        description: 'Could not load notification channels',
+        variant: 'destructive',
+      });
+      // Mock data for demo
+      setChannels(generateMockNotificationChannels());
+      setQueue(generateMockRetryQueue());
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const upsertChannel = (channel: NotificationChannel) => {
+    setChannels(prev => (prev.some(c => c.id === channel.id)
+      ? prev.map(c => (c.id === channel.id ? channel : c))
+      : [...prev, channel]));
+  };
+
+  const saveChannel = async (draft: Omit<NotificationChannel, 'id'> & { id?: string }) => {
+    try {
+      const response = await notificationsAPI.saveChannel(draft);
+      upsertChannel(response.data);
+    } catch (error) {
+      toast({
+        title: 'Error saving channel',
+        description: 'Could not save the channel to the server',
+        variant: 'destructive',
+      });
+      // Apply locally for demo
+      upsertChannel({ ...draft, id: draft.id ?? `channel-${Date.now()}` });
+    } finally {
+      setFormOpen(false);
+    }
+  };
+
+  const deleteChannel = async (channel: NotificationChannel) => {
+    try {
+      await notificationsAPI.deleteChannel(channel.id);
+    } catch (error) {
+      toast({
+        title: 'Error deleting channel',
+        description: 'Could not delete the channel on the server',
+        variant: 'destructive',
+      });
+    } finally {
+      setChannels(prev => prev.filter(c => c.id !== channel.id));
+    }
+  };
+
+  const testChannel = async (channel: NotificationChannel) => {
+    try {
+      setBusy(channel.id);
+      const response = await notificationsAPI.testChannel(channel.id);
+      const delivery = response.data;
+      toast({
+        title: delivery.status === 'sent' ? 'Test notification sent' : 'Test notification failed',
+        description: delivery.error ?? `${channel.name} accepted the test message`,
+        variant: delivery.status === 'sent' ? 'default' : 'destructive',
+      });
+    } catch (error) {
+      toast({
+        title: 'Test notification failed',
+        description: 'Could not reach the notification service',
+        variant: 'destructive',
+      });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const retryDelivery = async (delivery: NotificationDelivery) => {
+    try {
+      setBusy(delivery.id);
+      const response = await notificationsAPI.retryDelivery(delivery.id);
+      setQueue(prev => (response.data.status === 'sent'
+        ? prev.filter(d => d.id !== delivery.id)
+        : prev.map(d => (d.id === delivery.id ? response.data : d))));
+    } catch (error) {
+      toast({
+        title: 'Retry failed',
+        description: 'Could not reach the notification service',
+        variant: 'destructive',
+      });
+      // Record the failed attempt locally for demo
+      setQueue(prev => prev.map(d => (d.id === delivery.id
+        ? recordAttempt(d, 'Could not reach the notification service')
+        : d)));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const openCreate = () => {
+    setEditing(null);
+    setFormOpen(true);
+  };
+
+  const openEdit = (channel: NotificationChannel) => {
+    setEditing(channel);
+    setFormOpen(true);
+  };
+
+  const sampleAlerts = generateMockAlerts();
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Notifications</h1>
+          <p className="text-muted-foreground">
+            Send alerts to email, SMS and external systems
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button onClick={openCreate} className="gap-2">
+            <Plus className="h-4 w-4" />
+            New Channel
+          </Button>
+          <Button
+            onClick={fetchData}
+            disabled={loading}
+            className="gap-2"
+            variant="outline"
+          >
+            <RefreshCw className={cn("h-4 w-4", loading && "animate-spin")} />
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      <Card className="shadow-card">
+        <CardHeader>
+          <CardTitle>Channels</CardTitle>
+          <CardDescription>
+            Each channel receives the alerts matching its severities and locations
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex items-center justify-center py-8">
+              <RefreshCw className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {channels.map((channel) => {
+                const Icon = channelIcons[channel.type];
+                // Previews an alert the channel would actually receive, where there is one.
+                const previewAlert = sampleAlerts.find(alert => channelMatches(channel, alert)) ?? sampleAlerts[0];
+                return (
+                  <div
+                    key={channel.id}
+                    className={cn(
+                      "flex flex-col gap-4 p-4 border border-border rounded-lg md:flex-row md:items-start",
+                      !channel.enabled && "opacity-60"
+                    )}
+                  >
+                    <Switch
+                      checked={channel.enabled}
+                      onCheckedChange={(enabled) => saveChannel({ ...channel, enabled })}
+                      aria-label={`Enable ${channel.name}`}
+                    />
+                    <div className="flex-1 min-w-0 space-y-2">
+                      <div className="flex items-center gap-2">
+                        <Icon className="h-4 w-4 text-muted-foreground" />
+                        <p className="font-medium">{channel.name}</p>
+                        <Badge variant="outline">{channelAdapters[channel.type].label}</Badge>
+                      </div>
+                      <p className="text-sm text-muted-foreground">
+                        {channel.severities.map(s => s.toUpperCase()).join(', ')} alerts from{' '}
+                        {channel.locationIds.length === 0 ? 'all locations' : channel.locationIds.map(getLocationName).join('; ')}
+                      </p>
+                      <details className="text-sm">
+                        <summary className="cursor-pointer text-muted-foreground">Message preview</summary>
+                        <pre className="mt-2 whitespace-pre-wrap rounded-md bg-muted p-3 text-xs">
+                          {channelAdapters[channel.type].formatMessage(previewAlert, getLocationName(previewAlert.locationId))}
+                        </pre>
+                      </details>
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="gap-1"
+                        disabled={busy === channel.id}
+                        onClick={() => testChannel(channel)}
+                      >
+                        <Send className="h-3 w-3" />
+                        Test
+                      </Button>
+                      <Button size="sm" variant="ghost" onClick={() => openEdit(channel)} aria-label="Edit channel">
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button size="sm" variant="ghost" onClick={() => deleteChannel(channel)} aria-label="Delete channel">
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Retry Queue */}
+      <Card className="shadow-card">
+        <CardHeader>
+          <CardTitle>Retry Queue</CardTitle>
+          <CardDescription>
+            Deliveries are retried automatically up to {MAX_DELIVERY_ATTEMPTS} times
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {queue.length === 0 ? (
+            <p className="py-4 text-center text-sm text-muted-foreground">All notifications delivered</p>
+          ) : (
+            <div className="space-y-3">
+              {queue.map(delivery => (
+                <div key={delivery.id} className="flex items-center gap-4 text-sm">
+                  <Badge variant="outline" className={getDeliveryStatusColor(delivery.status)}>
+                    {deliveryStatusLabels[delivery.status]}
+                  </Badge>
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium">{delivery.channelName}</p>
+                    <p className="text-xs text-muted-foreground">
+                      Alert {delivery.alertId} · {delivery.attempts}/{MAX_DELIVERY_ATTEMPTS} attempts
+                      {delivery.nextRetryAt && ` · next retry ${new Date(delivery.nextRetryAt).toLocaleTimeString()}`}
+                      {delivery.error && ` · ${delivery.error}`}
+                    </p>
+                  </div>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="gap-1"
+                    disabled={busy === delivery.id}
+                    onClick={() => retryDelivery(delivery)}
+                  >
+                    <RotateCcw className="h-3 w-3" />
+                    Retry now
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <ChannelFormDialog
+        open={formOpen}
+        channel={editing}
+        locations={locations}
+        onOpenChange={setFormOpen}
+        onSubmit={saveChannel}
+      />
+    </div>
+  );
+}
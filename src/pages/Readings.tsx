@@ -1,82 +1,563 @@
-import { useState, useEffect } from 'react';
+import { Fragment, useState, useEffect, useMemo, useCallback, useRef } from 'react';
+import type { DateRange } from 'react-day-picker';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import LabSampleFormDialog from '@/components/readings/LabSampleFormDialog';
+import ReadingImportWizard from '@/components/readings/ReadingImportWizard';
+import LocationComparisonTable from '@/components/readings/LocationComparisonTable';
+import ParameterChart from '@/components/readings/ParameterChart';
+import PredictedBreachesCard from '@/components/readings/PredictedBreachesCard';
+import ReadingsTable from '@/components/readings/ReadingsTable';
+import ReadingStatsPanel, { type StatsRow } from '@/components/readings/ReadingStatsPanel';
+import {
+  COMPARISON_COLORS,
+  complianceFormatter,
+  flagsKey,
+  forecastKey,
+  labKey,
+  limitDot,
+  renderLimits,
+  tooltipStyle,
+  type ChartSeries,
+} from '@/components/readings/chartElements';
+import { useDownsample } from '@/hooks/use-downsample';
+import { useElementWidth } from '@/hooks/use-element-width';
+import { useLocations } from '@/hooks/use-locations';
 import { useToast } from '@/hooks/use-toast';
-import { readingsAPI, type Reading } from '@/services/api';
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, AreaChart, Area } from 'recharts';
-import { RefreshCw, Droplets, Activity, Thermometer } from 'lucide-react';
+import { useRealtimeEvent } from '@/hooks/use-realtime';
+import {
+  calibrationsAPI,
+  devicesAPI,
+  readingsAPI,
+  rulesAPI,
+  type CalibrationRecord,
+  type Device,
+  type ParameterKey,
+  type Reading,
+  type ReadingAggregate,
+  type ReadingStats,
+  type ReadingsBucket,
+  type ReadingsQuery,
+  type ThresholdRule,
+} from '@/services/api';
+import { generateMockCalibrations, generateMockDevices, generateMockReadings } from '@/services/mockData';
+import { correctAggregates, correctReadings } from '@/lib/calibration';
+import { detectAnomalies, isSuspect, readingFlagLabels } from '@/lib/anomalies';
+import { pointsForWidth } from '@/lib/downsample';
+import { forecastHorizons, forecastParameter, predictBreaches } from '@/lib/forecast';
+import { formatLocationName } from '@/lib/locations';
+import {
+  formatParameterValue,
+  parameterKeys,
+  parameterRegistry,
+  parameterTitle,
+  presentParameters,
+  roundParameterValue,
+} from '@/lib/parameters';
+import {
+  aggregateReadings,
+  aggregateTableRows,
+  chooseBucket,
+  formatChartTime,
+  latestValues,
+  readingTableRows,
+  readingsBuckets,
+  resolveTimeRange,
+  timeRangePresets,
+  type TimeRange,
+  type TimeRangePreset,
+} from '@/lib/readings';
+import {
+  defaultThresholdRules,
+  describeLimits,
+  getParameterLimits,
+  type ParameterLimits,
+} from '@/lib/rules';
+import { describeReadings, expectedReadings } from '@/lib/stats';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from 'recharts';
+import {
+  RefreshCw,
+  Droplets,
+  Activity,
+  Thermometer,
+  FlaskConical,
+  CalendarDays,
+  SlidersHorizontal,
+  MapPin,
+  TestTube,
+  Upload,
+} from 'lucide-react';
+import type { LucideIcon } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
+type ChartRow = { timestamp: number; time: string } & Record<string, number | string | number[]>;
+
+const parameterIcons: Partial<Record<ParameterKey, LucideIcon>> = {
+  ph: Droplets,
+  turbidity: Activity,
+  temperature: Thermometer,
+};
+
+// Compared series are keyed by parameter and location, e.g. "ph@2".
+const seriesKey = (parameter: ParameterKey, locationId: string | null) =>
+  (locationId ? `${parameter}@${locationId}` : parameter);
+
+const formatDay = (date: Date) => date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
 export default function Readings() {
-  const [readings, setReadings] = useState<Reading[]>([]);
+  // As stored, before calibration corrections.
+  const [rawReadings, setReadings] = useState<Reading[]>([]);
+  const [rawAggregates, setAggregates] = useState<ReadingAggregate[]>([]);
+  const [bucket, setBucket] = useState<ReadingsBucket | null>(null);
+  // Statistics of the raw readings behind a bucketed view, from the server.
+  const [bucketStats, setBucketStats] = useState<ReadingStats[]>([]);
   const [loading, setLoading] = useState(true);
-  const [selectedLocation, setSelectedLocation] = useState<string>('all');
-  const [timeRange, setTimeRange] = useState<string>('24h');
+  // Empty means every location.
+  const [selectedLocationIds, setSelectedLocationIds] = useState<string[]>([]);
+  const [timeRange, setTimeRange] = useState<TimeRange>('24h');
+  const [customRange, setCustomRange] = useState<DateRange | undefined>();
+  const [showRawData, setShowRawData] = useState(false);
+  const [hiddenParameters, setHiddenParameters] = useState<ParameterKey[]>([]);
+  const [rules, setRules] = useState<ThresholdRule[]>([]);
+  const [calibrations, setCalibrations] = useState<CalibrationRecord[]>([]);
+  const [corrected, setCorrected] = useState(true);
+  const [devices, setDevices] = useState<Device[]>([]);
+  const [sampleFormOpen, setSampleFormOpen] = useState(false);
+  const [importOpen, setImportOpen] = useState(false);
+  // Hours ahead to forecast, or null for no forecast.
+  const [forecastHours, setForecastHours] = useState<number | null>(null);
+  const { ref: chartRef, width: chartWidth } = useElementWidth<HTMLDivElement>();
+  const { locations, getLocationName, getShortLocationName } = useLocations();
   const { toast } = useToast();
+  // Changing the range or locations mid-fetch starts another one; only the latest may update the chart.
+  const latestFetch = useRef(0);
+  const latestStatsFetch = useRef(0);
+
+  // Compared locations are fetched separately so each keeps its own series.
+  const queriesFor = (bounds: { from: Date; to: Date }): ReadingsQuery[] =>
+    (selectedLocationIds.length > 0 ? selectedLocationIds : [undefined]).map(locationId => ({
+      locationId,
+      from: bounds.from.toISOString(),
+      to: bounds.to.toISOString(),
+    }));
 
   const fetchReadings = async () => {
+    const bounds = resolveTimeRange(timeRange, customRange);
+    if (!bounds) return;
+    const queries = queriesFor(bounds);
+    const nextBucket = chooseBucket(bounds.from, bounds.to);
+    const fetchId = ++latestFetch.current;
+    const isStale = () => fetchId !== latestFetch.current;
+
     try {
       setLoading(true);
-      const response = await readingsAPI.getReadings();
-      setReadings(response.data);
+      if (nextBucket) {
+        const responses = await Promise.all(
+          queries.map(query => readingsAPI.getAggregatedReadings({ ...query, bucket: nextBucket }))
+        );
+        if (isStale()) return;
+        setAggregates(responses.flatMap(response => response.data));
+        setReadings([]);
+      } else {
+        const responses = await Promise.all(queries.map(query => readingsAPI.getReadings(query)));
+        if (isStale()) return;
+        setReadings(responses.flatMap(response => response.data));
+        setAggregates([]);
+      }
+      setBucket(nextBucket);
     } catch (error) {
+      if (isStale()) return;
       toast({
         title: 'Error fetching readings',
         description: 'Could not load sensor readings',
         variant: 'destructive',
       });
-      
+
       // Mock data for demo
-      const now = new Date();
-      const mockReadings: Reading[] = [];
-      
-      for (let i = 0; i < 24; i++) {
-        const timestamp = new Date(now.getTime() - i * 60 * 60 * 1000);
-        mockReadings.push({
-          id: `reading-${i}`,
-          location: i % 3 === 0 ? 'Riverside Village' : i % 3 === 1 ? 'Mountain Springs' : 'Valley View',
-          ph: 6.5 + Math.random() * 2,
-          turbidity: 20 + Math.random() * 60,
-          temperature: 22 + Math.random() * 8,
-          timestamp: timestamp.toISOString(),
-        });
+      if (nextBucket) {
+        setAggregates(queries.flatMap(query =>
+          aggregateReadings(generateMockReadings(query), nextBucket, query.locationId ?? null)));
+        setReadings([]);
+      } else {
+        setReadings(queries.flatMap(query => generateMockReadings(query)));
+        setAggregates([]);
       }
-      
-      setReadings(mockReadings.reverse());
+      setBucket(nextBucket);
     } finally {
-      setLoading(false);
+      if (!isStale()) setLoading(false);
     }
   };
 
-  useEffect(() => {
+  // Buckets can't give back medians, percentiles or the share of readings in
+  // range, so bucketed views ask the server to work those out from the raw ones.
+  const fetchStats = async (calibrated = corrected) => {
+    const fetchId = ++latestStatsFetch.current;
+    const isStale = () => fetchId !== latestStatsFetch.current;
+    const bounds = resolveTimeRange(timeRange, customRange);
+    if (!bounds || !chooseBucket(bounds.from, bounds.to)) {
+      setBucketStats([]);
+      return;
+    }
+    const queries = queriesFor(bounds);
+
+    try {
+      const responses = await Promise.all(queries.map(query => readingsAPI.getReadingStats({ ...query, corrected: calibrated })));
+      if (isStale()) return;
+      setBucketStats(responses.flatMap(response => response.data));
+    } catch (error) {
+      if (isStale()) return;
+      // Mock data for demo
+      const mockReadings = queries.flatMap(query => generateMockReadings(query));
+      const analysed = detectAnomalies(calibrated ? correctReadings(mockReadings, generateMockCalibrations()) : mockReadings);
+      setBucketStats(describeReadings(analysed, defaultThresholdRules, expectedReadings(bounds.from, bounds.to)));
+    }
+  };
+
+  const refresh = () => {
     fetchReadings();
+    fetchStats();
+  };
+
+  // The server corrects the statistics, so switching asks for them again.
+  const changeCorrected = (value: boolean) => {
+    setCorrected(value);
+    fetchStats(value);
+  };
+
+  const fetchRules = async () => {
+    try {
+      const response = await rulesAPI.getRules();
+      setRules(response.data);
+    } catch (error) {
+      // Mock data for demo
+      setRules(defaultThresholdRules);
+    }
+  };
+
+  const fetchCalibrations = async () => {
+    try {
+      const response = await calibrationsAPI.getCalibrations();
+      setCalibrations(response.data);
+    } catch (error) {
+      // Mock data for demo
+      setCalibrations(generateMockCalibrations());
+    }
+  };
+
+  const fetchDevices = async () => {
+    try {
+      const response = await devicesAPI.getDevices();
+      setDevices(response.data);
+    } catch (error) {
+      // Mock data for demo
+      setDevices(generateMockDevices());
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, [timeRange, customRange, selectedLocationIds]);
+
+  useEffect(() => {
+    fetchRules();
+    fetchCalibrations();
+    fetchDevices();
   }, []);
 
-  // Filter readings based on selected location
-  const filteredReadings = selectedLocation === 'all' 
-    ? readings 
-    : readings.filter(reading => reading.location === selectedLocation);
-
-  // Prepare chart data
-  const chartData = filteredReadings.map(reading => ({
-    time: new Date(reading.timestamp).toLocaleTimeString('en-US', { 
-      hour: '2-digit', 
-      minute: '2-digit' 
-    }),
-    pH: Number(reading.ph.toFixed(2)),
-    turbidity: Number(reading.turbidity.toFixed(1)),
-    temperature: Number(reading.temperature.toFixed(1)),
-  }));
-
-  // Calculate current averages
-  const currentAverages = filteredReadings.length > 0 ? {
-    ph: filteredReadings.reduce((sum, r) => sum + r.ph, 0) / filteredReadings.length,
-    turbidity: filteredReadings.reduce((sum, r) => sum + r.turbidity, 0) / filteredReadings.length,
-    temperature: filteredReadings.reduce((sum, r) => sum + r.temperature, 0) / filteredReadings.length,
-  } : { ph: 0, turbidity: 0, temperature: 0 };
-
-  const locations = [...new Set(readings.map(r => r.location))];
+  // Everything below works on the corrected values unless raw ones are asked for.
+  const readings = useMemo(
+    () => (corrected ? correctReadings(rawReadings, calibrations) : rawReadings),
+    [corrected, rawReadings, calibrations],
+  );
+  const aggregates = useMemo(
+    () => (corrected ? correctAggregates(rawAggregates, calibrations, devices) : rawAggregates),
+    [corrected, rawAggregates, calibrations, devices],
+  );
+
+  const isSelected = (locationId: string) =>
+    selectedLocationIds.length === 0 || selectedLocationIds.includes(locationId);
+
+  useRealtimeEvent('reading', (reading) => {
+    // Only a live raw view grows; aggregated and custom ranges stay as fetched.
+    if (bucket || timeRange === 'custom') return;
+    if (!isSelected(reading.locationId)) return;
+    setReadings(prev => (prev.some(r => r.id === reading.id) ? prev : [...prev, reading]));
+  });
+
+  // New readings join a raw view directly if they fall inside it; aggregated
+  // views are refetched so the server buckets them.
+  const showReadings = (added: Reading[]) => {
+    const shownRange = resolveTimeRange(timeRange, customRange);
+    if (!shownRange) return;
+    const shown = added.filter((reading) => {
+      const time = new Date(reading.timestamp);
+      return isSelected(reading.locationId) && time >= shownRange.from && time <= shownRange.to;
+    });
+    if (shown.length === 0) return;
+    if (bucket) {
+      refresh();
+      return;
+    }
+    setReadings(prev => [...prev, ...shown]);
+  };
+
+  const recordSample = async (sample: Omit<Reading, 'id' | 'flags'>) => {
+    try {
+      const response = await readingsAPI.createReading(sample);
+      showReadings([response.data]);
+    } catch (error) {
+      toast({
+        title: 'Error recording sample',
+        description: 'Could not save the sample to the server',
+        variant: 'destructive',
+      });
+      // Apply locally for demo
+      showReadings([{ ...sample, id: `sample-${Date.now()}` }]);
+    } finally {
+      setSampleFormOpen(false);
+    }
+  };
+
+  const bounds = resolveTimeRange(timeRange, customRange);
+  const span = bounds ? bounds.to.getTime() - bounds.from.getTime() : 0;
+
+  // Only parameters the selected sensors actually report get a card and chart.
+  const reportedParameters = useMemo(
+    () => presentParameters(bucket ? aggregates : readings),
+    [bucket, aggregates, readings],
+  );
+  const visibleParameters = reportedParameters.filter(key => !hiddenParameters.includes(key));
+
+  const toggleParameter = (key: ParameterKey, visible: boolean) => {
+    setHiddenParameters(prev => (visible ? prev.filter(k => k !== key) : [...prev, key]));
+  };
+
+  // Aggregates can't be checked for faults, so only raw readings get flags.
+  const analysedReadings = useMemo(() => detectAnomalies(readings), [readings]);
+
+  // Every picked location gets its own series, and so, with none picked, does
+  // every location in a raw view. Aggregates for all locations come averaged
+  // across them from the server, so they chart as one series per parameter.
+  const chartedLocationIds = useMemo(() => {
+    if (selectedLocationIds.length > 0) return selectedLocationIds;
+    return bucket ? [] : [...new Set(readings.map(r => r.locationId))].sort();
+  }, [selectedLocationIds, bucket, readings]);
+  const comparing = chartedLocationIds.length > 1;
+
+  // Prepare chart data. Aggregated points chart the bucket average, with the
+  // min-max spread drawn as a band behind it. When comparing, readings taken
+  // at the same time share a row so every location lines up on the x axis.
+  // Rows with fault flags or lab samples are pinned so downsampling never drops them.
+  const chartData = useMemo<ChartRow[]>(() => {
+    const rows: ChartRow[] = [];
+    const rowsByTime = new Map<number, ChartRow>();
+    const rowAt = (timestamp: string) => {
+      const time = new Date(timestamp).getTime();
+      const existing = comparing ? rowsByTime.get(time) : undefined;
+      if (existing) return existing;
+      const row: ChartRow = { timestamp: time, time: formatChartTime(timestamp, span) };
+      rowsByTime.set(time, row);
+      rows.push(row);
+      return row;
+    };
+
+    if (bucket) {
+      aggregates.forEach((aggregate) => {
+        const row = rowAt(aggregate.bucketStart);
+        Object.entries(aggregate.values).forEach(([key, range]) => {
+          const parameter = key as ParameterKey;
+          const series = seriesKey(parameter, comparing ? aggregate.locationId : null);
+          row[series] = roundParameterValue(parameter, range.avg);
+          row[`${series}Range`] = [roundParameterValue(parameter, range.min), roundParameterValue(parameter, range.max)];
+        });
+      });
+    } else {
+      analysedReadings.forEach((reading) => {
+        const row = rowAt(reading.timestamp);
+        const locationId = comparing ? reading.locationId : null;
+        const lab = reading.source === 'lab';
+        Object.entries(reading.values).forEach(([key, value]) => {
+          const parameter = key as ParameterKey;
+          row[seriesKey(parameter, locationId)] = roundParameterValue(parameter, value);
+          if (lab) row[labKey(seriesKey(parameter, locationId))] = 1;
+        });
+        if (lab) row.pinned = 1;
+        (reading.flags ?? []).forEach((flag) => {
+          row.pinned = 1;
+          if (flag.type === 'gap') {
+            row.gap = 1;
+            return;
+          }
+          const key = flagsKey(seriesKey(flag.parameter, locationId));
+          const label = readingFlagLabels[flag.type];
+          row[key] = row[key] ? `${row[key]}, ${label}` : label;
+        });
+      });
+    }
+
+    return rows.sort((a, b) => a.timestamp - b.timestamp);
+  }, [bucket, aggregates, analysedReadings, span, comparing]);
+
+  const downsampledKeys = useMemo(() => (comparing
+    ? reportedParameters.flatMap(parameter => chartedLocationIds.map(locationId => seriesKey(parameter, locationId)))
+    : reportedParameters), [reportedParameters, comparing, chartedLocationIds]);
+
+  // Long raw series are thinned to what the chart can show, keeping spikes.
+  const { rows: plottedData, downsampled } = useDownsample(
+    chartData,
+    downsampledKeys,
+    pointsForWidth(chartWidth),
+    !bucket && !showRawData && chartWidth > 0,
+    'pinned',
+  );
+  const gapTimes = plottedData.filter(row => row.gap).map(row => row.time);
+
+  // Forecasts are per location, so they need at least one picked.
+  const forecasts = useMemo(() => {
+    if (!forecastHours) return [];
+    const history = bucket ? aggregates : analysedReadings;
+    return selectedLocationIds.flatMap((locationId) => {
+      const latest = latestValues(history.filter(row => row.locationId === locationId));
+      return reportedParameters.flatMap((parameter) => {
+        const points = forecastParameter(history, parameter, locationId, forecastHours * 60 * 60 * 1000);
+        return points ? [{ locationId, parameter, points, latest: latest[parameter] }] : [];
+      });
+    });
+  }, [forecastHours, bucket, aggregates, analysedReadings, selectedLocationIds, reportedParameters]);
+  const predictedBreaches = useMemo(() => predictBreaches(forecasts, rules), [forecasts, rules]);
+
+  // Forecast rows follow the plotted ones. Each forecast also starts on its
+  // series' last plotted value, so the dashed line carries on from the solid one.
+  const chartRows = useMemo(() => {
+    if (forecasts.length === 0) return plottedData;
+    const rows = [...plottedData];
+    const future = new Map<number, ChartRow>();
+    forecasts.forEach(({ locationId, parameter, points }) => {
+      const series = seriesKey(parameter, comparing ? locationId : null);
+      const key = forecastKey(series);
+      let last = rows.length - 1;
+      while (last >= 0 && typeof rows[last][series] !== 'number') last--;
+      if (last >= 0) {
+        const value = rows[last][series] as number;
+        rows[last] = { ...rows[last], [key]: value, [`${key}Range`]: [value, value] };
+      }
+      points.forEach((point) => {
+        const row = future.get(point.timestamp)
+          ?? { timestamp: point.timestamp, time: formatChartTime(new Date(point.timestamp).toISOString(), span) };
+        row[key] = roundParameterValue(parameter, point.value);
+        row[`${key}Range`] = [roundParameterValue(parameter, point.lower), roundParameterValue(parameter, point.upper)];
+        future.set(point.timestamp, row);
+      });
+    });
+    return [...rows, ...[...future.values()].sort((a, b) => a.timestamp - b.timestamp)];
+  }, [plottedData, forecasts, comparing, span]);
+
+  // Limits come from the alerting rules that apply at each location. The
+  // shared bands use a single selected location's rules, otherwise the global ones.
+  const limitsByLocation = useMemo(() => new Map(
+    [null, ...chartedLocationIds].map(locationId => [
+      locationId,
+      Object.fromEntries(
+        parameterKeys.map(key => [key, getParameterLimits(rules, key, locationId)]),
+      ) as Record<ParameterKey, ParameterLimits>,
+    ]),
+  ), [rules, chartedLocationIds]);
+  const limits = limitsByLocation.get(selectedLocationIds.length === 1 ? selectedLocationIds[0] : null);
+
+  const seriesFor = (parameter: ParameterKey): ChartSeries[] => (comparing
+    ? chartedLocationIds.map((locationId, index) => ({
+        key: seriesKey(parameter, locationId),
+        parameter,
+        name: getShortLocationName(locationId),
+        color: COMPARISON_COLORS[index % COMPARISON_COLORS.length],
+        limits: limitsByLocation.get(locationId)[parameter],
+      }))
+    : [{
+        key: parameter,
+        parameter,
+        name: parameterRegistry[parameter].label,
+        color: parameterRegistry[parameter].color,
+        limits: limits[parameter],
+      }]);
+
+  const comparedLocations = comparing
+    ? chartedLocationIds.map((locationId, index) => ({
+        id: locationId,
+        name: getShortLocationName(locationId),
+        color: COMPARISON_COLORS[index % COMPARISON_COLORS.length],
+        values: latestValues(bucket
+          ? aggregates.filter(a => a.locationId === locationId)
+          : readings.filter(r => r.locationId === locationId)),
+        limits: limitsByLocation.get(locationId),
+      }))
+    : [];
+
+  const toggleLocation = (locationId: string, selected: boolean) => {
+    setSelectedLocationIds(prev => (selected ? [...prev, locationId] : prev.filter(id => id !== locationId)));
+  };
+
+  const locationSummary = selectedLocationIds.length === 0
+    ? 'All Locations'
+    : selectedLocationIds.length === 1
+      ? getLocationName(selectedLocationIds[0])
+      : `${selectedLocationIds.length} locations`;
+
+  // Calculate averages, weighting each bucket by how many readings reported the parameter
+  const averageOf = (key: ParameterKey) => {
+    if (bucket) {
+      const ranges = aggregates.map(a => a.values[key]).filter(Boolean);
+      const count = ranges.reduce((sum, range) => sum + range.count, 0);
+      return count > 0 ? ranges.reduce((sum, range) => sum + range.avg * range.count, 0) / count : null;
+    }
+    const values = readings.map(r => r.values[key]).filter((value): value is number => value !== undefined);
+    return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+  };
+
+  // Statistics per parameter and location, always from raw readings: the
+  // server's for bucketed views, the ones on the chart otherwise.
+  const readingStats = bucket
+    ? bucketStats
+    : bounds ? describeReadings(analysedReadings, rules, expectedReadings(bounds.from, bounds.to)) : [];
+  const statsRows: StatsRow[] = visibleParameters.flatMap(parameter => readingStats
+    .filter(row => row.parameter === parameter)
+    .map(row => ({ ...row, locationName: getLocationName(row.locationId) })));
+
+  const tableRows = useMemo(
+    () => (bucket ? aggregateTableRows(aggregates) : readingTableRows(analysedReadings, devices)),
+    [bucket, aggregates, analysedReadings, devices],
+  );
+  const tableLocationName = useCallback(
+    (locationId: string | null) => (locationId ? getLocationName(locationId) : 'All locations'),
+    [getLocationName],
+  );
+  const exportName = bounds
+    ? `readings-${bounds.from.toISOString().slice(0, 10)}-to-${bounds.to.toISOString().slice(0, 10)}`
+    : 'readings';
+
+  const averagedOver = selectedLocationIds.length === 0 ? ' across all locations' : '';
+  const rangeDescription = `${bucket
+    ? comparing
+      ? `Averaged per ${readingsBuckets[bucket].label}`
+      : `Averaged${averagedOver} per ${readingsBuckets[bucket].label}, shaded band shows the min-max spread`
+    : downsampled
+      ? `Showing ${plottedData.length} of ${readings.length} readings, thinned to fit the chart`
+      : `${readings.length} readings`}${corrected ? '' : ', as the probes read them before calibration'}`;
 
   return (
     <div className="space-y-6">
@@ -88,21 +569,131 @@ export default function Readings() {
           </p>
         </div>
         <div className="flex items-center gap-2">
-          <Select value={selectedLocation} onValueChange={setSelectedLocation}>
-            <SelectTrigger className="w-48">
-              <SelectValue placeholder="Select location" />
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button variant="outline" className="w-48 justify-start gap-2">
+                <MapPin className="h-4 w-4" />
+                <span className="truncate">{locationSummary}</span>
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-72 space-y-3" align="end">
+              <div className="flex items-center justify-between">
+                <p className="text-sm font-medium">Compare locations</p>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={selectedLocationIds.length === 0}
+                  onClick={() => setSelectedLocationIds([])}
+                >
+                  All locations
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Each location is plotted as its own series
+              </p>
+              {locations.map(location => (
+                <div key={location.id} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`location-${location.id}`}
+                    checked={selectedLocationIds.includes(location.id)}
+                    onCheckedChange={(checked) => toggleLocation(location.id, checked === true)}
+                  />
+                  <Label htmlFor={`location-${location.id}`}>{formatLocationName(location)}</Label>
+                </div>
+              ))}
+            </PopoverContent>
+          </Popover>
+          <Select value={timeRange} onValueChange={(value) => setTimeRange(value as TimeRange)}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
             </SelectTrigger>
             <SelectContent>
-              <SelectItem value="all">All Locations</SelectItem>
-              {locations.map(location => (
-                <SelectItem key={location} value={location}>
-                  {location}
+              {(Object.keys(timeRangePresets) as TimeRangePreset[]).map(preset => (
+                <SelectItem key={preset} value={preset}>
+                  {timeRangePresets[preset].label}
                 </SelectItem>
               ))}
+              <SelectItem value="custom">Custom range</SelectItem>
             </SelectContent>
           </Select>
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button variant="outline" className="gap-2">
+                <SlidersHorizontal className="h-4 w-4" />
+                Parameters ({visibleParameters.length}/{reportedParameters.length})
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-64 space-y-2" align="end">
+              {reportedParameters.length === 0 && (
+                <p className="text-sm text-muted-foreground">No parameters reported in this range</p>
+              )}
+              {reportedParameters.map(key => (
+                <div key={key} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`parameter-${key}`}
+                    checked={!hiddenParameters.includes(key)}
+                    onCheckedChange={(checked) => toggleParameter(key, checked === true)}
+                  />
+                  <Label htmlFor={`parameter-${key}`}>{parameterRegistry[key].label}</Label>
+                </div>
+              ))}
+            </PopoverContent>
+          </Popover>
+          <Select
+            value={forecastHours ? String(forecastHours) : 'off'}
+            onValueChange={(value) => setForecastHours(value === 'off' ? null : Number(value))}
+          >
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="off">No forecast</SelectItem>
+              {forecastHorizons.map(hours => (
+                <SelectItem key={hours} value={String(hours)}>Forecast {hours} h</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {!bucket && (
+            <div className="flex items-center gap-2 px-2">
+              <Switch id="raw-data" checked={showRawData} onCheckedChange={setShowRawData} />
+              <Label htmlFor="raw-data">Raw data</Label>
+            </div>
+          )}
+          <div className="flex items-center gap-2 px-2">
+            <Switch id="corrected" checked={corrected} onCheckedChange={changeCorrected} />
+            <Label htmlFor="corrected">Calibrated</Label>
+          </div>
+          {timeRange === 'custom' && (
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button variant="outline" className="gap-2">
+                  <CalendarDays className="h-4 w-4" />
+                  {customRange?.from
+                    ? `${formatDay(customRange.from)} – ${formatDay(customRange.to ?? customRange.from)}`
+                    : 'Pick dates'}
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-auto p-0" align="end">
+                <Calendar
+                  mode="range"
+                  selected={customRange}
+                  onSelect={setCustomRange}
+                  numberOfMonths={2}
+                  disabled={{ after: new Date() }}
+                />
+              </PopoverContent>
+            </Popover>
+          )}
+          <Button onClick={() => setImportOpen(true)} className="gap-2" variant="outline">
+            <Upload className="h-4 w-4" />
+            Import
+          </Button>
+          <Button onClick={() => setSampleFormOpen(true)} className="gap-2" variant="outline">
+            <TestTube className="h-4 w-4" />
+            Record sample
+          </Button>
           <Button
-            onClick={fetchReadings}
+            onClick={refresh}
             disabled={loading}
             className="gap-2"
             variant="outline"
@@ -115,200 +706,148 @@ export default function Readings() {
 
       {/* Current Readings Summary */}
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-        <Card className="shadow-card">
-          <CardContent className="p-6">
-            <div className="flex items-center gap-4">
-              <div className="p-3 bg-primary/10 rounded-lg">
-                <Droplets className="h-6 w-6 text-primary" />
-              </div>
-              <div>
-                <p className="text-sm font-medium text-muted-foreground">Average pH</p>
-                <p className="text-2xl font-bold">{currentAverages.ph.toFixed(2)}</p>
-                <p className="text-xs text-muted-foreground">Normal: 6.5-8.5</p>
-              </div>
-            </div>
-          </CardContent>
-        </Card>
-
-        <Card className="shadow-card">
-          <CardContent className="p-6">
-            <div className="flex items-center gap-4">
-              <div className="p-3 bg-secondary/10 rounded-lg">
-                <Activity className="h-6 w-6 text-secondary" />
-              </div>
-              <div>
-                <p className="text-sm font-medium text-muted-foreground">Avg Turbidity</p>
-                <p className="text-2xl font-bold">{currentAverages.turbidity.toFixed(1)} NTU</p>
-                <p className="text-xs text-muted-foreground">Safe: &lt;5 NTU</p>
-              </div>
-            </div>
-          </CardContent>
-        </Card>
-
-        <Card className="shadow-card">
-          <CardContent className="p-6">
-            <div className="flex items-center gap-4">
-              <div className="p-3 bg-accent/10 rounded-lg">
-                <Thermometer className="h-6 w-6 text-accent" />
-              </div>
-              <div>
-                <p className="text-sm font-medium text-muted-foreground">Avg Temperature</p>
-                <p className="text-2xl font-bold">{currentAverages.temperature.toFixed(1)}°C</p>
-                <p className="text-xs text-muted-foreground">Normal: 20-30°C</p>
-              </div>
-            </div>
-          </CardContent>
-        </Card>
+        {visibleParameters.map((key) => {
+          const Icon = parameterIcons[key] ?? FlaskConical;
+          const average = averageOf(key);
+          return (
+            <Card key={key} className="shadow-card">
+              <CardContent className="p-6">
+                <div className="flex items-center gap-4">
+                  <div className="p-3 bg-muted rounded-lg">
+                    <Icon className="h-6 w-6" style={{ color: parameterRegistry[key].color }} />
+                  </div>
+                  <div>
+                    <p className="text-sm font-medium text-muted-foreground">Avg {parameterRegistry[key].label}</p>
+                    <p className="text-2xl font-bold">
+                      {average === null ? '—' : formatParameterValue(key, average)}
+                    </p>
+                    <p className="text-xs text-muted-foreground">Safe: {describeLimits(key, limits[key])}</p>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          );
+        })}
       </div>
 
-      {/* pH Trend Chart */}
-      <Card className="shadow-card">
-        <CardHeader>
-          <CardTitle>pH Level Trends</CardTitle>
-          <CardDescription>
-            Water pH measurements over time
-          </CardDescription>
-        </CardHeader>
-        <CardContent>
-          <div className="h-80">
-            <ResponsiveContainer width="100%" height="100%">
-              <AreaChart data={chartData}>
-                <defs>
-                  <linearGradient id="phGradient" x1="0" y1="0" x2="0" y2="1">
-                    <stop offset="5%" stopColor="hsl(var(--primary))" stopOpacity={0.3} />
-                    <stop offset="95%" stopColor="hsl(var(--primary))" stopOpacity={0} />
-                  </linearGradient>
-                </defs>
-                <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
-                <XAxis 
-                  dataKey="time" 
-                  stroke="hsl(var(--muted-foreground))"
-                  fontSize={12}
-                />
-                <YAxis 
-                  stroke="hsl(var(--muted-foreground))"
-                  fontSize={12}
-                  domain={[4, 10]}
-                />
-                <Tooltip 
-                  contentStyle={{
-                    backgroundColor: 'hsl(var(--card))',
-                    border: '1px solid hsl(var(--border))',
-                    borderRadius: '8px',
-                  }}
-                />
-                <Area 
-                  type="monotone" 
-                  dataKey="pH" 
-                  stroke="hsl(var(--primary))" 
-                  fillOpacity={1}
-                  fill="url(#phGradient)"
-                  strokeWidth={2}
-                />
-              </AreaChart>
-            </ResponsiveContainer>
-          </div>
-        </CardContent>
-      </Card>
-
-      {/* Turbidity Chart */}
-      <Card className="shadow-card">
-        <CardHeader>
-          <CardTitle>Turbidity Measurements</CardTitle>
-          <CardDescription>
-            Water clarity measurements in NTU (Nephelometric Turbidity Units)
-          </CardDescription>
-        </CardHeader>
-        <CardContent>
-          <div className="h-80">
-            <ResponsiveContainer width="100%" height="100%">
-              <LineChart data={chartData}>
-                <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
-                <XAxis 
-                  dataKey="time" 
-                  stroke="hsl(var(--muted-foreground))"
-                  fontSize={12}
-                />
-                <YAxis 
-                  stroke="hsl(var(--muted-foreground))"
-                  fontSize={12}
-                />
-                <Tooltip 
-                  contentStyle={{
-                    backgroundColor: 'hsl(var(--card))',
-                    border: '1px solid hsl(var(--border))',
-                    borderRadius: '8px',
-                  }}
-                />
-                <Line 
-                  type="monotone" 
-                  dataKey="turbidity" 
-                  stroke="hsl(var(--secondary))" 
-                  strokeWidth={2}
-                  dot={{ fill: 'hsl(var(--secondary))', strokeWidth: 2, r: 4 }}
-                />
-              </LineChart>
-            </ResponsiveContainer>
-          </div>
-        </CardContent>
-      </Card>
-
-      {/* Combined Trends */}
-      <Card className="shadow-card">
-        <CardHeader>
-          <CardTitle>Multi-Parameter Trends</CardTitle>
-          <CardDescription>
-            Combined view of pH, turbidity, and temperature measurements
-          </CardDescription>
-        </CardHeader>
-        <CardContent>
-          <div className="h-80">
-            <ResponsiveContainer width="100%" height="100%">
-              <LineChart data={chartData}>
-                <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
-                <XAxis 
-                  dataKey="time" 
-                  stroke="hsl(var(--muted-foreground))"
-                  fontSize={12}
-                />
-                <YAxis 
-                  stroke="hsl(var(--muted-foreground))"
-                  fontSize={12}
-                />
-                <Tooltip 
-                  contentStyle={{
-                    backgroundColor: 'hsl(var(--card))',
-                    border: '1px solid hsl(var(--border))',
-                    borderRadius: '8px',
-                  }}
-                />
-                <Legend />
-                <Line 
-                  type="monotone" 
-                  dataKey="pH" 
-                  stroke="hsl(var(--primary))" 
-                  strokeWidth={2}
-                  name="pH Level"
-                />
-                <Line 
-                  type="monotone" 
-                  dataKey="turbidity" 
-                  stroke="hsl(var(--secondary))" 
-                  strokeWidth={2}
-                  name="Turbidity (NTU)"
-                />
-                <Line 
-                  type="monotone" 
-                  dataKey="temperature" 
-                  stroke="hsl(var(--accent))" 
-                  strokeWidth={2}
-                  name="Temperature (°C)"
-                />
-              </LineChart>
-            </ResponsiveContainer>
+      {comparing && (
+        <LocationComparisonTable
+          locations={comparedLocations}
+          parameters={visibleParameters}
+          aggregated={!!bucket}
+        />
+      )}
+
+      {forecastHours && (
+        <PredictedBreachesCard
+          breaches={predictedBreaches}
+          forecastHours={forecastHours}
+          forecasting={selectedLocationIds.length > 0}
+          locationName={getLocationName}
+        />
+      )}
+
+      <ReadingStatsPanel rows={statsRows} parameters={visibleParameters} />
+
+      <Tabs defaultValue="charts" className="space-y-6">
+        <TabsList>
+          <TabsTrigger value="charts">Charts</TabsTrigger>
+          <TabsTrigger value="table">Table</TabsTrigger>
+        </TabsList>
+
+        {/* Kept mounted, as the chart width observer only attaches on first mount */}
+        <TabsContent value="charts" forceMount className="space-y-6 data-[state=inactive]:hidden">
+          {/* Per-parameter Trend Charts */}
+          <div className="space-y-6" ref={chartRef}>
+            {visibleParameters.map(key => (
+              <ParameterChart
+                key={key}
+                parameter={key}
+                data={chartRows}
+                series={seriesFor(key)}
+                limits={limits[key]}
+                showRange={!!bucket && !comparing}
+                description={rangeDescription}
+                gapTimes={gapTimes}
+                suspectCount={analysedReadings.filter(reading => isSuspect(reading, key)).length}
+                forecastHours={forecasts.some(forecast => forecast.parameter === key) ? forecastHours : null}
+              />
+            ))}
           </div>
-        </CardContent>
-      </Card>
+
+          {/* Combined Trends */}
+          {!comparing && (
+            <Card className="shadow-card">
+              <CardHeader>
+                <CardTitle>Multi-Parameter Trends</CardTitle>
+                <CardDescription>
+                  Combined view of the selected parameters. Dashed lines mark each parameter's limits
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="h-80">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={plottedData}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                      <XAxis
+                        dataKey="time"
+                        stroke="hsl(var(--muted-foreground))"
+                        fontSize={12}
+                      />
+                      <YAxis
+                        stroke="hsl(var(--muted-foreground))"
+                        fontSize={12}
+                      />
+                      <Tooltip contentStyle={tooltipStyle} formatter={complianceFormatter(visibleParameters.flatMap(seriesFor))} />
+                      <Legend />
+                      {visibleParameters.map(key => (
+                        <Fragment key={key}>
+                          {renderLimits(key, limits[key], parameterRegistry[key].color, false)}
+                        </Fragment>
+                      ))}
+                      {visibleParameters.map(key => (
+                        <Line
+                          key={key}
+                          type="monotone"
+                          dataKey={key}
+                          stroke={parameterRegistry[key].color}
+                          strokeWidth={2}
+                          name={parameterTitle(key)}
+                          dot={limitDot(limits[key], parameterRegistry[key].color)}
+                          connectNulls
+                        />
+                      ))}
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+        </TabsContent>
+
+        <TabsContent value="table">
+          <ReadingsTable
+            rows={tableRows}
+            parameters={visibleParameters}
+            aggregated={!!bucket}
+            locationName={tableLocationName}
+            exportName={exportName}
+          />
+        </TabsContent>
+      </Tabs>
+
+      <LabSampleFormDialog
+        open={sampleFormOpen}
+        locations={locations}
+        onOpenChange={setSampleFormOpen}
+        onSubmit={recordSample}
+      />
+      <ReadingImportWizard
+        open={importOpen}
+        locations={locations}
+        onOpenChange={setImportOpen}
+        onImported={(local) => (local.length > 0 ? showReadings(local) : fetchReadings())}
+      />
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,243 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import RuleFormDialog from '@/components/rules/RuleFormDialog';
+import { useLocations } from '@/hooks/use-locations';
+import { useToast } from '@/hooks/use-toast';
+import { readingsAPI, rulesAPI, type Reading, type ThresholdRule } from '@/services/api';
+import { generateMockReadings } from '@/services/mockData';
+import { detectAnomalies } from '@/lib/anomalies';
+import { defaultThresholdRules, describeRule, evaluateRules } from '@/lib/rules';
+import { getSeverityColor } from '@/lib/alerts';
+import { MapPin, Pencil, Plus, RefreshCw, ShieldOff, SlidersHorizontal, Trash2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+// The preview replays the last day of readings against the rules.
+const previewFrom = () => new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
+
+export default function Rules() {
+  const [rules, setRules] = useState<ThresholdRule[]>([]);
+  const [readings, setReadings] = useState<Reading[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState<ThresholdRule | null>(null);
+  const [formOpen, setFormOpen] = useState(false);
+  const { locations, getLocationName } = useLocations();
+  const { toast } = useToast();
+
+  const fetchRules = async () => {
+    try {
+      setLoading(true);
+      const response = await rulesAPI.getRules();
+      setRules(response.data);
+    } catch (error) {
+      toast({
+        title: 'Error fetching rules',
+        description: 'Could not load alert rules',
+        variant: 'destructive',
+      });
+      // Mock data for demo
+      setRules(defaultThresholdRules);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchReadings = async () => {
+    try {
+      const response = await readingsAPI.getReadings({ from: previewFrom() });
+      setReadings(response.data);
+    } catch (error) {
+      // Mock data for demo
+      setReadings(generateMockReadings({ from: previewFrom() }));
+    }
+  };
+
+  useEffect(() => {
+    fetchRules();
+    fetchReadings();
+  }, []);
+
+  const openCreate = () => {
+    setEditing(null);
+    setFormOpen(true);
+  };
+
+  const openEdit = (rule: ThresholdRule) => {
+    setEditing(rule);
+    setFormOpen(true);
+  };
+
+  const saveRule = async (draft: Omit<ThresholdRule, 'id'> & { id?: string }) => {
+    const existing = draft.id ? rules.find(r => r.id === draft.id) : undefined;
+    try {
+      const response = existing
+        ? await rulesAPI.updateRule({ ...existing, ...draft })
+        : await rulesAPI.createRule(draft);
+      upsertRule(response.data);
+    } catch (error) {
+      toast({
+        title: 'Error saving rule',
+        description: 'Could not save the rule to the server',
+        variant: 'destructive',
+      });
+      // Apply locally for demo
+      upsertRule({ ...draft, id: draft.id ?? `rule-${Date.now()}` });
+    } finally {
+      setFormOpen(false);
+    }
+  };
+
+  const upsertRule = (rule: ThresholdRule) => {
+    setRules(prev => (prev.some(r => r.id === rule.id)
+      ? prev.map(r => (r.id === rule.id ? rule : r))
+      : [...prev, rule]));
+  };
+
+  const toggleRule = (rule: ThresholdRule, enabled: boolean) => {
+    saveRule({ ...rule, enabled });
+  };
+
+  const deleteRule = async (rule: ThresholdRule) => {
+    try {
+      await rulesAPI.deleteRule(rule.id);
+    } catch (error) {
+      toast({
+        title: 'Error deleting rule',
+        description: 'Could not delete the rule on the server',
+        variant: 'destructive',
+      });
+    } finally {
+      setRules(prev => prev.filter(r => r.id !== rule.id));
+    }
+  };
+
+  // Flagged so rules that ignore suspect readings preview the same as they'll run.
+  const analysedReadings = useMemo(() => detectAnomalies(readings), [readings]);
+  const previewAlerts = evaluateRules(rules, analysedReadings);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Alert Rules</h1>
+          <p className="text-muted-foreground">
+            Configure the thresholds that turn sensor readings into alerts
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button onClick={openCreate} className="gap-2">
+            <Plus className="h-4 w-4" />
+            New Rule
+          </Button>
+          <Button
+            onClick={fetchRules}
+            disabled={loading}
+            className="gap-2"
+            variant="outline"
+          >
+            <RefreshCw className={cn("h-4 w-4", loading && "animate-spin")} />
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      <Card className="shadow-card">
+        <CardHeader>
+          <CardTitle>Threshold Rules</CardTitle>
+          <CardDescription>
+            Disabled rules are kept but not evaluated
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex items-center justify-center py-8">
+              <RefreshCw className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {rules.map((rule) => (
+                <div
+                  key={rule.id}
+                  className={cn(
+                    "flex items-center gap-4 p-4 border border-border rounded-lg hover:bg-muted/50 transition-colors",
+                    !rule.enabled && "opacity-60"
+                  )}
+                >
+                  <Switch
+                    checked={rule.enabled}
+                    onCheckedChange={(checked) => toggleRule(rule, checked)}
+                    aria-label={`Enable ${rule.name}`}
+                  />
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <p className="font-medium text-foreground">{rule.name}</p>
+                      <Badge className={getSeverityColor(rule.severity)}>
+                        {rule.severity.toUpperCase()}
+                      </Badge>
+                    </div>
+                    <div className="flex items-center gap-4 mt-1 text-sm text-muted-foreground">
+                      <div className="flex items-center gap-1">
+                        <SlidersHorizontal className="h-3 w-3" />
+                        {describeRule(rule)}
+                      </div>
+                      <div className="flex items-center gap-1">
+                        <MapPin className="h-3 w-3" />
+                        {rule.locationId ? getLocationName(rule.locationId) : 'All locations'}
+                      </div>
+                      {rule.ignoreSuspect && (
+                        <div className="flex items-center gap-1">
+                          <ShieldOff className="h-3 w-3" />
+                          Ignores suspect readings
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                  <Button size="sm" variant="ghost" onClick={() => openEdit(rule)} aria-label="Edit rule">
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button size="sm" variant="ghost" onClick={() => deleteRule(rule)} aria-label="Delete rule">
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Rule Preview */}
+      <Card className="shadow-card">
+        <CardHeader>
+          <CardTitle>Preview</CardTitle>
+          <CardDescription>
+            {previewAlerts.length} alerts would be raised from the {readings.length} readings of the last 24 hours
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-2">
+            {previewAlerts.slice(0, 10).map((alert) => (
+              <div key={alert.id} className="flex items-center gap-3 text-sm">
+                <Badge className={getSeverityColor(alert.severity)}>
+                  {alert.severity.toUpperCase()}
+                </Badge>
+                <span className="flex-1 truncate">{alert.message}</span>
+                <span className="text-muted-foreground">{getLocationName(alert.locationId)}</span>
+                <span className="text-muted-foreground">{new Date(alert.timestamp).toLocaleString()}</span>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      <RuleFormDialog
+        open={formOpen}
+        rule={editing}
+        locations={locations}
+        onOpenChange={setFormOpen}
+        onSubmit={saveRule}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { InternalAxiosRequestConfig } from 'axios';
+import api, { notificationsAPI, type NotificationDelivery } from '@/services/api';
+
+// Delivery happens on the server; the notifications page only asks it to
+// list, test and retry. These pin down the requests it sends for that.
+
+const delivery: NotificationDelivery = {
+  id: 'delivery-1',
+  alertId: 'alert-1',
+  channelId: 'channel-1',
+  channelName: 'District officers',
+  channelType: 'email',
+  status: 'retrying',
+  attempts: 2,
+  lastAttemptAt: '2024-03-15T09:00:00.000Z',
+  nextRetryAt: '2024-03-15T09:05:00.000Z',
+  error: 'smtp.example.org responded 451',
+};
+
+let requests: InternalAxiosRequestConfig[] = [];
+
+beforeEach(() => {
+  requests = [];
+  vi.stubGlobal('localStorage', { getItem: () => 'token-1', removeItem: () => undefined });
+  api.defaults.adapter = async (config) => {
+    requests.push(config);
+    const data = config.url.endsWith('/api/notification-deliveries') ? [delivery] : { ...delivery, status: 'sent' };
+    return { data, status: 200, statusText: 'OK', headers: {}, config };
+  };
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  delete api.defaults.adapter;
+});
+
+describe('notificationsAPI', () => {
+  it('asks for deliveries still retrying or failed for good', async () => {
+    const response = await notificationsAPI.getRetryQueue();
+
+    expect(response.data).toEqual([delivery]);
+    expect(requests[0].method).toBe('get');
+    expect(decodeURI(api.getUri(requests[0])))
+      .toBe('http://localhost:5000/api/notification-deliveries?status[]=retrying&status[]=failed');
+    expect(requests[0].headers.Authorization).toBe('Bearer token-1');
+  });
+
+  it('posts a test to the channel and reads back its delivery', async () => {
+    const response = await notificationsAPI.testChannel('channel-1');
+
+    expect(requests[0].method).toBe('post');
+    expect(requests[0].url).toBe('/api/notification-channels/channel-1/test');
+    expect(response.data.status).toBe('sent');
+  });
+
+  it('retries a single delivery by id', async () => {
+    const response = await notificationsAPI.retryDelivery('delivery-1');
+
+    expect(requests[0].method).toBe('post');
+    expect(requests[0].url).toBe('/api/notification-deliveries/delivery-1/retry');
+    expect(response.data).toMatchObject({ id: 'delivery-1', status: 'sent' });
+  });
+});
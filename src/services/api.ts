@@ -1,6 +1,6 @@
 import axios from 'axios';
 
-const API_BASE_URL = 'http://localhost:5000';
+export const API_BASE_URL = 'http://localhost:5000';
 
 const api = axios.create({
   baseURL: API_BASE_URL,
@@ -35,13 +35,149 @@ export interface LoginCredentials {
   password: string;
 }
 
+export type AlertStatus = 'open' | 'acknowledged' | 'resolved';
+
+// Breaches are raised by readings past a rule's threshold, predicted breaches
+// by a forecast that is expected to cross it, and device alerts by a device
+// that has stopped reporting.
+export type AlertKind = 'breach' | 'predicted_breach' | 'device_offline';
+
 export interface Alert {
   id: string;
   type: 'critical' | 'warning' | 'info';
   message: string;
-  location: string;
+  locationId: string;
   timestamp: string;
   severity: 'critical' | 'warning' | 'info';
+  status: AlertStatus;
+  assignee?: string | null;
+  acknowledgedAt?: string | null;
+  resolvedAt?: string | null;
+  // Set when a resolved alert is reopened; escalation starts over from then.
+  reopenedAt?: string | null;
+  resolutionNotes?: string | null;
+  updatedAt?: string | null;
+  ruleId?: string | null;
+  parameter?: ParameterKey | null;
+  escalations?: AlertEscalation[];
+  deliveries?: NotificationDelivery[];
+  maintenanceWindowId?: string | null;
+  // Missing on alerts from before forecasting, which are all breaches.
+  kind?: AlertKind;
+  // When a predicted breach is expected to happen.
+  predictedAt?: string | null;
+  // The device a device alert is about.
+  deviceId?: string | null;
+}
+
+export type AlertEventType = 'created' | 'acknowledged' | 'assigned' | 'resolved' | 'reopened' | 'comment';
+
+// One entry in an alert's audit trail: a status change or an officer's comment.
+export interface AlertEvent {
+  id: string;
+  alertId: string;
+  type: AlertEventType;
+  timestamp: string;
+  author?: string | null;
+  message?: string | null;
+}
+
+export type EscalationTier = 'field_technician' | 'block_officer' | 'district_health_officer';
+
+export interface AlertEscalation {
+  tier: EscalationTier;
+  escalatedAt: string;
+  policyId: string;
+}
+
+export interface EscalationStep {
+  tier: EscalationTier;
+  // Minutes after the alert was raised at which this tier is notified.
+  afterMinutes: number;
+}
+
+export interface EscalationPolicy {
+  id: string;
+  district: string;
+  severities: Alert['severity'][];
+  steps: EscalationStep[];
+  enabled: boolean;
+}
+
+export type AlertSortField = 'timestamp' | 'severity' | 'location' | 'status';
+
+export interface AlertQuery {
+  page: number;
+  pageSize: number;
+  search?: string;
+  severity?: Alert['severity'];
+  status?: AlertStatus;
+  locationId?: string;
+  from?: string;
+  to?: string;
+  sortBy: AlertSortField;
+  sortOrder: 'asc' | 'desc';
+}
+
+export interface PagedResponse<T> {
+  items: T[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+export interface AlertsResponse extends PagedResponse<Alert> {
+  // Unresolved alerts per severity across the whole filtered set, not just the page.
+  openCounts: Record<Alert['severity'], number>;
+}
+
+// The server groups the filtered alerts into incidents before paging, so an
+// incident is never split between pages. `total` counts incidents.
+export interface IncidentsResponse extends PagedResponse<Incident> {
+  // Alerts in every matching incident, not just this page's.
+  alertTotal: number;
+  // Unresolved incidents per worst severity across the whole filtered set.
+  openIncidentCounts: Record<Alert['severity'], number>;
+}
+
+export interface Incident {
+  id: string;
+  locationId: string;
+  parameter: ParameterKey | null;
+  alerts: Alert[];
+  firstSeen: string;
+  lastSeen: string;
+  severity: Alert['severity'];
+  status: AlertStatus;
+}
+
+export type NotificationChannelType = 'email' | 'sms' | 'webhook';
+
+export interface NotificationChannel {
+  id: string;
+  name: string;
+  type: NotificationChannelType;
+  // Adapter-specific settings, e.g. recipients for email or the URL for a webhook.
+  config: Record<string, string>;
+  severities: Alert['severity'][];
+  // Empty means every location.
+  locationIds: string[];
+  enabled: boolean;
+}
+
+export type DeliveryStatus = 'pending' | 'sent' | 'retrying' | 'failed';
+
+export interface NotificationDelivery {
+  id: string;
+  alertId: string;
+  channelId: string;
+  channelName: string;
+  channelType: NotificationChannelType;
+  status: DeliveryStatus;
+  attempts: number;
+  lastAttemptAt?: string | null;
+  nextRetryAt?: string | null;
+  error?: string | null;
 }
 
 export interface Location {
@@ -51,16 +187,227 @@ export interface Location {
   state: string;
   latitude: number;
   longitude: number;
+  // Set by hand on the server; the UI derives status from device health instead.
   status: string;
 }
 
+export interface MaintenanceWindow {
+  id: string;
+  locationId: string;
+  start: string;
+  end: string;
+  reason: string;
+  // Empty means every parameter at the location is affected.
+  parameters: ParameterKey[];
+  // Suppressed alerts are dropped; tagged ones are kept but marked as raised during maintenance.
+  mode: 'suppress' | 'tag';
+}
+
+export type ParameterKey =
+  | 'ph'
+  | 'turbidity'
+  | 'temperature'
+  | 'tds'
+  | 'conductivity'
+  | 'dissolved_oxygen'
+  | 'residual_chlorine'
+  | 'nitrate'
+  | 'fluoride'
+  | 'e_coli';
+
+// Each kit reports only what it measures, so any parameter may be missing.
+export type ParameterValues = Partial<Record<ParameterKey, number>>;
+
+export type ReadingFlagType = 'spike' | 'flatline' | 'drift' | 'gap';
+
+// Marks a reading as a likely sensor fault rather than a real change in the water.
+export interface ReadingFlag {
+  type: ReadingFlagType;
+  // Null for gaps, which concern the whole reading rather than one value.
+  parameter: ParameterKey | null;
+  message: string;
+}
+
+// Sensors report on their own; lab readings are field samples tested by hand.
+export type ReadingSource = 'sensor' | 'lab';
+
+export interface LabSampleDetails {
+  collector: string;
+  method: string;
+  // The testing lab's own reference for the sample.
+  labReference: string;
+}
+
 export interface Reading {
   id: string;
-  location: string;
-  ph: number;
-  turbidity: number;
-  temperature: number;
+  locationId: string;
+  values: ParameterValues;
+  // For lab samples, when the sample was collected rather than tested.
   timestamp: string;
+  flags?: ReadingFlag[];
+  // Missing on readings stored before sources were tracked, which are all sensor readings.
+  source?: ReadingSource;
+  sample?: LabSampleDetails;
+  // The device that took a sensor reading. Missing on lab samples and on
+  // readings stored before devices were registered.
+  deviceId?: string;
+}
+
+export type DeviceStatus = 'active' | 'maintenance' | 'in_storage' | 'retired';
+
+// A stretch of time a device spent at one location.
+export interface DeviceInstallation {
+  locationId: string;
+  installedAt: string;
+  // Null while the device is still installed there.
+  removedAt: string | null;
+  // Why it was taken out, e.g. moved, replaced or retired.
+  removalReason?: string;
+}
+
+export interface Device {
+  id: string;
+  serialNumber: string;
+  model: string;
+  parameters: ParameterKey[];
+  firmware: string;
+  status: DeviceStatus;
+  // Where it is now; null when not installed anywhere.
+  locationId: string | null;
+  installedAt: string | null;
+  // Every installation, oldest first, including the current one.
+  history: DeviceInstallation[];
+  // The device this one took over from, or the one that took over from it.
+  replacesDeviceId?: string | null;
+  replacedByDeviceId?: string | null;
+}
+
+// The latest status report a device sent, with or without readings.
+export interface DeviceHeartbeat {
+  deviceId: string;
+  lastSeen: string;
+  // Null when the device doesn't report it.
+  batteryVoltage: number | null;
+  // Received signal strength in dBm.
+  signalStrength: number | null;
+  uptimeSeconds: number | null;
+}
+
+export interface DeviceHealthSettings {
+  // Silence after which a device counts as offline and an info alert is raised.
+  offlineAfterMinutes: number;
+  // Silence after which the alert becomes a warning.
+  offlineWarningAfterMinutes: number;
+  lowBatteryVolts: number;
+  weakSignalDbm: number;
+}
+
+// Outcome of one batch of imported readings. The server skips readings it
+// already holds for the same location and time.
+export interface ReadingImportResult {
+  inserted: number;
+  skipped: number;
+}
+
+// A reference buffer or standard the probe was checked against.
+export interface CalibrationPoint {
+  reference: number;
+  // What the probe read in it.
+  measured: number;
+}
+
+// A probe is identified by its location and the parameter it measures. The
+// fit applies to raw readings from `calibratedAt` until the next calibration:
+// corrected = raw * slope + offset.
+export interface CalibrationRecord {
+  id: string;
+  locationId: string;
+  // The device whose probe was calibrated. Missing on calibrations recorded
+  // before devices were registered, which only apply to readings without one.
+  deviceId?: string | null;
+  parameter: ParameterKey;
+  calibratedAt: string;
+  technician: string;
+  points: CalibrationPoint[];
+  offset: number;
+  slope: number;
+  notes?: string;
+}
+
+export type ReadingsBucket = '5m' | '15m' | '1h' | '6h' | '1d';
+
+export interface ReadingsQuery {
+  locationId?: string;
+  from?: string;
+  to?: string;
+}
+
+export interface ValueRange {
+  min: number;
+  avg: number;
+  max: number;
+  // Readings in the bucket that reported the parameter.
+  count: number;
+}
+
+export interface ParameterStats {
+  count: number;
+  min: number;
+  max: number;
+  mean: number;
+  median: number;
+  p95: number;
+  stdDev: number;
+  // Share (0–1) of the expected readings that arrived, null when unknown.
+  completeness: number | null;
+  // Share (0–1) of readings within the limits.
+  compliance: number;
+}
+
+// One location's statistics for a parameter over a range, from its raw
+// readings with suspect ones left out.
+export interface ReadingStats {
+  locationId: string;
+  parameter: ParameterKey;
+  stats: ParameterStats;
+}
+
+// Readings rolled up into one time bucket by the server.
+export interface ReadingAggregate {
+  bucketStart: string;
+  // Null when the bucket covers every location.
+  locationId: string | null;
+  count: number;
+  values: Partial<Record<ParameterKey, ValueRange>>;
+}
+
+export type RuleOperator = 'gt' | 'gte' | 'lt' | 'lte';
+
+export interface ThresholdRule {
+  id: string;
+  name: string;
+  parameter: ParameterKey;
+  operator: RuleOperator;
+  threshold: number;
+  durationMinutes: number;
+  severity: Alert['severity'];
+  locationId?: string | null;
+  enabled: boolean;
+  // Skip readings flagged as spikes, flatlines or drift for this parameter.
+  ignoreSuspect?: boolean;
+}
+
+export interface QuietHours {
+  enabled: boolean;
+  // Local time, "HH:MM". May wrap past midnight, e.g. 22:00 to 06:00.
+  start: string;
+  end: string;
+}
+
+export interface AlertPreferences {
+  desktopNotifications: boolean;
+  audibleAlarm: boolean;
+  quietHours: QuietHours;
 }
 
 export interface Report {
@@ -83,16 +430,137 @@ export const authAPI = {
   },
 };
 
+export const profileAPI = {
+  getAlertPreferences: () => api.get<AlertPreferences>('/api/profile/alert-preferences'),
+
+  updateAlertPreferences: (preferences: AlertPreferences) =>
+    api.put<AlertPreferences>('/api/profile/alert-preferences', preferences),
+};
+
 export const alertsAPI = {
-  getAlerts: () => api.get<Alert[]>('/api/alerts'),
+  getAlerts: (query: AlertQuery) =>
+    api.get<AlertsResponse>('/api/alerts', { params: query }),
+
+  getIncidents: (query: AlertQuery) =>
+    api.get<IncidentsResponse>('/api/alerts/incidents', { params: query }),
+
+  getAlert: (alertId: string) => api.get<Alert>(`/api/alerts/${alertId}`),
+
+  getAlertHistory: (alertId: string) =>
+    api.get<AlertEvent[]>(`/api/alerts/${alertId}/history`),
+
+  addComment: (alertId: string, message: string) =>
+    api.post<AlertEvent>(`/api/alerts/${alertId}/comments`, { message }),
+
+  acknowledgeAlert: (alertId: string) =>
+    api.post<Alert>(`/api/alerts/${alertId}/acknowledge`),
+
+  assignAlert: (alertId: string, assignee: string) =>
+    api.post<Alert>(`/api/alerts/${alertId}/assign`, { assignee }),
+
+  resolveAlert: (alertId: string, resolutionNotes: string) =>
+    api.post<Alert>(`/api/alerts/${alertId}/resolve`, { resolutionNotes }),
+
+  reopenAlert: (alertId: string) =>
+    api.post<Alert>(`/api/alerts/${alertId}/reopen`),
+};
+
+export const escalationAPI = {
+  getPolicies: () => api.get<EscalationPolicy[]>('/api/escalation-policies'),
+
+  updatePolicy: (policy: EscalationPolicy) =>
+    api.put<EscalationPolicy>(`/api/escalation-policies/${policy.id}`, policy),
+};
+
+export const notificationsAPI = {
+  getChannels: () => api.get<NotificationChannel[]>('/api/notification-channels'),
+
+  saveChannel: (channel: Omit<NotificationChannel, 'id'> & { id?: string }) =>
+    channel.id
+      ? api.put<NotificationChannel>(`/api/notification-channels/${channel.id}`, channel)
+      : api.post<NotificationChannel>('/api/notification-channels', channel),
+
+  deleteChannel: (channelId: string) =>
+    api.delete(`/api/notification-channels/${channelId}`),
+
+  testChannel: (channelId: string) =>
+    api.post<NotificationDelivery>(`/api/notification-channels/${channelId}/test`),
+
+  getRetryQueue: () =>
+    api.get<NotificationDelivery[]>('/api/notification-deliveries', { params: { status: ['retrying', 'failed'] } }),
+
+  retryDelivery: (deliveryId: string) =>
+    api.post<NotificationDelivery>(`/api/notification-deliveries/${deliveryId}/retry`),
 };
 
 export const locationsAPI = {
   getLocations: () => api.get<Location[]>('/api/locations'),
 };
 
+export const maintenanceAPI = {
+  getWindows: () => api.get<MaintenanceWindow[]>('/api/maintenance-windows'),
+
+  createWindow: (window: Omit<MaintenanceWindow, 'id'>) =>
+    api.post<MaintenanceWindow>('/api/maintenance-windows', window),
+
+  deleteWindow: (windowId: string) =>
+    api.delete(`/api/maintenance-windows/${windowId}`),
+};
+
+export const devicesAPI = {
+  getDevices: () => api.get<Device[]>('/api/devices'),
+
+  createDevice: (device: Omit<Device, 'id'>) =>
+    api.post<Device>('/api/devices', device),
+
+  updateDevice: (device: Device) =>
+    api.put<Device>(`/api/devices/${device.id}`, device),
+
+  getHeartbeats: () => api.get<DeviceHeartbeat[]>('/api/devices/heartbeats'),
+
+  getHealthSettings: () => api.get<DeviceHealthSettings>('/api/devices/health-settings'),
+
+  updateHealthSettings: (settings: DeviceHealthSettings) =>
+    api.put<DeviceHealthSettings>('/api/devices/health-settings', settings),
+};
+
+export const calibrationsAPI = {
+  getCalibrations: () => api.get<CalibrationRecord[]>('/api/calibrations'),
+
+  createCalibration: (record: Omit<CalibrationRecord, 'id'>) =>
+    api.post<CalibrationRecord>('/api/calibrations', record),
+};
+
 export const readingsAPI = {
-  getReadings: () => api.get<Reading[]>('/api/readings'),
+  getReadings: (query: ReadingsQuery = {}) =>
+    api.get<Reading[]>('/api/readings', { params: query }),
+
+  getAggregatedReadings: (query: ReadingsQuery & { bucket: ReadingsBucket }) =>
+    api.get<ReadingAggregate[]>('/api/readings', { params: query }),
+
+  // Worked out on the server from the raw readings, calibrated unless
+  // `corrected` is false, so bucketed views needn't download them all.
+  getReadingStats: (query: ReadingsQuery & { corrected: boolean }) =>
+    api.get<ReadingStats[]>('/api/readings/stats', { params: query }),
+
+  createReading: (reading: Omit<Reading, 'id' | 'flags'>) =>
+    api.post<Reading>('/api/readings', reading),
+
+  importReadings: (readings: Omit<Reading, 'id' | 'flags'>[]) =>
+    api.post<ReadingImportResult>('/api/readings/import', { readings }),
+};
+
+export const rulesAPI = {
+  getRules: () => api.get<ThresholdRule[]>('/api/rules'),
+
+  createRule: (rule: Omit<ThresholdRule, 'id'>) =>
+    api.post<ThresholdRule>('/api/rules', rule),
+
+  updateRule: (rule: ThresholdRule) =>
+    api.put<ThresholdRule>(`/api/rules/${rule.id}`, rule),
+
+  deleteRule: (ruleId: string) =>
+    api.delete(`/api/rules/${ruleId}`),
 };
 
 export const reportsAPI = {
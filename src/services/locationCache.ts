@@ -0,0 +1,65 @@
+import { locationsAPI, type Location } from './api';
+import { generateMockLocations } from './mockData';
+import { realtime } from './realtime';
+
+type Listener = (locations: Location[]) => void;
+
+let locations: Location[] = [];
+let loaded = false;
+let pending: Promise<Location[]> | null = null;
+let stopRealtime: (() => void) | null = null;
+
+const listeners = new Set<Listener>();
+
+function setLocations(next: Location[]) {
+  locations = next;
+  listeners.forEach(listener => listener(locations));
+}
+
+function upsert(location: Location) {
+  setLocations(locations.some(l => l.id === location.id)
+    ? locations.map(l => (l.id === location.id ? location : l))
+    : [...locations, location]);
+}
+
+async function fetchLocations() {
+  try {
+    const response = await locationsAPI.getLocations();
+    setLocations(response.data);
+    return locations;
+  } catch (error) {
+    // Mock data for demo
+    setLocations(generateMockLocations());
+    throw error;
+  } finally {
+    loaded = true;
+    pending = null;
+  }
+}
+
+// Locations change rarely, so every page shares one copy that is fetched once
+// and then kept current by realtime updates while anything is subscribed.
+export const locationCache = {
+  get: () => locations,
+
+  // Rejects when the API is unreachable, after falling back to the demo locations.
+  load: (force = false) => {
+    if (loaded && !force) return Promise.resolve(locations);
+    pending = pending ?? fetchLocations();
+    return pending;
+  },
+
+  subscribe: (listener: Listener) => {
+    listeners.add(listener);
+    if (listeners.size === 1) {
+      stopRealtime = realtime.subscribe('location', upsert);
+    }
+    return () => {
+      listeners.delete(listener);
+      if (listeners.size === 0) {
+        stopRealtime?.();
+        stopRealtime = null;
+      }
+    };
+  },
+};
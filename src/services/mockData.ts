@@ -0,0 +1,504 @@
+import type {
+  Alert,
+  CalibrationRecord,
+  Device,
+  DeviceHeartbeat,
+  EscalationPolicy,
+  Location,
+  MaintenanceWindow,
+  NotificationChannel,
+  NotificationDelivery,
+  ParameterValues,
+  Reading,
+  ReadingsQuery,
+} from './api';
+import { createDefaultPolicy } from '@/lib/escalation';
+import { parameterRegistry } from '@/lib/parameters';
+
+// Demo data used by the pages when the API is unreachable.
+
+// Location 1 runs one of the newer multi-parameter kits; the others only
+// report pH, turbidity and temperature.
+const EXTENDED_KIT_LOCATIONS = ['1'];
+
+function generateMockValues(locationId: string): ParameterValues {
+  const values: ParameterValues = {
+    ph: 6.5 + Math.random() * 2,
+    turbidity: 20 + Math.random() * 60,
+    temperature: 22 + Math.random() * 8,
+  };
+  if (!EXTENDED_KIT_LOCATIONS.includes(locationId)) return values;
+  return {
+    ...values,
+    tds: 250 + Math.random() * 200,
+    conductivity: 400 + Math.random() * 300,
+    dissolved_oxygen: 5.5 + Math.random() * 2.5,
+    residual_chlorine: 0.2 + Math.random() * 0.6,
+    nitrate: 10 + Math.random() * 30,
+    fluoride: 0.4 + Math.random() * 0.7,
+  };
+}
+
+// Daily sensor faults so the anomaly detection has something to find: a pH
+// spike at location 1, a stuck turbidity probe and a drifting thermometer at
+// location 2, and an hour without readings at location 3. Slots are the
+// 5-minute intervals of the (UTC) day.
+function applyMockFaults(locationId: string, slot: number, values: ParameterValues): ParameterValues | null {
+  if (locationId === '1' && slot === 50) return { ...values, ph: 2.9 };
+  if (locationId === '2' && slot >= 100 && slot < 148) {
+    return { ...values, temperature: values.temperature + (slot - 100) * 0.25 };
+  }
+  if (locationId === '2' && slot >= 200 && slot < 212) return { ...values, turbidity: 42 };
+  if (locationId === '3' && slot >= 150 && slot < 162) return null;
+  return values;
+}
+
+// Location 2's kit was swapped ten days ago; the old one is kept as retired.
+const DEVICE_SWAP_AGE = 10 * 24 * 60 * 60 * 1000;
+
+const mockDeviceId = (locationId: string, time: number) =>
+  (locationId === '2' && time < Date.now() - DEVICE_SWAP_AGE ? 'device-4' : `device-${locationId}`);
+
+// Location 3's solar node went silent seven hours ago.
+const SILENT_DEVICE_AGE = 7 * 60 * 60 * 1000;
+
+// Location 2 sends a sample to the district lab every morning, collected
+// between two sensor readings.
+const LAB_SAMPLE_SLOT = 114;
+
+function generateMockLabSample(locationId: string, time: number): Reading {
+  const date = new Date(time);
+  return {
+    id: `sample-${locationId}-${time}`,
+    locationId,
+    values: {
+      ph: 7 + Math.random(),
+      turbidity: 1 + Math.random() * 3,
+      nitrate: 15 + Math.random() * 20,
+      e_coli: 0,
+    },
+    timestamp: date.toISOString(),
+    source: 'lab',
+    sample: {
+      collector: 'R. Patil',
+      method: 'IS 3025 / membrane filtration',
+      labReference: `DWL-${date.toISOString().slice(0, 10).replace(/-/g, '')}-0${locationId}`,
+    },
+  };
+}
+
+// One reading every 5 minutes per location, like the field sensors report.
+export function generateMockReadings(query: ReadingsQuery = {}): Reading[] {
+  const step = 5 * 60 * 1000;
+  const slotsPerDay = (24 * 60 * 60 * 1000) / step;
+  const to = query.to ? new Date(query.to).getTime() : Date.now();
+  const from = query.from ? new Date(query.from).getTime() : to - 24 * 60 * 60 * 1000;
+  const locationIds = query.locationId ? [query.locationId] : ['1', '2', '3'];
+  const mockReadings: Reading[] = [];
+
+  for (let time = Math.ceil(from / step) * step; time <= to; time += step) {
+    locationIds.forEach((locationId) => {
+      const values = applyMockFaults(locationId, (time / step) % slotsPerDay, generateMockValues(locationId));
+      if (!values) return;
+      if (locationId === '3' && time > Date.now() - SILENT_DEVICE_AGE) return;
+      mockReadings.push({
+        id: `reading-${locationId}-${time}`,
+        locationId,
+        values,
+        timestamp: new Date(time).toISOString(),
+        source: 'sensor',
+        deviceId: mockDeviceId(locationId, time),
+      });
+      if (locationId === '2' && (time / step) % slotsPerDay === LAB_SAMPLE_SLOT) {
+        mockReadings.push(generateMockLabSample(locationId, time + 2 * 60 * 1000));
+      }
+    });
+  }
+
+  return mockReadings;
+}
+
+// Readings every 10 minutes around an alert, with the alert's parameter
+// drifting out of range and back so the breach shows up on the chart.
+export function generateMockAlertReadings(alert: Alert): Reading[] {
+  const step = 10 * 60 * 1000;
+  const alertTime = new Date(alert.timestamp).getTime();
+  const end = Math.min(alertTime + 3 * 60 * 60 * 1000, Date.now());
+  const readings: Reading[] = [];
+
+  for (let time = alertTime - 3 * 60 * 60 * 1000; time <= end; time += step) {
+    // 0 far from the alert, 1 at the alert timestamp.
+    const spike = Math.max(0, 1 - Math.abs(time - alertTime) / (45 * 60 * 1000));
+    const values: ParameterValues = {
+      ph: 7.2 + (Math.random() - 0.5) * 0.3 - (alert.parameter === 'ph' ? spike * 2.8 : 0),
+      turbidity: 2 + Math.random() * 1.5 + (alert.parameter === 'turbidity' ? spike * 10 : 0),
+      temperature: 25 + Math.random() - (alert.parameter === 'temperature' ? spike * 7 : 0),
+    };
+    if (alert.parameter && values[alert.parameter] === undefined) {
+      // Other parameters sit inside their safe range and overshoot the nearest limit.
+      const { min, max } = parameterRegistry[alert.parameter].safeRange;
+      const limit = max ?? min;
+      const normal = max !== undefined ? max * 0.6 : min * 1.4;
+      values[alert.parameter] = normal + (limit - normal) * spike * 2 + (Math.random() - 0.5) * Math.abs(limit - normal) * 0.1;
+    }
+    readings.push({
+      id: `reading-${alert.id}-${time}`,
+      locationId: alert.locationId,
+      values,
+      timestamp: new Date(time).toISOString(),
+    });
+  }
+
+  return readings;
+}
+
+export function generateMockAlerts(): Alert[] {
+  return [
+    {
+      id: '1',
+      type: 'critical',
+      severity: 'critical',
+      message: 'Water pH level extremely low (4.2)',
+      locationId: '1',
+      timestamp: new Date(Date.now() - 1200000).toISOString(),
+      status: 'open',
+      parameter: 'ph',
+      deliveries: [
+        {
+          id: 'delivery-1',
+          alertId: '1',
+          channelId: 'channel-1',
+          channelName: 'District A health office',
+          channelType: 'email',
+          status: 'sent',
+          attempts: 1,
+          lastAttemptAt: new Date(Date.now() - 1180000).toISOString(),
+        },
+        {
+          id: 'delivery-2',
+          alertId: '1',
+          channelId: 'channel-2',
+          channelName: 'Field technicians SMS',
+          channelType: 'sms',
+          status: 'retrying',
+          attempts: 2,
+          lastAttemptAt: new Date(Date.now() - 900000).toISOString(),
+          nextRetryAt: new Date(Date.now() + 300000).toISOString(),
+          error: 'Gateway timed out',
+        },
+      ],
+    },
+    {
+      id: '4',
+      type: 'critical',
+      severity: 'critical',
+      message: 'Water pH level low (5.1)',
+      locationId: '1',
+      timestamp: new Date(Date.now() - 2400000).toISOString(),
+      status: 'open',
+      parameter: 'ph',
+    },
+    {
+      id: '5',
+      type: 'warning',
+      severity: 'warning',
+      message: 'Water pH level below range (6.2)',
+      locationId: '1',
+      timestamp: new Date(Date.now() - 4200000).toISOString(),
+      status: 'open',
+      parameter: 'ph',
+    },
+    {
+      id: '2',
+      type: 'warning',
+      severity: 'warning',
+      message: 'High turbidity detected (85 NTU)',
+      locationId: '2',
+      timestamp: new Date(Date.now() - 3600000).toISOString(),
+      status: 'acknowledged',
+      assignee: 'R. Patil',
+      parameter: 'turbidity',
+      acknowledgedAt: new Date(Date.now() - 3000000).toISOString(),
+    },
+    {
+      id: '6',
+      type: 'warning',
+      severity: 'warning',
+      message: 'Turbidity forecast to go above 5 NTU within 9 h (5.4 NTU)',
+      locationId: '2',
+      timestamp: new Date(Date.now() - 600000).toISOString(),
+      status: 'open',
+      parameter: 'turbidity',
+      kind: 'predicted_breach',
+      predictedAt: new Date(Date.now() + 9 * 3600000).toISOString(),
+    },
+    {
+      id: '3',
+      type: 'info',
+      severity: 'info',
+      message: 'System maintenance scheduled',
+      locationId: '3',
+      timestamp: new Date(Date.now() - 7200000).toISOString(),
+      status: 'resolved',
+      acknowledgedAt: new Date(Date.now() - 6600000).toISOString(),
+      resolvedAt: new Date(Date.now() - 5400000).toISOString(),
+      resolutionNotes: 'Maintenance completed as planned',
+    },
+    // Raised by the server once location 3's node had been silent for 30 minutes.
+    {
+      id: `offline-device-3-${Date.now() - SILENT_DEVICE_AGE}`,
+      type: 'warning',
+      severity: 'warning',
+      message: 'Device AQS-10977 offline for 7 h, battery was low (11.1 V)',
+      locationId: '3',
+      timestamp: new Date(Date.now() - SILENT_DEVICE_AGE + 30 * 60 * 1000).toISOString(),
+      status: 'open',
+      kind: 'device_offline',
+      deviceId: 'device-3',
+    },
+  ];
+}
+
+export function generateMockLocations(): Location[] {
+  return [
+    {
+      id: '1',
+      village: 'Riverside Village',
+      district: 'District A',
+      state: 'Maharashtra',
+      latitude: 19.0760,
+      longitude: 72.8777,
+      status: 'active',
+    },
+    {
+      id: '2',
+      village: 'Mountain Springs',
+      district: 'District B',
+      state: 'Maharashtra',
+      latitude: 19.1136,
+      longitude: 72.8697,
+      status: 'warning',
+    },
+    {
+      id: '3',
+      village: 'Valley View',
+      district: 'District C',
+      state: 'Maharashtra',
+      latitude: 19.0896,
+      longitude: 72.8656,
+      status: 'inactive',
+    },
+  ];
+}
+
+export function generateMockEscalationPolicies(): EscalationPolicy[] {
+  const districts = [...new Set(generateMockLocations().map(l => l.district))];
+  return districts.map(createDefaultPolicy);
+}
+
+export function generateMockNotificationChannels(): NotificationChannel[] {
+  return [
+    {
+      id: 'channel-1',
+      name: 'District A health office',
+      type: 'email',
+      config: {
+        recipients: 'dho.districta@example.org',
+        smtpHost: 'smtp.example.org:587',
+        from: 'alerts@example.org',
+      },
+      severities: ['critical', 'warning'],
+      locationIds: ['1'],
+      enabled: true,
+    },
+    {
+      id: 'channel-2',
+      name: 'Field technicians SMS',
+      type: 'sms',
+      config: {
+        numbers: '+919800000000',
+        gatewayUrl: 'https://sms.example.org/send',
+        senderId: 'HLTHMN',
+      },
+      severities: ['critical'],
+      locationIds: [],
+      enabled: true,
+    },
+  ];
+}
+
+export function generateMockRetryQueue(): NotificationDelivery[] {
+  return generateMockAlerts()
+    .flatMap(alert => alert.deliveries ?? [])
+    .filter(delivery => delivery.status === 'retrying' || delivery.status === 'failed');
+}
+
+export function generateMockMaintenanceWindows(): MaintenanceWindow[] {
+  const hour = 60 * 60 * 1000;
+  return [
+    {
+      id: 'maintenance-1',
+      locationId: '2',
+      start: new Date(Date.now() - 2 * hour).toISOString(),
+      end: new Date(Date.now() + 2 * hour).toISOString(),
+      reason: 'Pipe flushing',
+      parameters: ['turbidity'],
+      mode: 'tag',
+    },
+    {
+      id: 'maintenance-2',
+      locationId: '1',
+      start: new Date(Date.now() + 48 * hour).toISOString(),
+      end: new Date(Date.now() + 54 * hour).toISOString(),
+      reason: 'Probe replacement',
+      parameters: [],
+      mode: 'suppress',
+    },
+  ];
+}
+
+export function generateMockCalibrations(): CalibrationRecord[] {
+  const day = 24 * 60 * 60 * 1000;
+  return [
+    {
+      id: 'calibration-1',
+      locationId: '1',
+      deviceId: 'device-1',
+      parameter: 'ph',
+      calibratedAt: new Date(Date.now() - 40 * day).toISOString(),
+      technician: 'S. Kulkarni',
+      points: [
+        { reference: 4.01, measured: 4.09 },
+        { reference: 7, measured: 7.12 },
+        { reference: 10.01, measured: 10.17 },
+      ],
+      offset: -0.026,
+      slope: 0.9868,
+    },
+    {
+      id: 'calibration-2',
+      locationId: '2',
+      deviceId: 'device-4',
+      parameter: 'turbidity',
+      calibratedAt: new Date(Date.now() - 20 * day).toISOString(),
+      technician: 'R. Patil',
+      points: [
+        { reference: 0, measured: 0.4 },
+        { reference: 20, measured: 20.8 },
+      ],
+      offset: -0.392,
+      slope: 0.9804,
+    },
+    {
+      id: 'calibration-3',
+      locationId: '2',
+      deviceId: 'device-2',
+      parameter: 'ph',
+      calibratedAt: new Date(Date.now() - 6 * 60 * 60 * 1000).toISOString(),
+      technician: 'R. Patil',
+      points: [{ reference: 7, measured: 7.15 }],
+      offset: -0.15,
+      slope: 1,
+      notes: 'Single-point check after cleaning the electrode',
+    },
+  ];
+}
+
+export function generateMockDevices(): Device[] {
+  const day = 24 * 60 * 60 * 1000;
+  const ago = (days: number) => new Date(Date.now() - days * day).toISOString();
+  const swappedAt = new Date(Date.now() - DEVICE_SWAP_AGE).toISOString();
+  const basicKit: Device['parameters'] = ['ph', 'turbidity', 'temperature'];
+  return [
+    {
+      id: 'device-1',
+      serialNumber: 'AQX-20417',
+      model: 'AquaSense MP-8',
+      parameters: [...basicKit, 'tds', 'conductivity', 'dissolved_oxygen', 'residual_chlorine', 'nitrate', 'fluoride'],
+      firmware: '3.2.1',
+      status: 'active',
+      locationId: '1',
+      installedAt: ago(120),
+      history: [
+        { locationId: '3', installedAt: ago(300), removedAt: ago(121), removalReason: 'Moved to the higher-risk site' },
+        { locationId: '1', installedAt: ago(120), removedAt: null },
+      ],
+    },
+    {
+      id: 'device-2',
+      serialNumber: 'AQS-11852',
+      model: 'AquaSense S-3',
+      parameters: basicKit,
+      firmware: '2.8.0',
+      status: 'active',
+      locationId: '2',
+      installedAt: swappedAt,
+      history: [{ locationId: '2', installedAt: swappedAt, removedAt: null }],
+      replacesDeviceId: 'device-4',
+    },
+    {
+      id: 'device-3',
+      serialNumber: 'AQS-10977',
+      model: 'AquaSense S-3',
+      parameters: basicKit,
+      firmware: '2.7.4',
+      status: 'active',
+      locationId: '3',
+      installedAt: ago(110),
+      history: [{ locationId: '3', installedAt: ago(110), removedAt: null }],
+    },
+    {
+      id: 'device-4',
+      serialNumber: 'AQS-10412',
+      model: 'AquaSense S-3',
+      parameters: basicKit,
+      firmware: '2.7.4',
+      status: 'retired',
+      locationId: null,
+      installedAt: null,
+      history: [
+        { locationId: '2', installedAt: ago(400), removedAt: swappedAt, removalReason: 'Replaced by AQS-11852' },
+      ],
+      replacedByDeviceId: 'device-2',
+    },
+    {
+      id: 'device-5',
+      serialNumber: 'AQS-12030',
+      model: 'AquaSense S-3',
+      parameters: basicKit,
+      firmware: '2.8.0',
+      status: 'in_storage',
+      locationId: null,
+      installedAt: null,
+      history: [],
+    },
+  ];
+}
+
+export function generateMockHeartbeats(): DeviceHeartbeat[] {
+  const minute = 60 * 1000;
+  const day = 24 * 60 * 60;
+  return [
+    {
+      deviceId: 'device-1',
+      lastSeen: new Date(Date.now() - 2 * minute).toISOString(),
+      batteryVoltage: 12.7,
+      signalStrength: -71,
+      uptimeSeconds: 41 * day,
+    },
+    {
+      deviceId: 'device-2',
+      lastSeen: new Date(Date.now() - 4 * minute).toISOString(),
+      batteryVoltage: 11.3,
+      signalStrength: -104,
+      uptimeSeconds: 9 * day + 3600,
+    },
+    {
+      deviceId: 'device-3',
+      lastSeen: new Date(Date.now() - SILENT_DEVICE_AGE).toISOString(),
+      batteryVoltage: 11.1,
+      signalStrength: -93,
+      uptimeSeconds: 2 * day,
+    },
+  ];
+}
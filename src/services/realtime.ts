@@ -0,0 +1,146 @@
+import { API_BASE_URL, type Alert, type DeviceHeartbeat, type Location, type Reading } from './api';
+
+export type RealtimeStatus = 'idle' | 'connecting' | 'connected' | 'reconnecting';
+
+export interface RealtimeEvents {
+  alert: Alert;
+  reading: Reading;
+  location: Location;
+  heartbeat: DeviceHeartbeat;
+}
+
+export type RealtimeEventType = keyof RealtimeEvents;
+
+type EventHandler<T extends RealtimeEventType> = (payload: RealtimeEvents[T]) => void;
+type StatusListener = (status: RealtimeStatus) => void;
+
+const INITIAL_RETRY_DELAY = 1000;
+const MAX_RETRY_DELAY = 30000;
+
+const REALTIME_URL = `${API_BASE_URL.replace(/^http/, 'ws')}/ws`;
+
+let socket: WebSocket | null = null;
+let status: RealtimeStatus = 'idle';
+let retryAttempt = 0;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+let subscriberCount = 0;
+
+const statusListeners = new Set<StatusListener>();
+const eventHandlers = new Map<RealtimeEventType, Set<EventHandler<RealtimeEventType>>>();
+
+function setStatus(next: RealtimeStatus) {
+  status = next;
+  statusListeners.forEach(listener => listener(status));
+}
+
+// Exponential backoff with full jitter so a restarted server is not hit by
+// every open dashboard at the same moment.
+export function getRetryDelay(attempt: number) {
+  const ceiling = Math.min(MAX_RETRY_DELAY, INITIAL_RETRY_DELAY * 2 ** attempt);
+  return Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+}
+
+function handleMessage(event: MessageEvent) {
+  let message: { type?: RealtimeEventType; payload?: unknown };
+  try {
+    message = JSON.parse(event.data);
+  } catch (error) {
+    return;
+  }
+  if (!message.type || !message.payload) return;
+  eventHandlers.get(message.type)?.forEach(handler => handler(message.payload as RealtimeEvents[RealtimeEventType]));
+}
+
+function scheduleReconnect() {
+  if (subscriberCount === 0) return;
+  setStatus('reconnecting');
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    retryAttempt += 1;
+    connect();
+  }, getRetryDelay(retryAttempt));
+}
+
+function connect() {
+  const token = localStorage.getItem('auth_token');
+  if (!token) {
+    setStatus('idle');
+    return;
+  }
+
+  if (status !== 'reconnecting') {
+    setStatus('connecting');
+  }
+
+  const ws = new WebSocket(`${REALTIME_URL}?token=${encodeURIComponent(token)}`);
+  socket = ws;
+
+  ws.onopen = () => {
+    retryAttempt = 0;
+    setStatus('connected');
+  };
+  ws.onmessage = handleMessage;
+  ws.onclose = () => {
+    if (socket !== ws) return;
+    socket = null;
+    scheduleReconnect();
+  };
+}
+
+function disconnect() {
+  if (retryTimer) {
+    clearTimeout(retryTimer);
+    retryTimer = null;
+  }
+  const ws = socket;
+  socket = null;
+  ws?.close();
+  retryAttempt = 0;
+  setStatus('idle');
+}
+
+// The connection is shared by every subscriber and only held open while at
+// least one component is listening.
+function retain() {
+  subscriberCount += 1;
+  if (subscriberCount === 1) {
+    connect();
+  }
+  return () => {
+    subscriberCount -= 1;
+    if (subscriberCount === 0) {
+      disconnect();
+    }
+  };
+}
+
+export const realtime = {
+  getStatus: () => status,
+
+  onStatusChange: (listener: StatusListener) => {
+    statusListeners.add(listener);
+    const release = retain();
+    return () => {
+      statusListeners.delete(listener);
+      release();
+    };
+  },
+
+  subscribe: <T extends RealtimeEventType>(type: T, handler: EventHandler<T>) => {
+    const handlers = eventHandlers.get(type) ?? new Set();
+    handlers.add(handler as EventHandler<RealtimeEventType>);
+    eventHandlers.set(type, handlers);
+    const release = retain();
+    return () => {
+      handlers.delete(handler as EventHandler<RealtimeEventType>);
+      release();
+    };
+  },
+
+  reconnect: () => {
+    disconnect();
+    if (subscriberCount > 0) {
+      connect();
+    }
+  },
+};
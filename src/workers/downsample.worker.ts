@@ -0,0 +1,20 @@
+import { downsampleSeries } from '@/lib/downsample';
+
+export interface DownsampleRequest {
+  id: number;
+  xs: Float64Array;
+  series: Float64Array[];
+  threshold: number;
+}
+
+export interface DownsampleResponse {
+  id: number;
+  indices: Uint32Array;
+}
+
+self.onmessage = (event: MessageEvent<DownsampleRequest>) => {
+  const { id, xs, series, threshold } = event.data;
+  const indices = Uint32Array.from(downsampleSeries(xs, series, threshold));
+  const response: DownsampleResponse = { id, indices };
+  self.postMessage(response, { transfer: [indices.buffer] });
+};